@@ -1,44 +1,22 @@
 import { test, expect } from '@playwright/test';
+import type { CommunityRecipe } from '../src/utils/supabase/recipesContract';
+import { e2eUser } from './support/fixtures';
+import { createRecipe, openRecipe, signIn } from './support/helpers';
 
 test.describe('Delete Dialog', () => {
-  test.beforeEach(async ({ page }) => {
-    // Mock the community recipes API to provide test data
-    await page.route('**/functions/v1/recipes*', async (route) => {
-      if (route.request().method() === 'GET') {
-        await route.fulfill({
-          status: 200,
-          contentType: 'application/json',
-          body: JSON.stringify([
-            {
-              id: 'recipe:1234567890:abc123',
-              name: 'Test Smoothie',
-              contributor: 'TestUser',
-              emoji: '🥤',
-              color: '#9333EA',
-              ingredients: ['1 banana', '1 cup milk'],
-              instructions: 'Blend everything',
-              servings: 2,
-              prepTime: '5 min',
-              containsFat: false,
-              containsNuts: false,
-              createdAt: new Date().toISOString(),
-            },
-          ]),
-        });
-      } else {
-        await route.continue();
-      }
-    });
+  let recipe: CommunityRecipe;
+
+  test.beforeEach(async ({ page, request }) => {
+    // A recipe of our own for each test; the mock backend is shared by parallel workers
+    recipe = await createRecipe(request, e2eUser);
 
     await page.goto('/');
     await expect(page.getByText('Smoothie de Jour')).toBeVisible();
+    await signIn(page, e2eUser);
+    await openRecipe(page, recipe);
   });
 
   test('should open delete dialog when delete button is clicked', async ({ page }) => {
-    // Get a recipe to show
-    await page.getByRole('button', { name: /get another recipe/i }).click();
-    await expect(page.getByText('Test Smoothie')).toBeVisible();
-
     // Click delete button
     const deleteButton = page.getByTitle('Delete recipe');
     await expect(deleteButton).toBeVisible();
@@ -53,10 +31,6 @@ test.describe('Delete Dialog', () => {
   });
 
   test('should have clickable buttons in delete dialog', async ({ page }) => {
-    // Get a recipe to show
-    await page.getByRole('button', { name: /get another recipe/i }).click();
-    await expect(page.getByText('Test Smoothie')).toBeVisible();
-
     // Open delete dialog
     await page.getByTitle('Delete recipe').click();
     await expect(page.getByText('Delete Recipe?')).toBeVisible();
@@ -73,10 +47,6 @@ test.describe('Delete Dialog', () => {
   });
 
   test('should close dialog when Cancel button is clicked', async ({ page }) => {
-    // Get a recipe to show
-    await page.getByRole('button', { name: /get another recipe/i }).click();
-    await expect(page.getByText('Test Smoothie')).toBeVisible();
-
     // Open delete dialog
     await page.getByTitle('Delete recipe').click();
     await expect(page.getByText('Delete Recipe?')).toBeVisible();
@@ -89,27 +59,10 @@ test.describe('Delete Dialog', () => {
     await expect(page.getByText('Delete Recipe?')).not.toBeVisible();
     
     // Verify recipe is still visible (dialog closed, recipe not deleted)
-    await expect(page.getByText('Test Smoothie')).toBeVisible();
+    await expect(page.getByRole('heading', { name: recipe.name })).toBeVisible();
   });
 
   test('should close dialog when Delete button is clicked', async ({ page }) => {
-    // Mock DELETE to succeed
-    await page.route('**/functions/v1/recipes*', async (route) => {
-      if (route.request().method() === 'DELETE') {
-        await route.fulfill({
-          status: 200,
-          contentType: 'application/json',
-          body: JSON.stringify({ success: true }),
-        });
-      } else {
-        await route.continue();
-      }
-    });
-
-    // Get a recipe to show
-    await page.getByRole('button', { name: /get another recipe/i }).click();
-    await expect(page.getByText('Test Smoothie')).toBeVisible();
-
     // Open delete dialog
     await page.getByTitle('Delete recipe').click();
     await expect(page.getByText('Delete Recipe?')).toBeVisible();
@@ -118,15 +71,13 @@ test.describe('Delete Dialog', () => {
     const confirmDeleteButton = page.getByRole('button', { name: /^delete$/i });
     await confirmDeleteButton.click();
 
-    // Verify dialog closes
+    // Verify dialog closes and the recipe went to the trash
     await expect(page.getByText('Delete Recipe?')).not.toBeVisible();
+    await expect(page.getByTestId('delete-toast')).toContainText(`"${recipe.name}" moved to trash`);
+    await expect(page.getByRole('heading', { name: recipe.name })).not.toBeVisible();
   });
 
   test('should close dialog when backdrop is clicked', async ({ page }) => {
-    // Get a recipe to show
-    await page.getByRole('button', { name: /get another recipe/i }).click();
-    await expect(page.getByText('Test Smoothie')).toBeVisible();
-
     // Open delete dialog
     await page.getByTitle('Delete recipe').click();
     await expect(page.getByText('Delete Recipe?')).toBeVisible();
@@ -144,10 +95,6 @@ test.describe('Delete Dialog', () => {
   });
 
   test('should have accessible dialog structure', async ({ page }) => {
-    // Get a recipe to show
-    await page.getByRole('button', { name: /get another recipe/i }).click();
-    await expect(page.getByText('Test Smoothie')).toBeVisible();
-
     // Open delete dialog
     await page.getByTitle('Delete recipe').click();
     await expect(page.getByText('Delete Recipe?')).toBeVisible();
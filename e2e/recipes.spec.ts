@@ -0,0 +1,62 @@
+import { test, expect } from '@playwright/test';
+import { e2eUser, seedRecipes } from './support/fixtures';
+import { openRecipe, signIn } from './support/helpers';
+
+test.describe('Community recipes', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await expect(page.getByText('Smoothie de Jour')).toBeVisible();
+  });
+
+  test('should show seeded recipes to signed-out visitors without edit controls', async ({ page }) => {
+    await openRecipe(page, seedRecipes[0]);
+
+    await expect(page.getByTitle('Edit recipe')).not.toBeVisible();
+    await expect(page.getByTitle('Delete recipe')).not.toBeVisible();
+  });
+
+  test('should reject a wrong password', async ({ page }) => {
+    await page.getByTitle('Sign in').click();
+    await page.locator('#email').fill(e2eUser.email);
+    await page.locator('#password').fill('not-the-password');
+    await page.getByRole('button', { name: 'Sign In', exact: true }).click();
+
+    await expect(page.getByText('Invalid login credentials')).toBeVisible();
+  });
+
+  test('should sign up, contribute a recipe and edit it', async ({ page }) => {
+    const suffix = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const name = `Sunrise Smoothie ${suffix}`;
+
+    // Sign up a fresh account
+    await page.getByTitle('Sign in').click();
+    await page.getByRole('button', { name: /sign up/i }).click();
+    await page.locator('#nickname').fill(`Blender ${suffix}`);
+    await page.locator('#email').fill(`new-${suffix}@example.com`);
+    await page.locator('#password').fill('smoothie-pass');
+    await page.getByRole('button', { name: 'Sign Up', exact: true }).click();
+    await expect(page.getByTitle('User profile')).toBeVisible();
+
+    // Contribute a recipe
+    await page.getByTitle('Contribute a recipe').click();
+    await page.locator('#name').fill(name);
+    await page.getByPlaceholder('e.g., 1 cup frozen mango').first().fill('1 cup orange juice');
+    await page.locator('#instructions').fill('Blend with ice until smooth');
+    await page.getByRole('button', { name: 'Submit Recipe' }).click();
+    await expect(page.getByRole('heading', { name })).toBeVisible();
+
+    // Edit it
+    await page.getByTitle('Edit recipe').click();
+    await page.locator('#name').fill(`${name} v2`);
+    await page.getByRole('button', { name: 'Update Recipe' }).click();
+    await expect(page.getByRole('heading', { name: `${name} v2` })).toBeVisible();
+  });
+
+  test('should keep other people\'s recipes read-only when signed in', async ({ page }) => {
+    await signIn(page, e2eUser);
+    await openRecipe(page, seedRecipes[1]);
+
+    await expect(page.getByTitle('Edit recipe')).not.toBeVisible();
+    await expect(page.getByTitle('Delete recipe')).not.toBeVisible();
+  });
+});
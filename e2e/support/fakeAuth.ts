@@ -0,0 +1,174 @@
+import { Hono } from 'hono';
+import { sign, verify } from 'hono/jwt';
+
+// Just enough of the Supabase Auth (GoTrue) API for supabase-js to sign up, sign in, refresh,
+// update the user and sign out. Sessions are HS256 JWTs the recipes app accepts with the same secret.
+
+export interface FakeAuthUser {
+  id: string;
+  email: string;
+  password: string;
+  nickname?: string;
+}
+
+interface StoredUser {
+  id: string;
+  email: string;
+  password: string;
+  user_metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FakeAuthOptions {
+  jwtSecret: string;
+  /** Accounts that exist from the start */
+  users?: FakeAuthUser[];
+}
+
+const SESSION_SECONDS = 60 * 60;
+
+const toPublicUser = (user: StoredUser) => ({
+  id: user.id,
+  aud: 'authenticated',
+  role: 'authenticated',
+  email: user.email,
+  email_confirmed_at: user.created_at,
+  app_metadata: { provider: 'email', providers: ['email'] },
+  user_metadata: user.user_metadata,
+  created_at: user.created_at,
+  updated_at: user.updated_at,
+});
+
+// GoTrue's error body; supabase-js shows `msg`
+const authError = (code: string, msg: string) => ({ code: 400, error_code: code, msg });
+
+export function createFakeAuth({ jwtSecret, users = [] }: FakeAuthOptions): Hono {
+  const app = new Hono();
+  const now = new Date().toISOString();
+  const usersByEmail = new Map<string, StoredUser>(
+    users.map(({ id, email, password, nickname }) => [
+      email.toLowerCase(),
+      { id, email, password, user_metadata: nickname ? { nickname } : {}, created_at: now, updated_at: now },
+    ])
+  );
+  // Refresh token -> email
+  const refreshTokens = new Map<string, string>();
+
+  const createSession = async (user: StoredUser) => {
+    const expiresAt = Math.floor(Date.now() / 1000) + SESSION_SECONDS;
+    const accessToken = await sign(
+      {
+        sub: user.id,
+        aud: 'authenticated',
+        role: 'authenticated',
+        email: user.email,
+        user_metadata: user.user_metadata,
+        exp: expiresAt,
+      },
+      jwtSecret,
+      'HS256'
+    );
+    const refreshToken = crypto.randomUUID();
+    refreshTokens.set(refreshToken, user.email.toLowerCase());
+    return {
+      access_token: accessToken,
+      token_type: 'bearer',
+      expires_in: SESSION_SECONDS,
+      expires_at: expiresAt,
+      refresh_token: refreshToken,
+      user: toPublicUser(user),
+    };
+  };
+
+  const userFromHeader = async (authorization: string | undefined): Promise<StoredUser | null> => {
+    if (!authorization?.startsWith('Bearer ')) return null;
+    try {
+      const payload = await verify(authorization.slice('Bearer '.length), jwtSecret, 'HS256');
+      return usersByEmail.get(String(payload.email).toLowerCase()) ?? null;
+    } catch {
+      return null;
+    }
+  };
+
+  app.post('/signup', async (c) => {
+    const { email, password, data } = await c.req.json();
+    if (typeof email !== 'string' || !email.includes('@')) {
+      return c.json(authError('validation_failed', 'Unable to validate email address: invalid format'), 400);
+    }
+    if (typeof password !== 'string' || password.length < 6) {
+      return c.json(authError('weak_password', 'Password should be at least 6 characters.'), 422);
+    }
+    if (usersByEmail.has(email.toLowerCase())) {
+      return c.json(authError('user_already_exists', 'User already registered'), 422);
+    }
+    const createdAt = new Date().toISOString();
+    const user: StoredUser = {
+      id: crypto.randomUUID(),
+      email,
+      password,
+      user_metadata: data ?? {},
+      created_at: createdAt,
+      updated_at: createdAt,
+    };
+    usersByEmail.set(email.toLowerCase(), user);
+    // Email confirmation is off, so sign-up signs in straight away
+    return c.json(await createSession(user));
+  });
+
+  app.post('/token', async (c) => {
+    const grantType = c.req.query('grant_type');
+    const body = await c.req.json();
+
+    if (grantType === 'password') {
+      const user = usersByEmail.get(String(body.email).toLowerCase());
+      if (!user || user.password !== body.password) {
+        return c.json(authError('invalid_credentials', 'Invalid login credentials'), 400);
+      }
+      return c.json(await createSession(user));
+    }
+
+    if (grantType === 'refresh_token') {
+      const email = refreshTokens.get(body.refresh_token);
+      const user = email ? usersByEmail.get(email) : undefined;
+      if (!user) {
+        return c.json(authError('refresh_token_not_found', 'Invalid Refresh Token: Refresh Token Not Found'), 400);
+      }
+      refreshTokens.delete(body.refresh_token);
+      return c.json(await createSession(user));
+    }
+
+    return c.json(authError('validation_failed', `Unsupported grant type: ${grantType}`), 400);
+  });
+
+  app.get('/user', async (c) => {
+    const user = await userFromHeader(c.req.header('Authorization'));
+    if (!user) {
+      return c.json(authError('bad_jwt', 'invalid JWT'), 401);
+    }
+    return c.json(toPublicUser(user));
+  });
+
+  app.put('/user', async (c) => {
+    const user = await userFromHeader(c.req.header('Authorization'));
+    if (!user) {
+      return c.json(authError('bad_jwt', 'invalid JWT'), 401);
+    }
+    const { data, password } = await c.req.json();
+    if (password !== undefined) {
+      if (typeof password !== 'string' || password.length < 6) {
+        return c.json(authError('weak_password', 'Password should be at least 6 characters.'), 422);
+      }
+      user.password = password;
+    }
+    if (data) {
+      user.user_metadata = { ...user.user_metadata, ...data };
+    }
+    user.updated_at = new Date().toISOString();
+    return c.json(toPublicUser(user));
+  });
+
+  app.post('/logout', (c) => c.body(null, 204));
+
+  return app;
+}
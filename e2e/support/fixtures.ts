@@ -0,0 +1,30 @@
+import type { CommunityRecipe } from '../../src/utils/supabase/recipesContract';
+import { buildRecipe } from '../../supabase/seed/recipeFactory';
+import type { FakeAuthUser } from './fakeAuth';
+
+// Data the mock backend starts with. Specs that change or delete recipes should create their own,
+// since specs run in parallel against the same server.
+
+export const e2eUser: FakeAuthUser = {
+  id: 'e2e-user',
+  email: 'e2e-user@example.com',
+  password: 'smoothie-pass',
+  nickname: 'E2E Blender',
+};
+
+export const otherUser: FakeAuthUser = {
+  id: 'e2e-other-user',
+  email: 'e2e-other@example.com',
+  password: 'smoothie-pass',
+  nickname: 'Someone Else',
+};
+
+export const seedRecipes: CommunityRecipe[] = [
+  buildRecipe({ id: 'recipe:1700000000000:seed1', name: 'Seeded Berry Blast', contributor: e2eUser.nickname, authorId: e2eUser.id }),
+  buildRecipe(
+    { id: 'recipe:1700000000001:seed2', name: 'Seeded Peanut Power', contributor: otherUser.nickname, authorId: otherUser.id },
+    'nuts'
+  ),
+];
+
+export const seedUsers: FakeAuthUser[] = [e2eUser, otherUser];
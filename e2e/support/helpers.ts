@@ -0,0 +1,50 @@
+import { expect, type APIRequestContext, type Page } from '@playwright/test';
+import type { CommunityRecipe, ResponseOf } from '../../src/utils/supabase/recipesContract';
+import { buildRecipe, toRecipeInput } from '../../supabase/seed/recipeFactory';
+import type { FakeAuthUser } from './fakeAuth';
+
+/** Sign in through the auth modal and wait for the profile button */
+export async function signIn(page: Page, user: FakeAuthUser) {
+  await page.getByTitle('Sign in').click();
+  await page.locator('#email').fill(user.email);
+  await page.locator('#password').fill(user.password);
+  await page.getByRole('button', { name: 'Sign In', exact: true }).click();
+  await expect(page.getByTitle('User profile')).toBeVisible();
+}
+
+/** Sign in against the mock auth directly, for setting up data without the UI */
+export async function accessTokenFor(request: APIRequestContext, user: FakeAuthUser): Promise<string> {
+  const res = await request.post('/auth/v1/token?grant_type=password', {
+    data: { email: user.email, password: user.password },
+  });
+  expect(res.ok()).toBeTruthy();
+  return (await res.json()).access_token;
+}
+
+/**
+ * Create a recipe owned by `user` with a unique name, so parallel specs never touch each other's data.
+ */
+export async function createRecipe(
+  request: APIRequestContext,
+  user: FakeAuthUser,
+  overrides: Partial<CommunityRecipe> = {}
+): Promise<CommunityRecipe> {
+  const res = await request.post('/functions/v1/recipes', {
+    headers: { Authorization: `Bearer ${await accessTokenFor(request, user)}` },
+    data: toRecipeInput(
+      buildRecipe({
+        name: `Test Smoothie ${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        ...overrides,
+      })
+    ),
+  });
+  expect(res.ok()).toBeTruthy();
+  const json: ResponseOf<'POST /recipes'> = await res.json();
+  return json.recipe;
+}
+
+/** Open a recipe through its share link */
+export async function openRecipe(page: Page, recipe: CommunityRecipe) {
+  await page.goto(`/r/${encodeURIComponent(recipe.id)}`);
+  await expect(page.getByRole('heading', { name: recipe.name })).toBeVisible();
+}
@@ -0,0 +1,44 @@
+import { Hono } from 'hono';
+import { createApp } from '../../supabase/functions/recipes/app.ts';
+import { createApp as createServerApp } from '../../supabase/functions/server/app.ts';
+import { createMemoryStorage, type KvEntry } from '../../supabase/functions/_shared/kvStorage.ts';
+import { nicknameClaimKey } from '../../supabase/functions/_shared/nicknameSchema.ts';
+import { profileKey, type StoredProfile } from '../../supabase/functions/_shared/profiles.ts';
+import { fixtureSets, isFixtureSetName } from '../../supabase/seed/fixtureSets.ts';
+import { toSeedEntries } from '../../supabase/seed/seed.ts';
+import { createFakeAuth, type FakeAuthUser } from './fakeAuth';
+import { seedRecipes, seedUsers } from './fixtures';
+
+/** Signs the fake sessions and is checked by the recipes and server apps */
+export const E2E_JWT_SECRET = 'e2e-jwt-secret';
+
+// Seed users hold their nicknames in the registry, as if they had claimed them when signing up
+const registryEntries = (users: FakeAuthUser[]): KvEntry[] => {
+  const now = new Date().toISOString();
+  return users.flatMap(({ id, nickname }) => {
+    if (!nickname) return [];
+    const profile: StoredProfile = { userId: id, nickname, bio: '', avatarUrl: null, joinedAt: now, updatedAt: now };
+    return [
+      { key: profileKey(id), value: profile },
+      { key: nicknameClaimKey(nickname), value: { userId: id, nickname, claimedAt: now } },
+    ];
+  });
+};
+
+/**
+ * A stand-in for the Supabase project: the recipes and server functions under /functions/v1 on an in-memory
+ * store, and the fake auth under /auth/v1. Starts from the seed fixtures on every server start,
+ * plus the fixture set named by SEED_FIXTURES if set (e.g. `SEED_FIXTURES=large npm run dev:e2e`).
+ */
+export function createMockBackend(fixtureSet = process.env.SEED_FIXTURES): Hono {
+  if (fixtureSet && !isFixtureSetName(fixtureSet)) {
+    throw new Error(`Unknown fixture set "${fixtureSet}". Available: ${Object.keys(fixtureSets).join(', ')}`);
+  }
+  const app = new Hono();
+  const extraRecipes = fixtureSet ? fixtureSets[fixtureSet]() : [];
+  const kv = createMemoryStorage([...toSeedEntries([...seedRecipes, ...extraRecipes]), ...registryEntries(seedUsers)]);
+  app.route('/auth/v1', createFakeAuth({ jwtSecret: E2E_JWT_SECRET, users: seedUsers }));
+  app.route('/functions/v1', createApp({ kv, jwtSecret: E2E_JWT_SECRET }));
+  app.route('/functions/v1', createServerApp({ kv, jwtSecret: E2E_JWT_SECRET }));
+  return app;
+}
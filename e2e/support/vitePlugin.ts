@@ -0,0 +1,58 @@
+import type { IncomingMessage } from 'node:http';
+import type { Plugin } from 'vite';
+import type { Hono } from 'hono';
+
+// Serves the mock backend from the dev server in `--mode e2e`, so Playwright runs need no Supabase project.
+// Point the app at it with VITE_SUPABASE_URL set to the dev server's own origin.
+
+const BACKEND_PATHS = ['/functions/v1/', '/auth/v1/'];
+
+const readBody = async (req: IncomingMessage): Promise<Buffer | undefined> => {
+  if (req.method === 'GET' || req.method === 'HEAD') return undefined;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+const toHeaders = (req: IncomingMessage): Headers => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) value.forEach((v) => headers.append(name, v));
+    else if (value !== undefined) headers.set(name, value);
+  }
+  return headers;
+};
+
+export function mockBackend(): Plugin {
+  return {
+    name: 'smoothie-mock-backend',
+    apply: (_config, { command, mode }) => command === 'serve' && mode === 'e2e',
+    config: () => ({ server: { open: false } }),
+    configureServer(server) {
+      let backend: Promise<Hono> | undefined;
+
+      server.middlewares.use(async (req, res, next) => {
+        if (!req.url || !BACKEND_PATHS.some((path) => req.url!.startsWith(path))) {
+          next();
+          return;
+        }
+        try {
+          backend ??= server
+            .ssrLoadModule('/e2e/support/mockBackend.ts')
+            .then((module) => (module as typeof import('./mockBackend')).createMockBackend());
+          const body = await readBody(req);
+          const response = await (await backend).fetch(
+            new Request(`http://${req.headers.host}${req.url}`, { method: req.method, headers: toHeaders(req), body })
+          );
+          res.statusCode = response.status;
+          response.headers.forEach((value, name) => res.setHeader(name, value));
+          res.end(Buffer.from(await response.arrayBuffer()));
+        } catch (error) {
+          next(error);
+        }
+      });
+    },
+  };
+}
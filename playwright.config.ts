@@ -17,10 +17,15 @@ export default defineConfig({
       use: { ...devices['Desktop Chrome'] },
     },
   ],
+  // The dev server also serves a mock Supabase (recipes function and auth) seeded from e2e/support/fixtures.ts
   webServer: {
-    command: 'npm run dev',
+    command: 'npm run dev:e2e',
     url: 'http://localhost:5173',
     reuseExistingServer: !process.env.CI,
+    env: {
+      VITE_SUPABASE_URL: 'http://localhost:5173',
+      VITE_SUPABASE_ANON_KEY: 'e2e-anon-key',
+    },
   },
 });
 
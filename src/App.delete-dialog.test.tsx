@@ -7,12 +7,32 @@ import * as communityUtils from './utils/supabase/community';
 
 // Mock the community utils
 vi.mock('./utils/supabase/community', () => ({
-  fetchCommunityRecipes: vi.fn(),
+  fetchCommunityRecipe: vi.fn(),
+  fetchCommunityRecipes: vi.fn().mockResolvedValue([]),
+  fetchCommunityRecipesPage: vi.fn(),
+  searchCommunityRecipes: vi.fn(),
+  fetchRecipeRatings: vi.fn(),
+  fetchDeletedRecipes: vi.fn(),
+  restoreCommunityRecipe: vi.fn(),
   submitCommunityRecipe: vi.fn(),
   updateCommunityRecipe: vi.fn(),
+  renameRecipeAuthor: vi.fn(),
   deleteCommunityRecipe: vi.fn(),
 }));
 
+vi.mock('./utils/supabase/favorites', () => ({
+  fetchFavorites: vi.fn().mockResolvedValue([]),
+  mergeFavorites: vi.fn().mockImplementation(async (recipeIds: unknown[]) => recipeIds),
+  saveFavorite: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('./utils/supabase/profile', () => ({
+  checkNicknameAvailability: vi.fn().mockImplementation(async (nickname: string) => ({ nickname, available: true })),
+  claimNickname: vi.fn().mockImplementation(async (nickname: string) => nickname),
+  fetchPublicProfile: vi.fn().mockResolvedValue(null),
+  releaseNickname: vi.fn().mockResolvedValue(undefined),
+}));
+
 // Mock Supabase client
 vi.mock('./utils/supabase/client', () => ({
   supabase: {
@@ -56,12 +76,14 @@ describe('Delete Recipe Dialog', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     localStorage.clear();
+    window.history.replaceState(null, '', '/');
     
     // Mock a community recipe that belongs to the user
     const userRecipe = {
       id: 'recipe:1234567890:abc123',
       name: 'My Test Smoothie',
       contributor: 'TestUser',
+      authorId: 'test-user',
       emoji: '🥤',
       color: '#9333EA',
       ingredients: ['1 banana', '1 cup milk'],
@@ -72,8 +94,10 @@ describe('Delete Recipe Dialog', () => {
       containsNuts: false,
     };
 
-    vi.mocked(communityUtils.fetchCommunityRecipes).mockResolvedValue([userRecipe]);
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockResolvedValue({ recipes: [userRecipe], nextCursor: null });
     vi.mocked(communityUtils.deleteCommunityRecipe).mockResolvedValue();
+    vi.mocked(communityUtils.fetchRecipeRatings).mockResolvedValue({ ratings: [], summary: { average: 0, count: 0 } });
+    vi.mocked(communityUtils.fetchDeletedRecipes).mockResolvedValue([]);
   });
 
   it('should show delete confirmation dialog when delete button is clicked', async () => {
@@ -150,7 +174,87 @@ describe('Delete Recipe Dialog', () => {
 
     // Verify deleteCommunityRecipe was called
     await waitFor(() => {
-      expect(communityUtils.deleteCommunityRecipe).toHaveBeenCalledWith('recipe:1234567890:abc123');
+      expect(communityUtils.deleteCommunityRecipe).toHaveBeenCalledWith('recipe:1234567890:abc123', expect.any(Object));
+    });
+  });
+
+  it('should undo a delete from the toast by restoring the recipe', async () => {
+    const user = userEvent.setup();
+    vi.mocked(communityUtils.restoreCommunityRecipe).mockImplementation(async (recipeId) => ({
+      id: recipeId,
+      name: 'My Test Smoothie',
+      contributor: 'TestUser',
+      authorId: 'test-user',
+      emoji: '🥤',
+      color: '#9333EA',
+      ingredients: ['1 banana', '1 cup milk'],
+      instructions: 'Blend everything',
+      servings: 2,
+      prepTime: '5 min',
+      containsFat: false,
+      containsNuts: false,
+    }));
+    renderApp();
+
+    const getRecipeButton = await screen.findByRole('button', { name: /get another recipe/i });
+    await act(async () => {
+      await user.click(getRecipeButton);
+    });
+    await waitFor(() => {
+      expect(screen.getByText('My Test Smoothie')).toBeInTheDocument();
+    }, { timeout: 2000 });
+
+    await act(async () => {
+      await user.click(screen.getByTitle('Delete recipe'));
+    });
+    await act(async () => {
+      await user.click(await screen.findByRole('button', { name: /^delete$/i }));
+    });
+
+    const toast = await screen.findByTestId('delete-toast');
+    expect(toast).toHaveTextContent('"My Test Smoothie" moved to trash');
+
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /undo/i }));
+    });
+
+    await waitFor(() => {
+      expect(communityUtils.restoreCommunityRecipe).toHaveBeenCalledWith('recipe:1234567890:abc123', expect.any(Object));
+    });
+    await waitFor(() => {
+      expect(screen.getByTitle('Delete recipe')).toBeInTheDocument();
+    });
+  });
+
+  it('should put the recipe back when the delete fails', async () => {
+    const user = userEvent.setup();
+    vi.mocked(communityUtils.deleteCommunityRecipe).mockRejectedValue(new Error('Failed to delete recipe: 500'));
+    renderApp();
+
+    const getRecipeButton = await screen.findByRole('button', { name: /get another recipe/i });
+    await act(async () => {
+      await user.click(getRecipeButton);
+    });
+    await waitFor(() => {
+      expect(screen.getByText('My Test Smoothie')).toBeInTheDocument();
+    }, { timeout: 2000 });
+
+    await act(async () => {
+      await user.click(screen.getByTitle('Delete recipe'));
+    });
+    await act(async () => {
+      await user.click(await screen.findByRole('button', { name: /^delete$/i }));
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('delete-toast')).toHaveTextContent('Couldn\'t delete "My Test Smoothie"');
+    });
+    // The recipe is back in the pool and can be shaken up again
+    await act(async () => {
+      await user.click(screen.getByRole('button', { name: /get another recipe/i }));
+    });
+    await waitFor(() => {
+      expect(screen.getByText('My Test Smoothie')).toBeInTheDocument();
     });
   });
 
@@ -8,9 +8,30 @@ import { smoothieRecipes } from './data/recipes';
 
 // Mock the community utils
 vi.mock('./utils/supabase/community', () => ({
-  fetchCommunityRecipes: vi.fn(),
+  fetchCommunityRecipe: vi.fn(),
+  fetchCommunityRecipes: vi.fn().mockResolvedValue([]),
+  fetchCommunityRecipesPage: vi.fn(),
+  searchCommunityRecipes: vi.fn(),
+  fetchRecipeRatings: vi.fn(),
+  fetchDeletedRecipes: vi.fn(),
+  restoreCommunityRecipe: vi.fn(),
   submitCommunityRecipe: vi.fn(),
   updateCommunityRecipe: vi.fn(),
+  deleteCommunityRecipe: vi.fn(),
+  renameRecipeAuthor: vi.fn(),
+}));
+
+vi.mock('./utils/supabase/favorites', () => ({
+  fetchFavorites: vi.fn().mockResolvedValue([]),
+  mergeFavorites: vi.fn().mockImplementation(async (recipeIds: unknown[]) => recipeIds),
+  saveFavorite: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('./utils/supabase/profile', () => ({
+  checkNicknameAvailability: vi.fn().mockImplementation(async (nickname: string) => ({ nickname, available: true })),
+  claimNickname: vi.fn().mockImplementation(async (nickname: string) => nickname),
+  fetchPublicProfile: vi.fn().mockResolvedValue(null),
+  releaseNickname: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Mock Supabase client
@@ -58,13 +79,31 @@ const renderApp = () => {
   return result!;
 };
 
+const makeRecipe = (n: number) => ({
+  id: `recipe:${n}:abc`,
+  name: `Community Smoothie ${n}`,
+  contributor: 'Community User',
+  emoji: '🥤',
+  color: '#9333EA',
+  ingredients: ['1 banana'],
+  instructions: 'Blend',
+  servings: 1,
+  prepTime: '5 min',
+  containsFat: false,
+  containsNuts: false,
+});
+
 describe('App', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     localStorage.clear();
+    window.history.replaceState(null, '', '/');
     
-    // Mock fetchCommunityRecipes to fail by default (so defaults are shown)
-    vi.mocked(communityUtils.fetchCommunityRecipes).mockRejectedValue(new Error('Network error'));
+    // Mock fetchCommunityRecipesPage to fail by default (so defaults are shown)
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockRejectedValue(new Error('Network error'));
+    vi.mocked(communityUtils.fetchCommunityRecipe).mockResolvedValue(null);
+    vi.mocked(communityUtils.fetchRecipeRatings).mockResolvedValue({ ratings: [], summary: { average: 0, count: 0 } });
+    vi.mocked(communityUtils.fetchDeletedRecipes).mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -235,15 +274,100 @@ describe('App', () => {
       },
     ];
 
-    vi.mocked(communityUtils.fetchCommunityRecipes).mockResolvedValue(mockRecipes);
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockResolvedValue({ recipes: mockRecipes, nextCursor: null });
+
+    renderApp();
+
+    await waitFor(() => {
+      expect(communityUtils.fetchCommunityRecipesPage).toHaveBeenCalled();
+    });
+  });
+
+  it('should load every page of community recipes', async () => {
+    vi.mocked(communityUtils.fetchCommunityRecipesPage)
+      .mockResolvedValueOnce({ recipes: [makeRecipe(1), makeRecipe(2)], nextCursor: 'page-2' })
+      .mockResolvedValueOnce({ recipes: [makeRecipe(3)], nextCursor: null });
+
+    renderApp();
+
+    await waitFor(() => {
+      expect(screen.getByText(/Community recipes, served fresh/i).textContent).toContain('3 recipes');
+    });
+    expect(communityUtils.fetchCommunityRecipesPage).toHaveBeenCalledTimes(2);
+    expect(communityUtils.fetchCommunityRecipesPage).toHaveBeenNthCalledWith(1, { noFat: false, noNuts: false, minRating: 0, cursor: null });
+    expect(communityUtils.fetchCommunityRecipesPage).toHaveBeenNthCalledWith(2, { noFat: false, noNuts: false, minRating: 0, cursor: 'page-2' });
+  });
+
+  it('should replace the catalog when the filters change', async () => {
+    const user = userEvent.setup();
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockImplementation(async ({ noNuts }) => ({
+      recipes: noNuts ? [makeRecipe(1)] : [makeRecipe(1), { ...makeRecipe(2), containsNuts: true }, makeRecipe(3)],
+      nextCursor: null,
+    }));
+    renderApp();
+
+    await waitFor(() => {
+      expect(screen.getByText(/Community recipes, served fresh/i).textContent).toContain('3 recipes');
+    });
+    await user.click(screen.getByLabelText('No Nuts'));
+
+    await waitFor(() => {
+      expect(screen.getByText(/Community recipes, served fresh/i).textContent).toContain('1 recipes');
+    });
+  });
+
+  it('should load all of a contributor\'s recipes when their list is opened', async () => {
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockResolvedValue({ recipes: [], nextCursor: null });
+    window.history.replaceState(null, '', '/c/user-9');
+    renderApp();
+
+    await waitFor(() => {
+      expect(communityUtils.fetchCommunityRecipes).toHaveBeenCalledWith({ author: 'user-9' });
+    });
+    expect(communityUtils.fetchCommunityRecipes).toHaveBeenCalledWith({ contributor: 'user-9' });
+  });
 
+  it('should ask the server for recipes matching the filters', async () => {
+    const user = userEvent.setup();
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockResolvedValue({ recipes: [], nextCursor: null });
     renderApp();
 
+    await user.click(await screen.findByLabelText('No Nuts'));
+
     await waitFor(() => {
-      expect(communityUtils.fetchCommunityRecipes).toHaveBeenCalled();
+      expect(communityUtils.fetchCommunityRecipesPage).toHaveBeenLastCalledWith({ noFat: false, noNuts: true, minRating: 0, cursor: null });
     });
   });
 
+  it('should say how old the catalog is when it was served from the cache offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockResolvedValue({
+      recipes: [
+        {
+          id: 'recipe:1:abc',
+          name: 'Cached Smoothie',
+          contributor: 'Community User',
+          emoji: '🥤',
+          color: '#9333EA',
+          ingredients: ['1 banana'],
+          instructions: 'Blend',
+          servings: 1,
+          prepTime: '5 min',
+          containsFat: false,
+          containsNuts: false,
+        },
+      ],
+      nextCursor: null,
+      cachedAt: '2025-06-01T08:00:00.000Z',
+    });
+
+    renderApp();
+
+    expect(await screen.findByText(/Offline — showing recipes from/i)).toBeInTheDocument();
+    // The cached catalog is used, not the built-in recipes
+    expect(screen.getByText(/Community recipes, served fresh/i).textContent).toContain('1 recipes');
+  });
+
   it('should handle recipe submission', async () => {
     const user = userEvent.setup();
     const mockSubmittedRecipe = {
@@ -387,11 +511,55 @@ describe('App', () => {
         expect.objectContaining({
           name: 'Guest Recipe',
           contributor: 'Guest User',
-        })
+        }),
+        { accessToken: undefined, idempotencyKey: expect.any(String) }
       );
     }, { timeout: 5000 });
   });
 
+  it('should sync local recipes with a stable idempotency key', async () => {
+    const localRecipe = {
+      id: 'user-1700000000000',
+      name: 'Offline Smoothie',
+      contributor: 'test@example.com',
+      emoji: '🥤',
+      color: '#9333EA',
+      ingredients: ['1 banana'],
+      instructions: 'Blend everything together',
+      servings: 1,
+      prepTime: '5 min',
+      containsFat: false,
+      containsNuts: false,
+    };
+    localStorage.setItem('smoothie-user-recipes', JSON.stringify([localRecipe]));
+    vi.mocked(communityUtils.submitCommunityRecipe).mockResolvedValue({ ...localRecipe, id: 'recipe:1700000000001:abc' });
+
+    const { supabase } = await import('./utils/supabase/client');
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: {
+        session: {
+          user: { id: 'test-user', email: 'test@example.com' },
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any,
+      },
+      error: null,
+    });
+
+    renderApp();
+
+    // Recipes saved before keys existed get one when they move into the offline store
+    await waitFor(() => {
+      expect(communityUtils.submitCommunityRecipe).toHaveBeenCalledWith(
+        expect.not.objectContaining({ clientKey: expect.anything() }),
+        expect.objectContaining({ idempotencyKey: expect.any(String) })
+      );
+    }, { timeout: 5000 });
+    expect(localStorage.getItem('smoothie-user-recipes')).toBeNull();
+    await waitFor(() => {
+      expect(localStorage.getItem('smoothie-offline:outbox')).toBeNull();
+    });
+  });
+
   it('should persist favorites to localStorage', async () => {
     const user = userEvent.setup();
     renderApp();
@@ -424,6 +592,70 @@ describe('App', () => {
     }, { timeout: 2000 });
   });
 
+  it('should fetch a shared community recipe directly instead of waiting for the catalog', async () => {
+    const sharedRecipe = {
+      id: 'recipe:1762405222159:19kx5',
+      name: 'Shared Smoothie',
+      contributor: 'Test Contributor',
+      emoji: '🥤',
+      color: '#9333EA',
+      ingredients: ['1 banana'],
+      instructions: 'Blend everything together',
+      servings: 1,
+      prepTime: '5 min',
+      containsFat: false,
+      containsNuts: false,
+      createdAt: '2024-01-01',
+    };
+    // The catalog never finishes loading
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockReturnValue(new Promise(() => {}));
+    vi.mocked(communityUtils.fetchCommunityRecipe).mockResolvedValue(sharedRecipe);
+
+    const searchParams = new URLSearchParams();
+    searchParams.set('recipe', sharedRecipe.id);
+    window.history.pushState({}, '', `?${searchParams.toString()}`);
+
+    renderApp();
+
+    await waitFor(() => {
+      expect(screen.getByText('Shared Smoothie')).toBeInTheDocument();
+    });
+    expect(communityUtils.fetchCommunityRecipe).toHaveBeenCalledWith(sharedRecipe.id);
+    // Old-style links move to the recipe's path
+    expect(window.location.pathname).toBe('/r/recipe:1762405222159:19kx5');
+    expect(window.location.search).toBe('');
+  });
+
+  it('should show a not found state when a shared recipe no longer exists', async () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set('recipe', 'recipe:1762405222159:gone');
+    window.history.pushState({}, '', `?${searchParams.toString()}`);
+
+    renderApp();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('recipe-not-found')).toBeInTheDocument();
+    });
+    expect(screen.getByText(/may have been deleted/i)).toBeInTheDocument();
+    expect(screen.queryByText(/shake your device/i)).not.toBeInTheDocument();
+  });
+
+  it('should open recipe search from the header and with Ctrl+K', async () => {
+    const user = userEvent.setup();
+    renderApp();
+
+    await user.click(screen.getByTitle(/search recipes/i));
+    expect(await screen.findByPlaceholderText(/search recipes, ingredients/i)).toBeInTheDocument();
+
+    await user.keyboard('{Escape}');
+    await waitFor(() => {
+      expect(screen.queryByPlaceholderText(/search recipes, ingredients/i)).not.toBeInTheDocument();
+    });
+
+    await user.keyboard('{Control>}k{/Control}');
+    expect(await screen.findByPlaceholderText(/search recipes, ingredients/i)).toBeInTheDocument();
+  });
+
   it('should load contributor list from URL parameter', async () => {
     // Mock community recipes with a specific contributor
     const mockRecipes = [
@@ -438,7 +670,7 @@ describe('App', () => {
         createdAt: '2024-01-01',
       },
     ];
-    vi.mocked(communityUtils.fetchCommunityRecipes).mockResolvedValue(mockRecipes);
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockResolvedValue({ recipes: mockRecipes, nextCursor: null });
 
     // Set URL parameter
     const searchParams = new URLSearchParams();
@@ -454,12 +686,95 @@ describe('App', () => {
     });
   });
 
+  it('should load a contributor list keyed by author id, under their latest name', async () => {
+    const baseRecipe = {
+      emoji: '🥤',
+      color: '#9333EA',
+      ingredients: ['1 banana'],
+      instructions: 'Blend',
+      servings: 1,
+      prepTime: '5 min',
+      containsFat: false,
+      containsNuts: false,
+    };
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockResolvedValue({
+      recipes: [
+        { ...baseRecipe, id: 'recipe:1:a', name: 'First Smoothie', contributor: 'Old Name', authorId: 'author-1', createdAt: '2024-01-01' },
+        { ...baseRecipe, id: 'recipe:2:b', name: 'Second Smoothie', contributor: 'New Name', authorId: 'author-1', createdAt: '2024-01-02' },
+        { ...baseRecipe, id: 'recipe:3:c', name: 'Impostor Smoothie', contributor: 'New Name', authorId: 'author-2', createdAt: '2024-01-03' },
+      ],
+      nextCursor: null,
+    });
+    window.history.pushState({}, '', '?contributor=author-1');
+
+    renderApp();
+
+    expect(await screen.findByText(/Recipes by New Name/i)).toBeInTheDocument();
+    expect(screen.getByText('First Smoothie')).toBeInTheDocument();
+    expect(screen.getByText('Second Smoothie')).toBeInTheDocument();
+    expect(screen.queryByText('Impostor Smoothie')).not.toBeInTheDocument();
+  });
+
+  it('should move between a contributor list and its recipes with back and forward', async () => {
+    const user = userEvent.setup();
+    const baseRecipe = {
+      emoji: '🥤',
+      color: '#9333EA',
+      ingredients: ['1 banana'],
+      instructions: 'Blend',
+      servings: 1,
+      prepTime: '5 min',
+      containsFat: false,
+      containsNuts: false,
+      contributor: 'Test Contributor',
+      authorId: 'author-1',
+      createdAt: '2024-01-01',
+    };
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockResolvedValue({
+      recipes: [
+        { ...baseRecipe, id: 'recipe:1:a', name: 'First Smoothie' },
+        { ...baseRecipe, id: 'recipe:2:b', name: 'Second Smoothie' },
+      ],
+      nextCursor: null,
+    });
+    window.history.replaceState(null, '', '/c/author-1');
+
+    renderApp();
+
+    await user.click(await screen.findByText('Second Smoothie'));
+    expect(window.location.pathname).toBe('/r/recipe:2:b');
+    expect(await screen.findByRole('heading', { name: 'Second Smoothie' })).toBeInTheDocument();
+    expect(screen.getByTitle('Back to contributor recipes')).toBeInTheDocument();
+
+    await user.click(screen.getByTitle('Back to contributor recipes'));
+    expect(await screen.findByText(/Recipes by Test Contributor/i)).toBeInTheDocument();
+    expect(window.location.pathname).toBe('/c/author-1');
+
+    act(() => {
+      window.history.forward();
+    });
+    expect(await screen.findByRole('heading', { name: 'Second Smoothie' })).toBeInTheDocument();
+    expect(window.location.pathname).toBe('/r/recipe:2:b');
+  });
+
+  it('should go to the main page from a page the app was opened on', async () => {
+    const user = userEvent.setup();
+    window.history.replaceState(null, '', '/c/Nobody');
+
+    renderApp();
+
+    await user.click(await screen.findByTitle('Back to all recipes'));
+    expect(window.location.pathname).toBe('/');
+    expect(await screen.findByText('Shake Your Phone')).toBeInTheDocument();
+  });
+
   it('should handle recipe update', async () => {
     const user = userEvent.setup();
     const mockExistingRecipe = {
       id: 'recipe:1762405222159:19kx5',
       name: 'Original Recipe',
       contributor: 'test@example.com',
+      authorId: 'test-user',
       emoji: '🥤',
       color: '#9333EA',
       ingredients: ['1 banana'],
@@ -490,8 +805,8 @@ describe('App', () => {
       error: null,
     });
 
-    // Mock fetchCommunityRecipes to return the recipe
-    vi.mocked(communityUtils.fetchCommunityRecipes).mockResolvedValue([mockExistingRecipe]);
+    // Mock fetchCommunityRecipesPage to return the recipe
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockResolvedValue({ recipes: [mockExistingRecipe], nextCursor: null });
     vi.mocked(communityUtils.updateCommunityRecipe).mockResolvedValue(mockUpdatedRecipe);
 
     renderApp();
@@ -503,7 +818,7 @@ describe('App', () => {
 
     // Wait for the recipe list to be available
     await waitFor(() => {
-      expect(communityUtils.fetchCommunityRecipes).toHaveBeenCalled();
+      expect(communityUtils.fetchCommunityRecipesPage).toHaveBeenCalled();
     });
 
     // Shake to get a recipe - the mock recipe should appear
@@ -558,7 +873,8 @@ describe('App', () => {
           contributor: 'test@example.com',
           ingredients: expect.arrayContaining(['2 bananas', '1 cup milk']),
           instructions: 'Blend well',
-        })
+        }),
+        expect.objectContaining({ accessToken: undefined })
       );
     }, { timeout: 3000 });
 
@@ -568,6 +884,42 @@ describe('App', () => {
     }, { timeout: 3000 });
   });
 
+  it('should only shake recipes meeting the minimum rating', async () => {
+    const user = userEvent.setup();
+    const baseRecipe = {
+      contributor: 'Test Contributor',
+      emoji: '🥤',
+      color: '#9333EA',
+      ingredients: ['1 banana'],
+      instructions: 'Blend everything together',
+      servings: 1,
+      prepTime: '5 min',
+      containsFat: false,
+      containsNuts: false,
+    };
+    vi.mocked(communityUtils.fetchCommunityRecipesPage).mockResolvedValue({
+      recipes: [
+        { ...baseRecipe, id: 'recipe:1:a', name: 'Top Rated Smoothie', ratingSummary: { average: 4.6, count: 5 } },
+        { ...baseRecipe, id: 'recipe:2:b', name: 'Average Smoothie', ratingSummary: { average: 3.2, count: 4 } },
+        { ...baseRecipe, id: 'recipe:3:c', name: 'Unrated Smoothie' },
+      ],
+      nextCursor: null,
+    });
+    renderApp();
+
+    await waitFor(() => {
+      expect(screen.getByText(/3 of 3 recipes available/i)).toBeInTheDocument();
+    });
+
+    await user.selectOptions(screen.getByLabelText(/Min Rating/i), '4');
+    expect(screen.getByText(/1 of 3 recipes available/i)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /get another recipe/i }));
+    await waitFor(() => {
+      expect(screen.getByText('Top Rated Smoothie')).toBeInTheDocument();
+    }, { timeout: 2000 });
+  });
+
   it('should disable "Get Another Recipe" button when no recipes match filters', async () => {
     const user = userEvent.setup();
     renderApp();
@@ -1,6 +1,6 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Plus, ArrowLeft, User } from 'lucide-react';
+import { Plus, ArrowLeft, User, Search } from 'lucide-react';
 import { RecipeCard } from './components/RecipeCard';
 import { ShakeInstruction } from './components/ShakeInstruction';
 import { FilterToggles } from './components/FilterToggles';
@@ -10,93 +10,171 @@ import { AuthModal } from './components/AuthModal';
 import { NicknameEditModal } from './components/NicknameEditModal';
 import { PasswordChangeModal } from './components/PasswordChangeModal';
 import { UserProfileView } from './components/UserProfileView';
+import { RecipeSearch } from './components/RecipeSearch';
 import { useAuth } from './contexts/AuthContext';
+import { useFavorites } from './hooks/useFavorites';
+import { useLocalRecipes } from './hooks/useLocalRecipes';
+import { useCatalogStatus } from './hooks/useCatalogStatus';
+import { useRoute } from './hooks/useRoute';
 import { smoothieRecipes as defaultRecipes } from './data/recipes';
-import { fetchCommunityRecipes, submitCommunityRecipe, updateCommunityRecipe, deleteCommunityRecipe, type CommunityRecipe } from './utils/supabase/community';
+import { fetchCommunityRecipe, fetchCommunityRecipes, fetchCommunityRecipesPage, submitCommunityRecipe, updateCommunityRecipe, revertCommunityRecipe, deleteCommunityRecipe, fetchDeletedRecipes, restoreCommunityRecipe, renameRecipeAuthor, type CommunityRecipe, type CommunityRecipesPage } from './utils/supabase/community';
+import { RecipeConflictError, RecipeValidationError } from './utils/supabase/errors';
 import type { Recipe } from './data/recipes';
+import type { RatingSummary } from './utils/validation/ratingSchema';
+import { TRASH_RETENTION_DAYS } from './utils/history/recipeTrash';
+import { contributorKeyOf, isAuthoredBy, renameAuthor } from './utils/authors/recipeAuthors';
+import { rememberSyncedRecipe } from './utils/localRecipes/recipeIdMap';
+import { homeRoute, type Route } from './utils/routing/routes';
+import type { LocalRecipe } from './utils/localRecipes/localRecipes';
+
+// How long the "moved to trash" toast offers an undo
+const UNDO_WINDOW_MS = 6000;
+
+interface DeleteToast {
+  recipe: Recipe | CommunityRecipe;
+  wasFavorite: boolean;
+  wasCurrentRecipe: boolean;
+  status: 'deleted' | 'delete-failed' | 'restore-failed';
+}
 
 export default function App() {
-  const { user, signOut, nickname } = useAuth();
-  const [currentRecipe, setCurrentRecipe] = useState<Recipe | null>(null);
+  const { user, session, loading: authLoading, signOut, nickname } = useAuth();
+  // Which recipe, contributor list or profile page is showing comes from the address bar
+  const { route, fromContributor, navigate, goBack } = useRoute();
   const [isShaking, setIsShaking] = useState(false);
   const [shakeCount, setShakeCount] = useState(0);
   const [motionPermissionGranted, setMotionPermissionGranted] = useState(false);
   const [noFat, setNoFat] = useState(false);
   const [noNuts, setNoNuts] = useState(false);
   const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [minRating, setMinRating] = useState(0);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [isNicknameModalOpen, setIsNicknameModalOpen] = useState(false);
   const [isPasswordChangeModalOpen, setIsPasswordChangeModalOpen] = useState(false);
-  const [selectedContributor, setSelectedContributor] = useState<string | null>(null);
   const [editingRecipe, setEditingRecipe] = useState<CommunityRecipe | null>(null);
   const [deletingRecipe, setDeletingRecipe] = useState<Recipe | CommunityRecipe | null>(null);
   const [justDeleted, setJustDeleted] = useState(false);
-  const [showUserProfile, setShowUserProfile] = useState(false);
-  const [syncError] = useState<string | null>(null);
-  const [userRecipes, setUserRecipes] = useState(() => {
-    const saved = localStorage.getItem('smoothie-user-recipes');
-    const recipes = saved ? JSON.parse(saved) : [];
-    
-    // Auto-fix incomplete recipes on load (missing only instructions/ingredients)
-    const fixedRecipes = recipes.map((recipe: Partial<Recipe>) => {
-      if (!recipe.name || !recipe.contributor) {
-        // Can't auto-fix - return as-is (will be removed during sync)
-        return recipe;
+  const [deleteToast, setDeleteToast] = useState<DeleteToast | null>(null);
+  const [deletedRecipes, setDeletedRecipes] = useState<CommunityRecipe[]>([]);
+  const pendingDeleteRef = useRef<{ recipeId: string; promise: Promise<void> } | null>(null);
+  // A shared recipe the server no longer has
+  const [missingRecipeId, setMissingRecipeId] = useState<string | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const { favorites, setFavorite, toggleFavorite, replaceFavorite } = useFavorites(
+    authLoading ? undefined : (user?.id ?? null),
+    session?.access_token
+  );
+  const {
+    localRecipes: userRecipes,
+    syncStatus,
+    syncError,
+    saveLocalRecipe,
+    updateLocalRecipes,
+    removeLocalRecipe,
+    queueRecipeUpdate,
+    queueRecipeDelete,
+    cancelQueuedChange,
+    dismissFailedChanges,
+  } = useLocalRecipes(user?.id ?? null, session?.access_token, {
+    onCreated: (localId, created) => {
+      setCommunityRecipes((prev) => (prev.some((r) => r.id === created.id) ? prev : [...prev, created]));
+      // Favorites, the open recipe and links made with the local id follow it to its new one
+      rememberSyncedRecipe(localId, created.id);
+      replaceFavorite(localId, created.id);
+      if (route.name === 'recipe' && route.recipeId === localId) {
+        navigate({ name: 'recipe', recipeId: created.id }, { replace: true, fromContributor });
       }
-      // Auto-fix missing ingredients or instructions
-      return {
-        ...recipe,
-        ingredients: recipe.ingredients || [],
-        instructions: recipe.instructions || 'Blend all ingredients together.',
-      };
-    });
-    
-    // Save fixed recipes back to localStorage
-    if (fixedRecipes.length > 0 && JSON.stringify(fixedRecipes) !== JSON.stringify(recipes)) {
-      localStorage.setItem('smoothie-user-recipes', JSON.stringify(fixedRecipes));
-    }
-    
-    return fixedRecipes;
-  });
-  const [favorites, setFavorites] = useState<Set<number | string>>(() => {
-    const saved = localStorage.getItem('smoothie-favorites');
-    return saved ? new Set(JSON.parse(saved)) : new Set();
+    },
+    onUpdated: (updated) => {
+      setCommunityRecipes((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+    },
   });
   const [communityRecipes, setCommunityRecipes] = useState<CommunityRecipe[]>([]);
   const [communityRecipesLoadFailed, setCommunityRecipesLoadFailed] = useState(false);
   const [isLoadingRecipes, setIsLoadingRecipes] = useState(true);
+  // When the catalog on screen was fetched, if the service worker served it from its cache
+  const [catalogCachedAt, setCatalogCachedAt] = useState<string | null>(null);
+  const catalogLoadedRef = useRef(false);
+  // Where the next catalog page starts, null once the last one is loaded
+  const { offline, revision: catalogRevision } = useCatalogStatus();
 
   // Combine recipes: only include defaults if community recipes failed to load (no network)
   // Otherwise, show community recipes + user recipes
   const allRecipes = useMemo(() => {
     if (communityRecipesLoadFailed) {
-      // Community recipes failed to load - show defaults + user recipes as fallback
-      return [...defaultRecipes, ...userRecipes];
+      // Community recipes failed to load - show defaults + user recipes as fallback, plus any community
+      // recipe fetched on its own
+      return [...defaultRecipes, ...communityRecipes, ...userRecipes];
     }
     // Community recipes loaded successfully (even if empty) - only show community + user recipes
     return [...communityRecipes, ...userRecipes];
   }, [communityRecipes, userRecipes, communityRecipesLoadFailed]);
-
-  // Save user recipes to localStorage whenever they change
+  const allRecipesRef = useRef(allRecipes);
   useEffect(() => {
-    localStorage.setItem('smoothie-user-recipes', JSON.stringify(userRecipes));
-  }, [userRecipes]);
+    allRecipesRef.current = allRecipes;
+  }, [allRecipes]);
 
+  const routeRecipeId = route.name === 'recipe' ? route.recipeId : null;
+  const routeRecipeIdRef = useRef(routeRecipeId);
   useEffect(() => {
-    localStorage.setItem('smoothie-favorites', JSON.stringify(Array.from(favorites)));
-  }, [favorites]);
+    routeRecipeIdRef.current = routeRecipeId;
+  }, [routeRecipeId]);
+  const currentRecipe = useMemo(
+    () => (routeRecipeId ? allRecipes.find((r) => String(r.id) === routeRecipeId) ?? null : null),
+    [allRecipes, routeRecipeId]
+  );
+  const showUserProfile = route.name === 'profile' && !!user;
+  // Contributor key (see contributorKeyOf): an author's user id, or a name for recipes without one.
+  // A recipe opened from a contributor's list keeps the list behind it.
+  const selectedContributor = useMemo(() => {
+    if (route.name === 'myRecipes') return user?.id ?? null;
+    if (route.name === 'recipe') return fromContributor ?? null;
+    if (route.name !== 'contributor') return null;
+    // Links carry the author's user id; older links carry their display name
+    const { contributorKey } = route;
+    if (allRecipes.some((r) => contributorKeyOf(r) === contributorKey)) return contributorKey;
+    const named = allRecipes.find((r) => r.contributor === contributorKey);
+    return named ? contributorKeyOf(named) : contributorKey;
+  }, [route, fromContributor, allRecipes, user]);
+  const recipeNotFound = !!routeRecipeId && missingRecipeId === routeRecipeId && !currentRecipe;
 
-  // Load community recipes from Supabase function
+  // Put a page of community recipes on screen. The first page replaces the catalog, keeping only the
+  // recipe that's open; later pages are added to it.
+  const addCatalogPage = (page: CommunityRecipesPage, first: boolean) => {
+    const loadedIds = new Set(page.recipes.map((r) => r.id));
+    setCommunityRecipes((prev) => {
+      const others = prev.filter((r) => !loadedIds.has(r.id) && (!first || r.id === routeRecipeIdRef.current));
+      return first ? [...page.recipes, ...others] : [...others, ...page.recipes];
+    });
+    // The oldest page decides how old the catalog is
+    setCatalogCachedAt((prev) => (first || !prev || (page.cachedAt && page.cachedAt < prev) ? page.cachedAt ?? null : prev));
+  };
+
+  // Load every page of community recipes from Supabase function, filtered on the server. The first page is
+  // shown as soon as it arrives. Loaded again when the filters change or useCatalogStatus says the copy on
+  // screen may be out of date.
   useEffect(() => {
-    setIsLoadingRecipes(true);
-    fetchCommunityRecipes()
-      .then((recipes) => {
-        setCommunityRecipes(recipes);
-        setCommunityRecipesLoadFailed(false);
-        setIsLoadingRecipes(false);
-      })
-      .catch((err) => {
+    let cancelled = false;
+
+    const loadCommunityRecipes = async () => {
+      try {
+        let cursor: string | null = null;
+        let first = true;
+        do {
+          const page: CommunityRecipesPage = await fetchCommunityRecipesPage({ noFat, noNuts, minRating, cursor });
+          if (cancelled) return;
+          addCatalogPage(page, first);
+          if (first) {
+            setCommunityRecipesLoadFailed(false);
+            setIsLoadingRecipes(false);
+            catalogLoadedRef.current = true;
+          }
+          first = false;
+          cursor = page.nextCursor;
+        } while (cursor);
+      } catch (err) {
+        if (cancelled) return;
         // Only log error details if it's not a connection refused (expected when localhost not running)
         // and not in test environment (tests intentionally trigger this error)
         const isConnectionRefused = err instanceof TypeError && err.message === 'Failed to fetch';
@@ -104,191 +182,169 @@ export default function App() {
         if (!isConnectionRefused && !isTestEnv) {
           console.error('Failed to load community recipes:', err);
         }
-        // Mark as failed so we show defaults as fallback
-        setCommunityRecipesLoadFailed(true);
+        // Mark as failed so we show defaults as fallback, unless a catalog already loaded
+        if (!catalogLoadedRef.current) {
+          setCommunityRecipesLoadFailed(true);
+        }
         setIsLoadingRecipes(false);
-      });
-  }, []);
-
-  // Sync local recipes to Supabase every 10 minutes
-  useEffect(() => {
-    const syncLocalRecipes = async () => {
-      if (userRecipes.length === 0) return;
-      
-      // Only sync if user is logged in
-      if (!user) {
-        return;
       }
+    };
 
-      // Try to submit each local recipe to Supabase
-      const recipesToRemove: (number | string)[] = [];
-      const recipesToFix: Array<{ id: number | string; missingFields: string[] }> = [];
-      
-      for (const localRecipe of userRecipes) {
-        try {
-          // Remove id and createdAt - Supabase will generate new ones
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const { id, createdAt, ...recipeToSubmit } = localRecipe;
-          
-          // Validate required fields before submitting
-          if (!recipeToSubmit.name || !recipeToSubmit.contributor || 
-              !recipeToSubmit.ingredients || !recipeToSubmit.instructions) {
-            const missingFields: string[] = [];
-            if (!recipeToSubmit.name) missingFields.push('name');
-            if (!recipeToSubmit.contributor) missingFields.push('contributor');
-            if (!recipeToSubmit.ingredients) missingFields.push('ingredients');
-            if (!recipeToSubmit.instructions) missingFields.push('instructions');
-            
-            // Track incomplete recipes but don't show error immediately
-            recipesToFix.push({ id: localRecipe.id, missingFields });
-            continue;
-          }
-          
-          const created = await submitCommunityRecipe(recipeToSubmit);
-          
-          // Successfully submitted - mark for removal from local and add to community
-          recipesToRemove.push(localRecipe.id);
-          setCommunityRecipes((prev) => {
-            // Check if it's already in community recipes (avoid duplicates)
-            if (prev.some(r => r.id === created.id)) {
-              return prev;
-            }
-            return [...prev, created];
-          });
-        } catch {
-          // Still failed - keep it local, will retry next time
-          // Don't show error immediately on page load
-        }
-      }
+    loadCommunityRecipes();
+    return () => {
+      cancelled = true;
+    };
+  }, [catalogRevision, noFat, noNuts, minRating]);
 
-      // Remove successfully synced recipes from local storage
-      if (recipesToRemove.length > 0) {
-        setUserRecipes((prev) => prev.filter(r => !recipesToRemove.includes(r.id)));
-      }
+  // Recipes fetched on their own (shared links, search results, contributor lists) may not be in a loaded page yet
+  const rememberCommunityRecipes = (recipes: CommunityRecipe[]) => {
+    setCommunityRecipes((prev) => {
+      const loadedIds = new Set(prev.map((r) => r.id));
+      const added = recipes.filter((r) => !loadedIds.has(r.id));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  };
 
-      // Remove recipes missing critical fields (can't be auto-fixed)
-      // Recipes missing only ingredients/instructions were already auto-fixed on load
-      if (recipesToFix.length > 0) {
-        const recipesToDelete: (number | string)[] = [];
-        
-        for (const { id, missingFields } of recipesToFix) {
-          // If recipe is missing critical fields (name or contributor), remove it silently
-          if (missingFields.includes('name') || missingFields.includes('contributor')) {
-            recipesToDelete.push(id);
-          }
-        }
-        
-        // Remove recipes that can't be fixed (silently)
-        if (recipesToDelete.length > 0) {
-          setUserRecipes((prev) => prev.filter(r => !recipesToDelete.includes(r.id)));
+  // Community recipes opened by address (shared links, reloads, back and forward) are fetched directly
+  // instead of waiting for the whole catalog
+  useEffect(() => {
+    if (!routeRecipeId?.startsWith('recipe:')) return;
+    if (allRecipesRef.current.some((r) => r.id === routeRecipeId)) return;
+
+    let cancelled = false;
+    fetchCommunityRecipe(routeRecipeId)
+      .then((recipe) => {
+        if (cancelled) return;
+        if (recipe) {
+          rememberCommunityRecipes([recipe]);
+        } else {
+          setMissingRecipeId(routeRecipeId);
         }
-      }
+      })
+      .catch((error) => {
+        // The recipe still shows if a loaded page has it
+        console.error('Error fetching shared recipe:', error);
+      });
+    return () => {
+      cancelled = true;
     };
+  }, [routeRecipeId]);
 
-    // Delay sync slightly to avoid showing errors immediately on page load
-    // Only sync if user is logged in
-    if (user) {
-      const timeoutId = setTimeout(() => {
-        syncLocalRecipes();
-      }, 3000); // Wait 3 seconds after page load to avoid showing errors immediately
-      
-      const interval = setInterval(syncLocalRecipes, 10 * 60 * 1000); // 10 minutes
+  // A contributor's list shows all their recipes, not only the ones on the catalog pages loaded so far.
+  // Keys are author ids, or display names for recipes from before authors were recorded.
+  const contributorToLoad =
+    route.name === 'contributor' ? route.contributorKey : route.name === 'myRecipes' || route.name === 'profile' ? user?.id ?? null : null;
+  useEffect(() => {
+    if (!contributorToLoad) return;
 
-      return () => {
-        clearTimeout(timeoutId);
-        clearInterval(interval);
-      };
-    }
-  }, [userRecipes, user]);
+    let cancelled = false;
+    Promise.all([fetchCommunityRecipes({ author: contributorToLoad }), fetchCommunityRecipes({ contributor: contributorToLoad })])
+      .then(([byAuthor, byName]) => {
+        if (!cancelled) rememberCommunityRecipes([...byAuthor, ...byName]);
+      })
+      .catch((error) => {
+        console.error('Error loading contributor recipes:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [contributorToLoad]);
 
-  // Load recipe or contributor from URL parameter on mount
+  // Open search with Cmd/Ctrl+K, or "/" when not typing in a field
   useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const recipeId = params.get('recipe');
-    const contributorParam = params.get('contributor');
-    
-    if (recipeId && allRecipes.length > 0) {
-      // URLSearchParams.get() automatically decodes the value
-      const decodedRecipeId = decodeURIComponent(recipeId);
-      const recipe = allRecipes.find(r => String(r.id) === decodedRecipeId);
-      if (recipe) {
-        setCurrentRecipe(recipe);
-        // Clean up URL without reloading
-        window.history.replaceState({}, '', window.location.pathname);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const isTyping = !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+      if ((event.key === 'k' && (event.metaKey || event.ctrlKey)) || (event.key === '/' && !isTyping)) {
+        event.preventDefault();
+        setIsSearchOpen((open) => !open);
       }
-    } else if (contributorParam && allRecipes.length > 0) {
-      // URLSearchParams.get() automatically decodes the value
-      const decodedContributor = decodeURIComponent(contributorParam);
-      // Check if this contributor has any recipes
-      const hasRecipes = allRecipes.some(r => r.contributor === decodedContributor);
-      if (hasRecipes) {
-        setSelectedContributor(decodedContributor);
-        setCurrentRecipe(null);
-        // Clean up URL without reloading
-        window.history.replaceState({}, '', window.location.pathname);
-      }
-    }
-  }, [allRecipes]);
-
-  const toggleFavorite = (recipeId: number | string) => {
-    setFavorites(prev => {
-      const newFavorites = new Set(prev);
-      if (newFavorites.has(recipeId)) {
-        newFavorites.delete(recipeId);
-      } else {
-        newFavorites.add(recipeId);
-      }
-      return newFavorites;
-    });
-  };
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const handleSubmitRecipe = async (recipe: Omit<CommunityRecipe, 'id' | 'createdAt'>) => {
     // Use authenticated user's nickname if available, otherwise fall back to email or provided contributor
     const contributorName = nickname || user?.email || recipe.contributor;
     const recipeWithContributor = { ...recipe, contributor: contributorName };
+    // Generated up front: if this request reached the server but the response was lost, the sync retry reuses it
+    const clientKey = crypto.randomUUID();
 
     try {
-      const created = await submitCommunityRecipe(recipeWithContributor);
+      const created = await submitCommunityRecipe(recipeWithContributor, {
+        accessToken: session?.access_token,
+        idempotencyKey: clientKey,
+      });
       setCommunityRecipes((prev) => [...prev, created]);
-      setCurrentRecipe(created);
+      openRecipe(created);
       return true;
     } catch (error) {
+      // The server rejected the recipe itself - saving it locally would only fail again on sync
+      if (error instanceof RecipeValidationError) {
+        throw error;
+      }
       console.error('Error submitting recipe to Supabase, falling back to local:', error);
-      const fallbackRecipe = { ...recipeWithContributor, id: `user-${Date.now()}` };
-      setUserRecipes((prev) => [...prev, fallbackRecipe]);
-      setCurrentRecipe(fallbackRecipe);
+      const fallbackRecipe: LocalRecipe = { ...recipeWithContributor, id: `user-${Date.now()}`, clientKey, authorId: user?.id };
+      void saveLocalRecipe(fallbackRecipe, error);
+      openRecipe(fallbackRecipe);
       return true;
     }
   };
 
-  const handleUpdateRecipe = async (recipeId: string, recipe: Omit<CommunityRecipe, 'id' | 'createdAt'>) => {
+  const handleUpdateRecipe = async (recipeId: string, recipe: Omit<CommunityRecipe, 'id' | 'createdAt'>, version?: number) => {
     // Use authenticated user's nickname if available, otherwise fall back to email or provided contributor
     const contributorName = nickname || user?.email || recipe.contributor;
     const recipeWithContributor = { ...recipe, contributor: contributorName };
 
     try {
-      const updated = await updateCommunityRecipe(recipeId, recipeWithContributor);
+      const updated = await updateCommunityRecipe(recipeId, recipeWithContributor, {
+        accessToken: session?.access_token,
+        version,
+      });
       // Update in community recipes
       setCommunityRecipes((prev) => prev.map(r => r.id === recipeId ? updated : r));
-      // Update current recipe if it's the one being edited
-      if (currentRecipe && String(currentRecipe.id) === recipeId) {
-        setCurrentRecipe(updated);
-      }
       return true;
     } catch (error) {
+      if (error instanceof RecipeValidationError) {
+        throw error;
+      }
+      // Show the newer copy everywhere; the modal asks how to reconcile the edit with it
+      if (error instanceof RecipeConflictError) {
+        setCommunityRecipes((prev) => prev.map(r => r.id === recipeId ? error.current : r));
+        throw error;
+      }
       console.error('Error updating recipe:', error);
       // For local recipes, update in place
       if (recipeId.startsWith('user-')) {
-        setUserRecipes((prev) => prev.map(r => r.id === recipeId ? { ...r, ...recipeWithContributor } : r));
-        if (currentRecipe && String(currentRecipe.id) === recipeId) {
-          setCurrentRecipe({ ...currentRecipe, ...recipeWithContributor });
-        }
+        void updateLocalRecipes((prev) => prev.map(r => r.id === recipeId ? { ...r, ...recipeWithContributor } : r));
+        return true;
+      }
+      // Offline: show the edit now and send it once there's a connection
+      const original = communityRecipes.find((r) => r.id === recipeId);
+      if (error instanceof TypeError && original) {
+        const edited = { ...original, ...recipeWithContributor };
+        setCommunityRecipes((prev) => prev.map(r => r.id === recipeId ? edited : r));
+        void queueRecipeUpdate(recipeId, recipeWithContributor, version, error);
         return true;
       }
       return false;
     }
   };
 
+  const handleRevertRecipe = async (recipeId: string, revision: number) => {
+    try {
+      const reverted = await revertCommunityRecipe(recipeId, revision, { accessToken: session?.access_token });
+      setCommunityRecipes((prev) => prev.map(r => r.id === recipeId ? reverted : r));
+      // Refill the edit form with the restored version
+      setEditingRecipe(reverted);
+      return true;
+    } catch (error) {
+      console.error('Error reverting recipe:', error);
+      return false;
+    }
+  };
+
   const handleContributeClick = () => {
     setEditingRecipe(null);
     setIsModalOpen(true);
@@ -302,6 +358,10 @@ export default function App() {
     }
   };
 
+  // Check if a recipe belongs to the current user
+  // The server enforces ownership; this only decides whether to show edit/delete controls
+  const isOwnRecipe = (recipe: Recipe | CommunityRecipe): boolean => isAuthoredBy(recipe, user);
+
   // Check if current user can edit a recipe
   const canEditRecipe = (recipe: Recipe | CommunityRecipe): boolean => {
     if (!user) return false;
@@ -309,22 +369,15 @@ export default function App() {
     if (typeof recipe.id !== 'string' || !recipe.id.startsWith('recipe:')) {
       return false;
     }
-    // Check if recipe contributor matches current user's nickname or email
-    const userIdentifier = nickname || user.email;
-    return recipe.contributor === userIdentifier;
+    return isOwnRecipe(recipe);
   };
 
   // Check if current user can delete a recipe
   const canDeleteRecipe = (recipe: Recipe | CommunityRecipe): boolean => {
     if (!user) return false;
-    const userIdentifier = nickname || user.email;
-    // Can delete community recipes (synced to Supabase) that belong to user
-    if (typeof recipe.id === 'string' && recipe.id.startsWith('recipe:')) {
-      return recipe.contributor === userIdentifier;
-    }
-    // Can delete local user recipes that belong to user
-    if (typeof recipe.id === 'string' && recipe.id.startsWith('user-')) {
-      return recipe.contributor === userIdentifier;
+    // Can delete community recipes (synced to Supabase) and local user recipes that belong to user
+    if (typeof recipe.id === 'string' && (recipe.id.startsWith('recipe:') || recipe.id.startsWith('user-'))) {
+      return isOwnRecipe(recipe);
     }
     return false;
   };
@@ -339,22 +392,23 @@ export default function App() {
     // Always remove from local state first (optimistic update)
     // This ensures UI updates immediately even if API call fails
     setCommunityRecipes((prev) => prev.filter(r => String(r.id) !== recipeId));
-    setUserRecipes((prev) => prev.filter(r => String(r.id) !== recipeId));
+    if (recipeId.startsWith('user-')) {
+      void removeLocalRecipe(recipeId);
+    }
 
     // Remove from favorites if it was favorited
-    setFavorites((prev) => {
-      const newFavorites = new Set(prev);
-      newFavorites.delete(recipe.id);
-      return newFavorites;
-    });
+    const wasFavorite = favorites.has(recipe.id);
+    if (wasFavorite) {
+      setFavorite(recipe.id, false);
+    }
 
     // Close the delete confirmation dialog first
     setDeletingRecipe(null);
 
     // Show "deleted" message if we deleted the current recipe
     if (wasCurrentRecipe) {
-      // Clear currentRecipe first
-      setCurrentRecipe(null);
+      // Leave its page, without keeping it in history to come back to
+      navigate(fromContributor ? { name: 'contributor', contributorKey: fromContributor } : homeRoute, { replace: true });
       
       // Set animation state after a brief delay to ensure currentRecipe is cleared first
       setTimeout(() => {
@@ -365,44 +419,145 @@ export default function App() {
           setJustDeleted(false);
         }, 3000);
       }, 0);
-    } else {
-      // Clear currentRecipe immediately if it's not the current recipe
-      setCurrentRecipe((prev) => {
-        if (prev && String(prev.id) === recipeId) {
-          return null;
-        }
-        return prev;
-      });
     }
 
+    setDeleteToast({ recipe, wasFavorite, wasCurrentRecipe: !!wasCurrentRecipe, status: 'deleted' });
+
     // Try to delete from Supabase in the background (don't block UI)
     if (recipeId.startsWith('recipe:')) {
+      // Offline, the delete waits in the outbox and the recipe stays gone here
+      const pendingDelete = deleteCommunityRecipe(recipeId, { accessToken: session?.access_token }).catch((error) => {
+        if (!(error instanceof TypeError)) throw error;
+        return queueRecipeDelete(recipeId, error);
+      });
+      pendingDeleteRef.current = { recipeId, promise: pendingDelete };
       try {
-        await deleteCommunityRecipe(recipeId);
-        console.log('Successfully deleted from Supabase');
+        await pendingDelete;
+        console.log('Successfully moved to trash on Supabase');
       } catch (error) {
         console.error('Error deleting recipe from Supabase:', error);
-        // Recipe already removed from local state, so UI is correct
-        // If deletion failed, it will still exist on server but won't show in UI
+        // The recipe is still live on the server, so put it back rather than hide it
+        putRecipeBack(recipe, wasFavorite);
+        setDeleteToast({ recipe, wasFavorite, wasCurrentRecipe: false, status: 'delete-failed' });
+      } finally {
+        if (pendingDeleteRef.current?.recipeId === recipeId) {
+          pendingDeleteRef.current = null;
+        }
       }
     }
   };
 
-  // Safeguard: Clear currentRecipe if it's no longer in allRecipes
-  useEffect(() => {
-    if (currentRecipe) {
-      const recipeExists = allRecipes.some(r => String(r.id) === String(currentRecipe.id));
-      if (!recipeExists) {
-        setCurrentRecipe(null);
+  // Re-add a recipe removed by handleDeleteRecipe, including its favorite
+  const putRecipeBack = (recipe: Recipe | CommunityRecipe, wasFavorite: boolean) => {
+    const recipeId = String(recipe.id);
+    if (recipeId.startsWith('recipe:')) {
+      const restored = recipe as CommunityRecipe;
+      setCommunityRecipes((prev) => [restored, ...prev.filter((r) => r.id !== restored.id)]);
+    } else {
+      void saveLocalRecipe(recipe as unknown as LocalRecipe);
+    }
+    if (wasFavorite) {
+      setFavorite(recipe.id, true);
+    }
+  };
+
+  // Back to a recipe that was showing when it was deleted, in place of the page deleting it went to
+  const reopenRecipe = (recipe: Recipe | CommunityRecipe) => {
+    const list = route.name === 'contributor' ? route.contributorKey : undefined;
+    openRecipe(recipe, { replace: true, fromContributor: list });
+    setJustDeleted(false);
+  };
+
+  // Undo the most recent delete from the toast
+  const handleUndoDelete = async () => {
+    if (!deleteToast) return;
+    const { recipe, wasFavorite, wasCurrentRecipe } = deleteToast;
+    const recipeId = String(recipe.id);
+    setDeleteToast(null);
+
+    if (recipeId.startsWith('recipe:')) {
+      try {
+        // The delete may still be in flight; it has to land before it can be restored
+        const pending = pendingDeleteRef.current;
+        if (pending?.recipeId === recipeId) {
+          await pending.promise;
+        }
+        // A delete still waiting in the outbox is simply taken back
+        if (await cancelQueuedChange(recipeId)) {
+          putRecipeBack(recipe, wasFavorite);
+          if (wasCurrentRecipe) {
+            reopenRecipe(recipe);
+          }
+          return;
+        }
+        const restored = await restoreCommunityRecipe(recipeId, { accessToken: session?.access_token });
+        putRecipeBack(restored, wasFavorite);
+        if (wasCurrentRecipe) {
+          reopenRecipe(restored);
+        }
+      } catch (error) {
+        console.error('Error restoring recipe:', error);
+        setDeleteToast({ recipe, wasFavorite, wasCurrentRecipe: false, status: 'restore-failed' });
       }
+      return;
+    }
+
+    putRecipeBack(recipe, wasFavorite);
+    if (wasCurrentRecipe) {
+      reopenRecipe(recipe);
     }
-  }, [allRecipes, currentRecipe]);
+  };
+
+  // Restore a recipe from "Recently deleted" in the profile
+  const handleRestoreDeleted = async (recipe: CommunityRecipe): Promise<boolean> => {
+    try {
+      const restored = await restoreCommunityRecipe(recipe.id, { accessToken: session?.access_token });
+      setDeletedRecipes((prev) => prev.filter((r) => r.id !== recipe.id));
+      setCommunityRecipes((prev) => [restored, ...prev.filter((r) => r.id !== restored.id)]);
+      return true;
+    } catch (error) {
+      console.error('Error restoring recipe:', error);
+      return false;
+    }
+  };
+
+  // Hide the undo toast after a few seconds
+  useEffect(() => {
+    if (!deleteToast) return;
+    const timer = setTimeout(() => setDeleteToast(null), UNDO_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [deleteToast]);
+
+  // Load the user's trash when the profile opens
+  useEffect(() => {
+    if (!showUserProfile || !session) return;
+    let cancelled = false;
+    fetchDeletedRecipes({ accessToken: session.access_token })
+      .then((recipes) => {
+        if (!cancelled) setDeletedRecipes(recipes);
+      })
+      .catch((error) => {
+        console.error('Error loading deleted recipes:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showUserProfile, session]);
+
+  // Default and local recipes have never been rated
+  const getAverageRating = (recipe: Recipe | CommunityRecipe): number =>
+    ('ratingSummary' in recipe && recipe.ratingSummary?.average) || 0;
+
+  const handleRatingChange = (recipeId: string, summary: RatingSummary) => {
+    setCommunityRecipes((prev) => prev.map((r) => (r.id === recipeId ? { ...r, ratingSummary: summary } : r)));
+  };
 
   const getFilteredRecipes = () => {
     return allRecipes.filter(recipe => {
       if (noFat && recipe.containsFat) return false;
       if (noNuts && recipe.containsNuts) return false;
       if (favoritesOnly && !favorites.has(recipe.id)) return false;
+      if (minRating > 0 && getAverageRating(recipe) < minRating) return false;
       return true;
     });
   };
@@ -414,6 +569,15 @@ export default function App() {
     return filteredRecipes[randomIndex];
   };
 
+  // Each shake is a page of its own, so back returns to the recipe before
+  const showShakeResult = (recipe: Recipe | CommunityRecipe | null) => {
+    if (recipe) {
+      openRecipe(recipe);
+    } else {
+      navigate(homeRoute);
+    }
+  };
+
   useEffect(() => {
     // Only set up motion listener if permission is already granted
     if (!motionPermissionGranted) return;
@@ -435,8 +599,7 @@ export default function App() {
         setIsShaking(true);
         
         setTimeout(() => {
-          const recipe = getRandomRecipe();
-          setCurrentRecipe(recipe);
+          showShakeResult(getRandomRecipe());
           setShakeCount(prev => prev + 1);
           setIsShaking(false);
         }, 800);
@@ -450,7 +613,7 @@ export default function App() {
       window.removeEventListener('devicemotion', handleMotion);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [motionPermissionGranted, noFat, noNuts, favoritesOnly, favorites, allRecipes]);
+  }, [motionPermissionGranted, noFat, noNuts, favoritesOnly, minRating, favorites, allRecipes]);
 
   const handleManualShake = async () => {
     // Request permission for iOS 13+ devices when user clicks the button
@@ -475,8 +638,7 @@ export default function App() {
     // Always trigger the manual shake action regardless of permission
     setIsShaking(true);
     setTimeout(() => {
-      const recipe = getRandomRecipe();
-      setCurrentRecipe(recipe);
+      showShakeResult(getRandomRecipe());
       setShakeCount(prev => prev + 1);
       setIsShaking(false);
     }, 800);
@@ -487,48 +649,64 @@ export default function App() {
   // Get recipes by selected contributor
   const contributorRecipes = useMemo(() => {
     if (!selectedContributor) return [];
-    return allRecipes.filter(r => r.contributor === selectedContributor);
+    return allRecipes.filter(r => contributorKeyOf(r) === selectedContributor);
   }, [selectedContributor, allRecipes]);
 
-  const handleContributorClick = (contributor: string) => {
-    setSelectedContributor(contributor);
-    setCurrentRecipe(null);
-    setShowUserProfile(false);
+  // The newest recipe has the most recent copy of the author's name
+  const selectedContributorName = user && selectedContributor === user.id
+    ? nickname || user.email || ''
+    : contributorRecipes[contributorRecipes.length - 1]?.contributor ?? selectedContributor ?? '';
+
+  const openRecipe = (recipe: Recipe | CommunityRecipe, options?: Parameters<typeof navigate>[1]) => {
+    navigate({ name: 'recipe', recipeId: String(recipe.id) }, options);
+  };
+
+  const handleContributorClick = (recipe: Recipe | CommunityRecipe) => {
+    navigate({ name: 'contributor', contributorKey: contributorKeyOf(recipe) });
   };
 
   const handleViewMyRecipes = () => {
-    const userIdentifier = nickname || user?.email;
-    if (userIdentifier) {
-      setSelectedContributor(userIdentifier);
-      setCurrentRecipe(null);
-      setShowUserProfile(false);
+    if (user) {
+      navigate({ name: 'myRecipes' });
     }
   };
 
   // Get count of user's recipes
   const myRecipesCount = useMemo(() => {
     if (!user) return 0;
-    const userIdentifier = nickname || user.email;
-    return allRecipes.filter(recipe => recipe.contributor === userIdentifier).length;
-  }, [allRecipes, user, nickname]);
+    return allRecipes.filter(recipe => isAuthoredBy(recipe, user)).length;
+  }, [allRecipes, user]);
 
-  const handleBackToMain = () => {
-    if (showUserProfile) {
-      setShowUserProfile(false);
-      return;
-    }
-    // If viewing a recipe from contributor list, go back to contributor list
-    if (currentRecipe && selectedContributor) {
-      setCurrentRecipe(null);
-    } else {
-      // Otherwise, go back to main view
-      setSelectedContributor(null);
-      setCurrentRecipe(null);
+  // Recipes carry a copy of their author's name, so a nickname change is written onto them too
+  const handleNicknameChange = (newNickname: string) => {
+    if (!user) return;
+    setCommunityRecipes((prev) => renameAuthor(prev, user, newNickname));
+    void updateLocalRecipes((prev) => renameAuthor(prev, user, newNickname));
+    renameRecipeAuthor({ accessToken: session?.access_token }).catch((error) => {
+      console.error('Error renaming recipes:', error);
+    });
+  };
+
+  // The back button goes back in history, or up a level when the app was opened on this page
+  const handleBack = () => {
+    let parent: Route = homeRoute;
+    if (route.name === 'recipe' && fromContributor) {
+      parent = { name: 'contributor', contributorKey: fromContributor };
+    } else if (route.name === 'myRecipes') {
+      parent = { name: 'profile' };
     }
+    goBack(parent);
   };
 
   const handleSelectRecipe = (recipe: Recipe | CommunityRecipe) => {
-    setCurrentRecipe(recipe);
+    openRecipe(recipe, { fromContributor: selectedContributor ?? undefined });
+  };
+
+  const handleSearchResultSelect = (recipe: Recipe | CommunityRecipe) => {
+    if (typeof recipe.id === 'string' && recipe.id.startsWith('recipe:')) {
+      rememberCommunityRecipes([recipe as CommunityRecipe]);
+    }
+    openRecipe(recipe);
   };
 
   return (
@@ -549,7 +727,7 @@ export default function App() {
                   animate={{ opacity: 1, x: 0 }}
                   whileHover={{ scale: 1.1 }}
                   whileTap={{ scale: 0.9 }}
-                  onClick={handleBackToMain}
+                  onClick={handleBack}
                   className="p-2 bg-white/80 backdrop-blur-sm rounded-full shadow-md hover:shadow-lg transition-all"
                   title={showUserProfile ? "Back to main" : currentRecipe ? "Back to contributor recipes" : "Back to all recipes"}
                 >
@@ -561,6 +739,15 @@ export default function App() {
               <h1 className="text-4xl">🥤</h1>
               {!selectedContributor && !showUserProfile ? (
                 <div className="flex items-center gap-2" style={{ transform: 'translateX(-7px)' }}>
+                  <motion.button
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={() => setIsSearchOpen(true)}
+                    className="p-2 bg-white/80 backdrop-blur-sm rounded-full shadow-md hover:shadow-lg transition-all"
+                    title="Search recipes (⌘K)"
+                  >
+                    <Search className="w-5 h-5 text-purple-600" />
+                  </motion.button>
                   <motion.button
                     whileHover={{ scale: 1.1 }}
                     whileTap={{ scale: 0.9 }}
@@ -574,7 +761,7 @@ export default function App() {
                     <motion.button
                       whileHover={{ scale: 1.1 }}
                       whileTap={{ scale: 0.9 }}
-                      onClick={() => setShowUserProfile(true)}
+                      onClick={() => navigate({ name: 'profile' })}
                       className="p-2 bg-white/80 backdrop-blur-sm rounded-full shadow-md hover:shadow-lg transition-all"
                       title="User profile"
                     >
@@ -600,6 +787,11 @@ export default function App() {
             <p className="text-sm text-gray-600 mt-1">
               Community recipes, served fresh • {allRecipes.length} recipes
             </p>
+            {offline && catalogCachedAt && (
+              <p className="text-xs text-amber-700 mt-1" role="status">
+                Offline — showing recipes from {new Date(catalogCachedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+              </p>
+            )}
           </motion.div>
           
           {/* Sync Error Toast */}
@@ -614,6 +806,12 @@ export default function App() {
                 <div className="flex items-center gap-2">
                   <span>⚠️</span>
                   <span>{syncError}</span>
+                  <button
+                    onClick={() => void dismissFailedChanges()}
+                    className="ml-2 underline hover:no-underline"
+                  >
+                    Dismiss
+                  </button>
                 </div>
               </motion.div>
             )}
@@ -626,6 +824,8 @@ export default function App() {
             onNoFatChange={setNoFat}
             onNoNutsChange={setNoNuts}
             onFavoritesOnlyChange={setFavoritesOnly}
+            minRating={minRating}
+            onMinRatingChange={setMinRating}
             filteredCount={filteredCount}
             totalCount={allRecipes.length}
             favoritesCount={favorites.size}
@@ -677,21 +877,41 @@ export default function App() {
                 onChangePassword={() => setIsPasswordChangeModalOpen(true)}
                 onSignOut={async () => {
                   await signOut();
-                  setShowUserProfile(false);
+                  navigate(homeRoute, { replace: true });
                 }}
                 onViewMyRecipes={handleViewMyRecipes}
                 recipeCount={myRecipesCount}
+                deletedRecipes={deletedRecipes}
+                onRestoreRecipe={handleRestoreDeleted}
               />
             )}
             {selectedContributor && !currentRecipe && !showUserProfile && (
               <ContributorRecipesView
                 key="contributor-view"
-                contributor={selectedContributor}
+                contributor={selectedContributorName}
+                contributorKey={selectedContributor}
                 recipes={contributorRecipes}
                 onSelectRecipe={handleSelectRecipe}
               />
             )}
-            {!selectedContributor && !currentRecipe && !isShaking && !isLoadingRecipes && !showUserProfile && !justDeleted && (
+            {recipeNotFound && !selectedContributor && !currentRecipe && !isShaking && !showUserProfile && !justDeleted && (
+              <motion.div
+                key="recipe-not-found"
+                initial={{ scale: 0.8, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.8, opacity: 0 }}
+                transition={{ duration: 0.3 }}
+                className="text-center"
+                data-testid="recipe-not-found"
+              >
+                <div className="text-6xl mb-4">🫙</div>
+                <p className="text-gray-800 text-lg font-medium">Recipe not found</p>
+                <p className="text-gray-600 text-sm mt-2">
+                  This recipe may have been deleted by its contributor.
+                </p>
+              </motion.div>
+            )}
+            {!recipeNotFound && !selectedContributor && !currentRecipe && !isShaking && !isLoadingRecipes && !showUserProfile && !justDeleted && (
               <ShakeInstruction 
                 key="instruction" 
                 onManualShake={handleManualShake} 
@@ -699,7 +919,7 @@ export default function App() {
                 favoritesOnly={favoritesOnly}
               />
             )}
-            {isLoadingRecipes && !selectedContributor && !currentRecipe && !showUserProfile && !justDeleted && (
+            {isLoadingRecipes && !recipeNotFound && !selectedContributor && !currentRecipe && !showUserProfile && !justDeleted && (
               <motion.div
                 key="loading"
                 initial={{ opacity: 0 }}
@@ -745,12 +965,16 @@ export default function App() {
                 key={currentRecipe.id} 
                 recipe={currentRecipe}
                 isFavorite={favorites.has(currentRecipe.id)}
+                syncStatus={syncStatus.get(String(currentRecipe.id))}
                 onToggleFavorite={toggleFavorite}
-                onContributorClick={handleContributorClick}
+                onContributorClick={() => handleContributorClick(currentRecipe)}
                 onEdit={handleEditRecipe}
                 onDelete={(recipe) => setDeletingRecipe(recipe)}
                 canEdit={canEditRecipe(currentRecipe)}
                 canDelete={canDeleteRecipe(currentRecipe)}
+                currentUserId={user?.id}
+                accessToken={session?.access_token}
+                onRatingChange={handleRatingChange}
               />
             )}
           </AnimatePresence>
@@ -779,6 +1003,13 @@ export default function App() {
         )}
       </div>
 
+      <RecipeSearch
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        recipes={allRecipes}
+        onSelectRecipe={handleSearchResultSelect}
+      />
+
       {/* Auth Modals */}
       <AuthModal
         isOpen={isAuthModalOpen}
@@ -787,6 +1018,7 @@ export default function App() {
       <NicknameEditModal
         isOpen={isNicknameModalOpen}
         onClose={() => setIsNicknameModalOpen(false)}
+        onNicknameChange={handleNicknameChange}
       />
       <PasswordChangeModal
         isOpen={isPasswordChangeModalOpen}
@@ -801,6 +1033,7 @@ export default function App() {
         onSubmit={handleSubmitRecipe}
         editingRecipe={editingRecipe}
         onUpdate={handleUpdateRecipe}
+        onRevert={handleRevertRecipe}
       />
       </div>
 
@@ -823,7 +1056,10 @@ export default function App() {
               >
                 <h2 className="text-lg font-semibold text-gray-900 mb-2">Delete Recipe?</h2>
                 <p className="text-sm text-gray-600 mb-6">
-                  Are you sure you want to delete &quot;{deletingRecipe.name}&quot;? This action cannot be undone.
+                  Are you sure you want to delete &quot;{deletingRecipe.name}&quot;?{' '}
+                  {String(deletingRecipe.id).startsWith('recipe:')
+                    ? `You can undo right after, or restore it from your profile within ${TRASH_RETENTION_DAYS} days.`
+                    : 'You can undo right after deleting.'}
                 </p>
                 <div className="flex gap-3 justify-end">
                   <button
@@ -896,6 +1132,46 @@ export default function App() {
           </>
         )}
       </AnimatePresence>
+
+      {/* Undo toast for deleted recipes */}
+      <AnimatePresence>
+        {deleteToast && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            role="status"
+            data-testid="delete-toast"
+            className="fixed bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-4 rounded-full bg-gray-900 px-5 py-3 text-sm text-white shadow-lg"
+            style={{ zIndex: 9997 }}
+          >
+            {deleteToast.status === 'deleted' && (
+              <>
+                <span>&quot;{deleteToast.recipe.name}&quot; moved to trash</span>
+                <button
+                  type="button"
+                  onClick={() => {
+                    handleUndoDelete().catch((error) => {
+                      console.error('Error undoing delete:', error);
+                    });
+                  }}
+                  className="font-semibold text-pink-300 hover:text-pink-200"
+                >
+                  Undo
+                </button>
+              </>
+            )}
+            {deleteToast.status === 'delete-failed' && (
+              <span>Couldn&apos;t delete &quot;{deleteToast.recipe.name}&quot;. Please try again.</span>
+            )}
+            {deleteToast.status === 'restore-failed' && (
+              <span>
+                Couldn&apos;t restore &quot;{deleteToast.recipe.name}&quot;. Find it under Recently deleted in your profile.
+              </span>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
     </>
   );
 }
\ No newline at end of file
@@ -4,6 +4,14 @@ import userEvent from '@testing-library/user-event';
 import type { Session } from '@jsr/supabase__supabase-js';
 import { AuthModal } from './AuthModal';
 import { AuthProvider } from '../contexts/AuthContext';
+import { checkNicknameAvailability } from '../utils/supabase/profile';
+
+vi.mock('../utils/supabase/profile', () => ({
+  checkNicknameAvailability: vi.fn().mockImplementation(async (nickname: string) => ({ nickname, available: true })),
+  claimNickname: vi.fn().mockImplementation(async (nickname: string) => nickname),
+  fetchPublicProfile: vi.fn().mockResolvedValue(null),
+  releaseNickname: vi.fn().mockResolvedValue(undefined),
+}));
 
 describe('AuthModal', () => {
   const mockOnClose = vi.fn();
@@ -249,6 +257,32 @@ describe('AuthModal', () => {
     });
   });
 
+  it('should check the nickname while signing up', async () => {
+    const user = userEvent.setup();
+    const { supabase } = await import('../utils/supabase/client');
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: { session: null },
+      error: null,
+    });
+
+    renderModal({
+      isOpen: true,
+      onClose: mockOnClose,
+      initialMode: 'signup',
+    });
+
+    await waitFor(() => {
+      expect(screen.getByLabelText(/nickname/i)).toBeInTheDocument();
+    });
+    await user.type(screen.getByLabelText(/nickname/i), 'TestUser');
+
+    expect(screen.getByText('Checking availability…')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByText('✓ Nickname is available')).toBeInTheDocument();
+    });
+    expect(checkNicknameAvailability).toHaveBeenCalledWith('TestUser', expect.objectContaining({ signal: expect.any(AbortSignal) }));
+  });
+
   it('should show error when signup without nickname', async () => {
     const user = userEvent.setup();
     
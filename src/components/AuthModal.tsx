@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { X } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useNicknameAvailability } from '../hooks/useNicknameAvailability';
+import { NicknameAvailabilityHint } from './NicknameAvailabilityHint';
 
 interface AuthModalProps {
   isOpen: boolean;
@@ -17,6 +19,7 @@ export function AuthModal({ isOpen, onClose, initialMode = 'signin' }: AuthModal
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const { signIn, signUp } = useAuth();
+  const availability = useNicknameAvailability(nickname, { enabled: isOpen && mode === 'signup' });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -106,7 +109,9 @@ export function AuthModal({ isOpen, onClose, initialMode = 'signin' }: AuthModal
                   maxLength={30}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all"
                   placeholder="e.g., SmoothieMaster"
+                  aria-invalid={availability.status === 'unavailable'}
                 />
+                {!error && <NicknameAvailabilityHint {...availability} />}
               </div>
             )}
 
@@ -153,7 +158,7 @@ export function AuthModal({ isOpen, onClose, initialMode = 'signin' }: AuthModal
 
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || (mode === 'signup' && availability.status === 'unavailable')}
               className="w-full px-6 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg font-medium hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? 'Please wait...' : mode === 'signin' ? 'Sign In' : 'Sign Up'}
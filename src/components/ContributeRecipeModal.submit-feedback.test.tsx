@@ -4,6 +4,7 @@ import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom/vitest';
 import { ContributeRecipeModal } from './ContributeRecipeModal';
 import { AuthProvider } from '../contexts/AuthContext';
+import { RecipeValidationError } from '../utils/supabase/errors';
 
 describe('ContributeRecipeModal Submit Feedback', () => {
   const mockOnClose = vi.fn();
@@ -167,5 +168,36 @@ describe('ContributeRecipeModal Submit Feedback', () => {
     // Should call onSubmit
     expect(mockOnSubmit).toHaveBeenCalled();
   });
-});
 
+  it('should show server validation errors on the matching fields', async () => {
+    const user = userEvent.setup();
+    mockOnSubmit.mockRejectedValue(new RecipeValidationError([
+      { field: 'name', message: 'Recipe name must be 100 characters or less' },
+      { field: 'instructions', message: 'Instructions must be 2000 characters or less' },
+    ]));
+
+    await renderModal({
+      isOpen: true,
+      onClose: mockOnClose,
+      onSubmit: mockOnSubmit,
+    });
+
+    await user.type(screen.getByLabelText(/recipe name/i), 'Test Smoothie');
+    await user.type(screen.getByLabelText(/your name/i), 'Test User');
+
+    const ingredientInputs = screen.getAllByPlaceholderText(/e.g., 1 cup frozen mango/i);
+    await user.clear(ingredientInputs[0]);
+    await user.type(ingredientInputs[0], '1 banana');
+
+    await user.type(screen.getByLabelText(/instructions/i), 'Blend everything together until smooth');
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('error-name')).toHaveTextContent('Recipe name must be 100 characters or less');
+    }, { timeout: 3000 });
+    expect(screen.getByTestId('error-instructions')).toHaveTextContent('Instructions must be 2000 characters or less');
+    expect(screen.queryByText('Your recipe has been added')).not.toBeInTheDocument();
+    expect(mockOnClose).not.toHaveBeenCalled();
+  });
+});
@@ -3,6 +3,7 @@ import { render, screen, waitFor, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ContributeRecipeModal } from './ContributeRecipeModal';
 import { AuthProvider } from '../contexts/AuthContext';
+import { RecipeConflictError } from '../utils/supabase/errors';
 
 describe('ContributeRecipeModal', () => {
   const mockOnClose = vi.fn();
@@ -254,5 +255,59 @@ describe('ContributeRecipeModal', () => {
       expect(nutsSwitch).toHaveAttribute('aria-checked', 'true');
     });
   });
-});
 
+  it('should resolve an edit conflict by saving on top of the newer version', async () => {
+    const user = userEvent.setup();
+    const editingRecipe = {
+      id: 'recipe:1762405222159:19kx5',
+      name: 'Mango Tango',
+      contributor: 'TestUser',
+      emoji: '🥭',
+      color: '#FFA500',
+      ingredients: ['1 cup mango'],
+      instructions: 'Blend until smooth',
+      servings: 2,
+      prepTime: '5 min',
+      containsFat: false,
+      containsNuts: false,
+      version: 1,
+    };
+    const newer = { ...editingRecipe, servings: 4, version: 2 };
+    const mockOnUpdate = vi.fn()
+      .mockRejectedValueOnce(new RecipeConflictError(newer))
+      .mockResolvedValueOnce(true);
+
+    await act(async () => {
+      render(
+        <AuthProvider>
+          <ContributeRecipeModal
+            isOpen
+            onClose={mockOnClose}
+            onSubmit={mockOnSubmit}
+            editingRecipe={editingRecipe}
+            onUpdate={mockOnUpdate}
+          />
+        </AuthProvider>
+      );
+    });
+
+    const nameInput = await screen.findByLabelText(/recipe name/i);
+    await user.clear(nameInput);
+    await user.type(nameInput, 'Mango Tango Deluxe');
+    await user.click(screen.getByRole('button', { name: /update recipe/i }));
+
+    expect(await screen.findByTestId('recipe-conflict')).toBeInTheDocument();
+    expect(mockOnUpdate).toHaveBeenCalledWith(editingRecipe.id, expect.objectContaining({ name: 'Mango Tango Deluxe' }), 1);
+
+    await user.click(screen.getByRole('button', { name: /save merged/i }));
+
+    await waitFor(() => {
+      expect(mockOnUpdate).toHaveBeenLastCalledWith(
+        editingRecipe.id,
+        expect.objectContaining({ name: 'Mango Tango Deluxe', servings: 4 }),
+        2
+      );
+    });
+    expect(await screen.findByText(/success!/i)).toBeInTheDocument();
+  });
+});
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { X, Plus, Trash2 } from 'lucide-react';
+import { X, Plus, Trash2, History } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from './ui/button';
@@ -10,20 +10,27 @@ import { Label } from './ui/label';
 import { Switch } from './ui/switch';
 import { useAuth } from '../contexts/AuthContext';
 import type { CommunityRecipe } from '../utils/supabase/community';
-import { recipeSchema, type RecipeFormData } from '../utils/validation/recipeSchema';
+import { recipeSchema, type RecipeFormData, type RecipeFieldError } from '../utils/validation/recipeSchema';
+import { RecipeConflictError, RecipeValidationError } from '../utils/supabase/errors';
+import type { RevisableRecipe } from '../utils/history/recipeRevisions';
+import { RecipeHistoryPanel } from './RecipeHistoryPanel';
+import { RecipeConflictPanel } from './RecipeConflictPanel';
 
 interface ContributeRecipeModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (recipe: Omit<CommunityRecipe, 'id' | 'createdAt'>) => Promise<boolean>;
   editingRecipe?: CommunityRecipe | null;
-  onUpdate?: (recipeId: string, recipe: Omit<CommunityRecipe, 'id' | 'createdAt'>) => Promise<boolean>;
+  /** Save an edit based on `version`; rejects with RecipeConflictError if the recipe changed in between */
+  onUpdate?: (recipeId: string, recipe: Omit<CommunityRecipe, 'id' | 'createdAt'>, version?: number) => Promise<boolean>;
+  /** Restore a past version of the recipe being edited; enables the history panel */
+  onRevert?: (recipeId: string, revision: number) => Promise<boolean>;
 }
 
 const emojiOptions = ['🥤', '🥭', '🫐', '🍓', '🍌', '🍊', '🥬', '🍑', '🍉', '🥥', '🍍', '🥝'];
 const colorOptions = ['#FF6B6B', '#FFA500', '#FFD700', '#32CD32', '#9333EA', '#FF1493', '#4B0082', '#FF6347'];
 
-export function ContributeRecipeModal({ isOpen, onClose, onSubmit, editingRecipe, onUpdate }: ContributeRecipeModalProps) {
+export function ContributeRecipeModal({ isOpen, onClose, onSubmit, editingRecipe, onUpdate, onRevert }: ContributeRecipeModalProps) {
   const { user, nickname } = useAuth();
   const isEditing = !!editingRecipe;
 
@@ -34,6 +41,7 @@ export function ContributeRecipeModal({ isOpen, onClose, onSubmit, editingRecipe
     reset,
     watch,
     setValue,
+    setError,
     trigger,
   } = useForm<RecipeFormData>({
     resolver: zodResolver(recipeSchema),
@@ -62,7 +70,9 @@ export function ContributeRecipeModal({ isOpen, onClose, onSubmit, editingRecipe
   useEffect(() => {
     if (isOpen) {
       setSubmitAttempted(false);
+      setConflict(null);
       if (editingRecipe) {
+        setShowHistory(false);
         reset({
           name: editingRecipe.name,
           contributor: editingRecipe.contributor,
@@ -109,6 +119,10 @@ export function ContributeRecipeModal({ isOpen, onClose, onSubmit, editingRecipe
 
   const [showSuccess, setShowSuccess] = useState(false);
   const [submitAttempted, setSubmitAttempted] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // Set when the save was rejected because someone else saved first
+  const [conflict, setConflict] = useState<{ mine: RevisableRecipe; theirs: CommunityRecipe } | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
 
   const onFormSubmit = async (data: RecipeFormData) => {
     // Don't set submitAttempted here - only set it in handleFormError
@@ -126,12 +140,51 @@ export function ContributeRecipeModal({ isOpen, onClose, onSubmit, editingRecipe
     };
 
     let success = false;
-    if (isEditing && editingRecipe && onUpdate) {
-      success = await onUpdate(editingRecipe.id, recipe);
-    } else {
-      success = await onSubmit(recipe);
+    try {
+      if (isEditing && editingRecipe && onUpdate) {
+        success = await onUpdate(editingRecipe.id, recipe, editingRecipe.version);
+      } else {
+        success = await onSubmit(recipe);
+      }
+    } catch (error) {
+      if (error instanceof RecipeValidationError) {
+        applyServerErrors(error.errors);
+        return;
+      }
+      if (error instanceof RecipeConflictError) {
+        setConflict({ mine: recipe, theirs: error.current });
+        return;
+      }
+      throw error;
+    }
+
+    finishSave(success);
+  };
+
+  // Save the version picked in the conflict panel on top of the server's current copy
+  const resolveConflict = async (recipe: RevisableRecipe) => {
+    if (!conflict || !editingRecipe || !onUpdate) return;
+    setIsResolving(true);
+    try {
+      const success = await onUpdate(editingRecipe.id, recipe, conflict.theirs.version);
+      setConflict(null);
+      finishSave(success);
+    } catch (error) {
+      if (error instanceof RecipeConflictError) {
+        // Saved again in the meantime: resolve against the newest copy
+        setConflict({ mine: recipe, theirs: error.current });
+      } else if (error instanceof RecipeValidationError) {
+        setConflict(null);
+        applyServerErrors(error.errors);
+      } else {
+        throw error;
+      }
+    } finally {
+      setIsResolving(false);
     }
+  };
 
+  const finishSave = (success: boolean) => {
     if (success) {
       setShowSuccess(true);
       // Wait 1.5 seconds then close and reset
@@ -146,6 +199,18 @@ export function ContributeRecipeModal({ isOpen, onClose, onSubmit, editingRecipe
     }
   };
 
+  // Show errors reported by the recipes function in the same places as client-side validation errors
+  const applyServerErrors = (serverErrors: RecipeFieldError[]) => {
+    for (const { field, message } of serverErrors) {
+      if (field in recipeSchema.shape) {
+        setError(field as keyof RecipeFormData, { type: 'server', message });
+      } else {
+        console.error('Unmapped recipe error from server:', field, message);
+      }
+    }
+    setSubmitAttempted(true);
+  };
+
   const handleFormError = async () => {
     // Set submitAttempted to show error summary
     setSubmitAttempted(true);
@@ -198,16 +263,49 @@ export function ContributeRecipeModal({ isOpen, onClose, onSubmit, editingRecipe
                   {isEditing ? 'Update your smoothie recipe' : 'Share your favorite smoothie with the community'}
                 </p>
               </div>
-              <button
-                onClick={onClose}
-                className="p-2 hover:bg-white/50 rounded-full transition-colors"
-              >
-                <X className="w-5 h-5 text-gray-600" />
-              </button>
+              <div className="flex items-center gap-1">
+                {isEditing && onRevert && !showHistory && !conflict && (
+                  <button
+                    type="button"
+                    onClick={() => setShowHistory(true)}
+                    className="p-2 hover:bg-white/50 rounded-full transition-colors"
+                    title="Version history"
+                  >
+                    <History className="w-5 h-5 text-gray-600" />
+                  </button>
+                )}
+                <button
+                  onClick={onClose}
+                  className="p-2 hover:bg-white/50 rounded-full transition-colors"
+                >
+                  <X className="w-5 h-5 text-gray-600" />
+                </button>
+              </div>
             </div>
 
+            {conflict && editingRecipe && (
+              <RecipeConflictPanel
+                key={conflict.theirs.version}
+                base={editingRecipe}
+                mine={conflict.mine}
+                theirs={conflict.theirs}
+                isSaving={isResolving}
+                onKeepMine={() => resolveConflict(conflict.mine)}
+                onTakeTheirs={onClose}
+                onMerge={resolveConflict}
+              />
+            )}
+
+            {showHistory && editingRecipe && onRevert && (
+              <RecipeHistoryPanel
+                recipe={editingRecipe}
+                onRevert={(revision) => onRevert(editingRecipe.id, revision)}
+                onBack={() => setShowHistory(false)}
+              />
+            )}
+
             {/* Form */}
-            <form id="recipe-form" onSubmit={handleSubmit(onFormSubmit, handleFormError)} className={`flex-1 overflow-y-auto p-6 space-y-6 relative ${showSuccess ? 'opacity-30 pointer-events-none' : ''}`}>
+            <form id="recipe-form" hidden={showHistory || !!conflict} onSubmit={handleSubmit(onFormSubmit, handleFormError)} className={`flex-1 overflow-y-auto p-6 space-y-6 relative ${showSuccess ? 'opacity-30 pointer-events-none' : ''}`}>
               {/* Validation Error Summary */}
               {hasErrors && (
                 <motion.div
@@ -474,7 +572,7 @@ export function ContributeRecipeModal({ isOpen, onClose, onSubmit, editingRecipe
             </AnimatePresence>
 
             {/* Footer */}
-            <div className="p-6 border-t border-gray-100 flex gap-3">
+            <div className="p-6 border-t border-gray-100 flex gap-3" hidden={showHistory || !!conflict}>
               <Button
                 type="button"
                 variant="outline"
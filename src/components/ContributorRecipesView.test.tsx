@@ -187,7 +187,23 @@ describe('ContributorRecipesView', () => {
     await user.click(shareButton);
 
     expect(shareUtils.shareContributorList).toHaveBeenCalledTimes(1);
-    expect(shareUtils.shareContributorList).toHaveBeenCalledWith('Test User', 3);
+    expect(shareUtils.shareContributorList).toHaveBeenCalledWith('Test User', 3, 'Test User');
+  });
+
+  it('should share a link keyed by contributorKey', async () => {
+    const user = userEvent.setup();
+    render(
+      <ContributorRecipesView
+        contributor="Test User"
+        contributorKey="user-123"
+        recipes={mockRecipes}
+        onSelectRecipe={mockOnSelectRecipe}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /share/i }));
+
+    expect(shareUtils.shareContributorList).toHaveBeenCalledWith('Test User', 3, 'user-123');
   });
 
   it('should handle empty recipes array', () => {
@@ -290,7 +306,7 @@ describe('ContributorRecipesView', () => {
     const shareButton = screen.getByRole('button', { name: /share/i });
     await user.click(shareButton);
 
-    expect(shareUtils.shareContributorList).toHaveBeenCalledWith('Test User', 1);
+    expect(shareUtils.shareContributorList).toHaveBeenCalledWith('Test User', 1, 'Test User');
   });
 
   it('should call shareContributorList with correct count for empty recipes', async () => {
@@ -307,7 +323,7 @@ describe('ContributorRecipesView', () => {
     const shareButton = screen.getByRole('button', { name: /share/i });
     await user.click(shareButton);
 
-    expect(shareUtils.shareContributorList).toHaveBeenCalledWith('Test User', 0);
+    expect(shareUtils.shareContributorList).toHaveBeenCalledWith('Test User', 0, 'Test User');
   });
 });
 
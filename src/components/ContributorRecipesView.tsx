@@ -11,14 +11,17 @@ interface Recipe {
 }
 
 interface ContributorRecipesViewProps {
+  /** Display name */
   contributor: string;
+  /** What the share link points at (the author's user id); defaults to the display name */
+  contributorKey?: string;
   recipes: Recipe[];
   onSelectRecipe: (recipe: Recipe) => void;
 }
 
-export function ContributorRecipesView({ contributor, recipes, onSelectRecipe }: ContributorRecipesViewProps) {
+export function ContributorRecipesView({ contributor, contributorKey = contributor, recipes, onSelectRecipe }: ContributorRecipesViewProps) {
   const handleShare = async () => {
-    await shareContributorList(contributor, recipes.length);
+    await shareContributorList(contributor, recipes.length, contributorKey);
   };
 
   return (
@@ -113,5 +113,20 @@ describe('FilterToggles', () => {
     expect(noNutsToggle).toHaveAttribute('aria-checked', 'true');
     expect(favoritesToggle).toHaveAttribute('aria-checked', 'true');
   });
-});
 
+  it('should not show the minimum rating option without a change handler', () => {
+    render(<FilterToggles {...defaultProps} />);
+
+    expect(screen.queryByLabelText(/Min Rating/i)).not.toBeInTheDocument();
+  });
+
+  it('should call onMinRatingChange with the selected minimum', async () => {
+    const user = userEvent.setup();
+    const mockOnMinRatingChange = vi.fn();
+    render(<FilterToggles {...defaultProps} minRating={0} onMinRatingChange={mockOnMinRatingChange} />);
+
+    await user.selectOptions(screen.getByLabelText(/Min Rating/i), '4');
+
+    expect(mockOnMinRatingChange).toHaveBeenCalledWith(4);
+  });
+});
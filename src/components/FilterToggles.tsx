@@ -1,7 +1,9 @@
 import { motion } from 'motion/react';
 import { Switch } from './ui/switch';
 import { Label } from './ui/label';
-import { Heart } from 'lucide-react';
+import { Heart, Star } from 'lucide-react';
+
+const MIN_RATING_OPTIONS = [0, 3, 4, 4.5];
 
 interface FilterTogglesProps {
   noFat: boolean;
@@ -10,6 +12,9 @@ interface FilterTogglesProps {
   onNoFatChange: (value: boolean) => void;
   onNoNutsChange: (value: boolean) => void;
   onFavoritesOnlyChange: (value: boolean) => void;
+  /** Minimum average star rating, 0 for any */
+  minRating?: number;
+  onMinRatingChange?: (value: number) => void;
   filteredCount: number;
   totalCount: number;
   favoritesCount: number;
@@ -22,6 +27,8 @@ export function FilterToggles({
   onNoFatChange,
   onNoNutsChange,
   onFavoritesOnlyChange,
+  minRating = 0,
+  onMinRatingChange,
   filteredCount,
   totalCount,
   favoritesCount,
@@ -67,6 +74,27 @@ export function FilterToggles({
             Favorites Only
           </Label>
         </div>
+
+        {onMinRatingChange && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="min-rating" className="text-sm text-gray-700 flex items-center gap-1">
+              <Star className={`w-3.5 h-3.5 ${minRating > 0 ? 'fill-yellow-400 stroke-yellow-400' : ''}`} />
+              Min Rating
+            </Label>
+            <select
+              id="min-rating"
+              value={minRating}
+              onChange={(e) => onMinRatingChange(Number(e.target.value))}
+              className="text-sm text-gray-700 bg-white/80 rounded-md border border-gray-200 px-2 py-1"
+            >
+              {MIN_RATING_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option === 0 ? 'Any' : `${option}+ stars`}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
       
       <p className="text-xs text-center text-gray-500">
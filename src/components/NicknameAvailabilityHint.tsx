@@ -0,0 +1,27 @@
+import type { NicknameStatus } from '../hooks/useNicknameAvailability';
+
+interface NicknameAvailabilityHintProps {
+  status: NicknameStatus;
+  message: string | null;
+}
+
+/**
+ * The line under a nickname field saying whether the name can be had.
+ */
+export function NicknameAvailabilityHint({ status, message }: NicknameAvailabilityHintProps) {
+  if (status === 'idle') return null;
+
+  return (
+    <p
+      role="status"
+      aria-live="polite"
+      className={`mt-1 text-sm ${
+        status === 'available' ? 'text-green-600' : status === 'unavailable' ? 'text-red-600' : 'text-gray-500'
+      }`}
+    >
+      {status === 'checking' && 'Checking availability…'}
+      {status === 'available' && '✓ Nickname is available'}
+      {status === 'unavailable' && message}
+    </p>
+  );
+}
@@ -4,6 +4,14 @@ import userEvent from '@testing-library/user-event';
 import type { Session } from '@jsr/supabase__supabase-js';
 import { NicknameEditModal } from './NicknameEditModal';
 import { AuthProvider } from '../contexts/AuthContext';
+import { checkNicknameAvailability } from '../utils/supabase/profile';
+
+vi.mock('../utils/supabase/profile', () => ({
+  checkNicknameAvailability: vi.fn().mockImplementation(async (nickname: string) => ({ nickname, available: true })),
+  claimNickname: vi.fn().mockImplementation(async (nickname: string) => nickname),
+  fetchPublicProfile: vi.fn().mockResolvedValue(null),
+  releaseNickname: vi.fn().mockResolvedValue(undefined),
+}));
 
 describe('NicknameEditModal', () => {
   const mockOnClose = vi.fn();
@@ -13,7 +21,7 @@ describe('NicknameEditModal', () => {
   });
 
   // Helper to render modal with AuthProvider
-  const renderModal = (props: { isOpen: boolean; onClose: typeof mockOnClose }) => {
+  const renderModal = (props: { isOpen: boolean; onClose: typeof mockOnClose; onNicknameChange?: (nickname: string) => void }) => {
     let result: ReturnType<typeof render>;
     act(() => {
       result = render(
@@ -210,13 +218,15 @@ describe('NicknameEditModal', () => {
       error: null,
     });
 
+    const onNicknameChange = vi.fn();
     renderModal({
       isOpen: true,
       onClose: mockOnClose,
+      onNicknameChange,
     });
 
     await waitFor(() => {
-      expect(screen.getByLabelText(/nickname/i)).toBeInTheDocument();
+      expect((screen.getByLabelText(/nickname/i) as HTMLInputElement).value).toBe('OldNickname');
     }, { timeout: 3000 });
 
     const nicknameInput = screen.getByLabelText(/nickname/i);
@@ -234,6 +244,8 @@ describe('NicknameEditModal', () => {
       });
       expect(mockOnClose).toHaveBeenCalled();
     });
+    // Recipes carrying the old name get renamed from it
+    expect(onNicknameChange).toHaveBeenCalledWith('NewNickname');
   });
 
   it('should show error when nickname is empty', async () => {
@@ -351,6 +363,70 @@ describe('NicknameEditModal', () => {
     }, { timeout: 3000 });
   });
 
+  it('should say when a nickname is taken and not let it be saved', async () => {
+    const user = userEvent.setup();
+    const { supabase } = await import('../utils/supabase/client');
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: {
+        session: {
+          user: { id: 'test-user', email: 'test@example.com', user_metadata: { nickname: 'OldNickname' } },
+        } as unknown as Session,
+      },
+      error: null,
+    });
+    vi.mocked(checkNicknameAvailability).mockResolvedValueOnce({
+      nickname: 'Blender Bob',
+      available: false,
+      reason: 'taken',
+      message: 'That nickname is taken',
+    });
+
+    renderModal({
+      isOpen: true,
+      onClose: mockOnClose,
+    });
+
+    await waitFor(() => {
+      expect(screen.getByDisplayValue('OldNickname')).toBeInTheDocument();
+    });
+
+    const nicknameInput = screen.getByLabelText(/nickname/i);
+    await user.clear(nicknameInput);
+    await user.type(nicknameInput, 'Blender Bob');
+
+    await waitFor(() => {
+      expect(screen.getByText('That nickname is taken')).toBeInTheDocument();
+    });
+    expect(checkNicknameAvailability).toHaveBeenCalledTimes(1);
+    expect(screen.getByRole('button', { name: /save nickname/i })).toBeDisabled();
+  });
+
+  it('should flag reserved nicknames without asking the server', async () => {
+    const user = userEvent.setup();
+    const { supabase } = await import('../utils/supabase/client');
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: {
+        session: {
+          user: { id: 'test-user', email: 'test@example.com', user_metadata: {} },
+        } as unknown as Session,
+      },
+      error: null,
+    });
+
+    renderModal({
+      isOpen: true,
+      onClose: mockOnClose,
+    });
+
+    await waitFor(() => {
+      expect(screen.getByLabelText(/nickname/i)).toBeInTheDocument();
+    });
+    await user.type(screen.getByLabelText(/nickname/i), 'Admin');
+
+    expect(screen.getByText('That nickname is reserved')).toBeInTheDocument();
+    expect(checkNicknameAvailability).not.toHaveBeenCalled();
+  });
+
   it('should trim whitespace from nickname before submission', async () => {
     const user = userEvent.setup();
     const { supabase } = await import('../utils/supabase/client');
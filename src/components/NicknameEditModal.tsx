@@ -2,17 +2,27 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { X } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useNicknameAvailability } from '../hooks/useNicknameAvailability';
+import { nicknameProblem } from '../utils/validation/nicknameSchema';
+import { NicknameAvailabilityHint } from './NicknameAvailabilityHint';
 
 interface NicknameEditModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Called after the new nickname is saved */
+  onNicknameChange?: (nickname: string) => void;
 }
 
-export function NicknameEditModal({ isOpen, onClose }: NicknameEditModalProps) {
-  const { nickname, updateNickname } = useAuth();
+export function NicknameEditModal({ isOpen, onClose, onNicknameChange }: NicknameEditModalProps) {
+  const { nickname, session, updateNickname } = useAuth();
   const [newNickname, setNewNickname] = useState(nickname || '');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const availability = useNicknameAvailability(newNickname, {
+    enabled: isOpen,
+    currentNickname: nickname,
+    accessToken: session?.access_token,
+  });
 
   // Update local state when modal opens
   useEffect(() => {
@@ -26,18 +36,9 @@ export function NicknameEditModal({ isOpen, onClose }: NicknameEditModalProps) {
     e.preventDefault();
     setError(null);
     
-    if (!newNickname.trim()) {
-      setError('Nickname cannot be empty');
-      return;
-    }
-
-    if (newNickname.trim().length < 2) {
-      setError('Nickname must be at least 2 characters');
-      return;
-    }
-
-    if (newNickname.trim().length > 30) {
-      setError('Nickname must be 30 characters or less');
+    const problem = nicknameProblem(newNickname);
+    if (problem) {
+      setError(problem);
       return;
     }
 
@@ -47,6 +48,7 @@ export function NicknameEditModal({ isOpen, onClose }: NicknameEditModalProps) {
       if (error) {
         setError(error.message);
       } else {
+        onNicknameChange?.(newNickname.trim());
         onClose();
       }
     } catch (err) {
@@ -109,7 +111,9 @@ export function NicknameEditModal({ isOpen, onClose }: NicknameEditModalProps) {
                 maxLength={30}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all"
                 placeholder="e.g., SmoothieMaster"
+                aria-invalid={availability.status === 'unavailable'}
               />
+              {!error && <NicknameAvailabilityHint {...availability} />}
             </div>
 
             {error && (
@@ -124,7 +128,7 @@ export function NicknameEditModal({ isOpen, onClose }: NicknameEditModalProps) {
 
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || availability.status === 'unavailable'}
               className="w-full px-6 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg font-medium hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? 'Saving...' : 'Save Nickname'}
@@ -2,6 +2,9 @@ import { motion, AnimatePresence } from 'motion/react';
 import { Heart, Share2, Edit, Trash2 } from 'lucide-react';
 import { useState } from 'react';
 import { shareRecipe } from '../utils/share';
+import { RecipeRatings } from './RecipeRatings';
+import type { RatingSummary } from '../utils/validation/ratingSchema';
+import type { OutboxStatus } from '../utils/localRecipes/outbox';
 
 interface Recipe {
   id: number | string;
@@ -13,20 +16,27 @@ interface Recipe {
   instructions: string;
   servings: number;
   prepTime: string;
+  ratingSummary?: RatingSummary | null;
 }
 
 interface RecipeCardProps {
   recipe: Recipe;
   isFavorite: boolean;
+  /** Set while a change to the recipe is waiting to reach the server */
+  syncStatus?: OutboxStatus;
   onToggleFavorite: (id: number | string) => void;
   onContributorClick?: (contributor: string) => void;
   onEdit?: (recipe: Recipe) => void;
   onDelete?: (recipe: Recipe) => void;
   canEdit?: boolean;
   canDelete?: boolean;
+  /** Signed-in user and token, used to rate community recipes */
+  currentUserId?: string | null;
+  accessToken?: string;
+  onRatingChange?: (recipeId: string, summary: RatingSummary) => void;
 }
 
-export function RecipeCard({ recipe, isFavorite, onToggleFavorite, onContributorClick, onEdit, onDelete, canEdit, canDelete }: RecipeCardProps) {
+export function RecipeCard({ recipe, isFavorite, syncStatus, onToggleFavorite, onContributorClick, onEdit, onDelete, canEdit, canDelete, currentUserId, accessToken, onRatingChange }: RecipeCardProps) {
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
 
@@ -145,6 +155,11 @@ export function RecipeCard({ recipe, isFavorite, onToggleFavorite, onContributor
           ) : (
             <p className="text-sm text-gray-600">by {recipe.contributor}</p>
           )}
+          {syncStatus && (
+            <p className={`text-xs mt-2 ${syncStatus === 'pending' ? 'text-gray-500' : 'text-red-600'}`}>
+              {syncStatus === 'pending' ? 'Waiting to sync' : `Sync ${syncStatus}`}
+            </p>
+          )}
         </div>
 
         {/* Recipe Info */}
@@ -181,8 +196,19 @@ export function RecipeCard({ recipe, isFavorite, onToggleFavorite, onContributor
         {/* Instructions */}
         <div className="px-6 pb-6">
           <h4 className="text-gray-700 mb-3">Instructions</h4>
-          <p className="text-sm text-gray-600 leading-relaxed">{recipe.instructions}</p>
+          <p className="text-sm text-gray-600 leading-relaxed whitespace-pre-line">{recipe.instructions}</p>
         </div>
+
+        {/* Ratings - only community recipes can be rated */}
+        {typeof recipe.id === 'string' && recipe.id.startsWith('recipe:') && (
+          <RecipeRatings
+            recipeId={recipe.id}
+            summary={recipe.ratingSummary}
+            currentUserId={currentUserId}
+            accessToken={accessToken}
+            onRatingChange={onRatingChange}
+          />
+        )}
       </div>
     </motion.div>
   );
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { RecipeConflictPanel } from './RecipeConflictPanel';
+
+describe('RecipeConflictPanel', () => {
+  const mockOnKeepMine = vi.fn();
+  const mockOnTakeTheirs = vi.fn();
+  const mockOnMerge = vi.fn();
+
+  const base = {
+    id: 'recipe:1762405222159:19kx5',
+    name: 'Mango Tango',
+    contributor: 'TestUser',
+    emoji: '🥭',
+    color: '#FFA500',
+    ingredients: ['1 cup mango'],
+    instructions: 'Blend until smooth',
+    servings: 2,
+    prepTime: '5 min',
+    containsFat: false,
+    containsNuts: false,
+    version: 1,
+  };
+  // I renamed it; the other device changed the servings and the name
+  const mine = {
+    name: 'Mango Tango Deluxe',
+    contributor: base.contributor,
+    emoji: base.emoji,
+    color: base.color,
+    ingredients: base.ingredients,
+    instructions: base.instructions,
+    servings: base.servings,
+    prepTime: base.prepTime,
+    containsFat: base.containsFat,
+    containsNuts: base.containsNuts,
+  };
+  const theirs = {
+    ...base,
+    name: 'Mango Madness',
+    servings: 4,
+    version: 2,
+    updatedBy: { id: 'test-user', name: 'Other Device' },
+  };
+
+  const renderPanel = () =>
+    render(
+      <RecipeConflictPanel
+        base={base}
+        mine={mine}
+        theirs={theirs}
+        onKeepMine={mockOnKeepMine}
+        onTakeTheirs={mockOnTakeTheirs}
+        onMerge={mockOnMerge}
+      />
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list only the fields that differ', () => {
+    renderPanel();
+
+    expect(screen.getByText(/Other Device saved a newer version/)).toBeInTheDocument();
+    expect(screen.getByTestId('conflict-name')).toBeInTheDocument();
+    expect(screen.getByTestId('conflict-servings')).toBeInTheDocument();
+    expect(screen.queryByTestId('conflict-instructions')).not.toBeInTheDocument();
+  });
+
+  it('should preselect my edits and their changes to fields I left alone', () => {
+    renderPanel();
+
+    expect(screen.getByRole('button', { name: /yours mango tango deluxe/i })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: /newer version 4/i })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('should merge the chosen side of each field', async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    await user.click(screen.getByRole('button', { name: /newer version mango madness/i }));
+    await user.click(screen.getByRole('button', { name: /save merged/i }));
+
+    expect(mockOnMerge).toHaveBeenCalledWith({ ...mine, name: 'Mango Madness', servings: 4 });
+  });
+
+  it('should keep mine or take theirs wholesale', async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    await user.click(screen.getByRole('button', { name: /keep mine/i }));
+    await user.click(screen.getByRole('button', { name: /use newer version/i }));
+
+    expect(mockOnKeepMine).toHaveBeenCalled();
+    expect(mockOnTakeTheirs).toHaveBeenCalled();
+  });
+});
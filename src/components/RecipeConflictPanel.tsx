@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from './ui/button';
+import type { CommunityRecipe } from '../utils/supabase/community';
+import { diffRecipes, pickRevisionFields, type RevisableRecipe, type RevisionField } from '../utils/history/recipeRevisions';
+
+type Choice = 'mine' | 'theirs';
+
+interface RecipeConflictPanelProps {
+  /** The copy the edit started from */
+  base: CommunityRecipe;
+  /** The unsaved edit */
+  mine: RevisableRecipe;
+  /** What's on the server now */
+  theirs: CommunityRecipe;
+  isSaving?: boolean;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onMerge: (merged: RevisableRecipe) => void;
+}
+
+const fieldLabels: Record<RevisionField, string> = {
+  name: 'Recipe Name',
+  contributor: 'Contributor',
+  emoji: 'Emoji',
+  color: 'Color',
+  ingredients: 'Ingredients',
+  instructions: 'Instructions',
+  servings: 'Servings',
+  prepTime: 'Prep Time',
+  containsFat: 'Contains Fat',
+  containsNuts: 'Contains Nuts',
+};
+
+const formatValue = (value: unknown): string => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value ?? '');
+};
+
+export function RecipeConflictPanel({ base, mine, theirs, isSaving = false, onKeepMine, onTakeTheirs, onMerge }: RecipeConflictPanelProps) {
+  const theirFields = pickRevisionFields(theirs);
+  const conflicts = diffRecipes(mine, theirFields);
+  const editedByMe = new Set(diffRecipes(pickRevisionFields(base), mine).map((change) => change.field));
+
+  // Start each field on the side that actually changed it: my edit if I made one, otherwise theirs
+  const [choices, setChoices] = useState<Partial<Record<RevisionField, Choice>>>(() =>
+    Object.fromEntries(conflicts.map(({ field }) => [field, editedByMe.has(field) ? 'mine' : 'theirs']))
+  );
+
+  const choose = (field: RevisionField, choice: Choice) => setChoices((prev) => ({ ...prev, [field]: choice }));
+
+  const handleMerge = () => {
+    const merged = { ...mine } as Record<RevisionField, unknown>;
+    for (const { field } of conflicts) {
+      if (choices[field] === 'theirs') {
+        merged[field] = theirFields[field];
+      }
+    }
+    onMerge(merged as unknown as RevisableRecipe);
+  };
+
+  const editorName = theirs.updatedBy?.name ?? theirs.contributor;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 space-y-4" data-testid="recipe-conflict">
+      <div className="flex gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4">
+        <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0" />
+        <div className="text-sm text-amber-900">
+          <p className="font-medium">This recipe was changed while you were editing</p>
+          <p>
+            {editorName} saved a newer version
+            {theirs.updatedAt ? ` at ${new Date(theirs.updatedAt).toLocaleString()}` : ''}. Pick which version of each
+            field to keep.
+          </p>
+        </div>
+      </div>
+
+      {conflicts.length === 0 ? (
+        <p className="text-sm text-gray-500">Your changes match the newer version.</p>
+      ) : (
+        <dl className="space-y-3 text-sm">
+          {conflicts.map(({ field, before, after }) => (
+            <div key={field} data-testid={`conflict-${field}`}>
+              <dt className="font-medium text-gray-700">{fieldLabels[field]}</dt>
+              <dd className="mt-1 grid gap-2 sm:grid-cols-2">
+                <button
+                  type="button"
+                  onClick={() => choose(field, 'mine')}
+                  aria-pressed={choices[field] === 'mine'}
+                  className={`rounded-lg border px-3 py-2 text-left transition-colors ${
+                    choices[field] === 'mine' ? 'border-purple-400 bg-purple-50' : 'border-gray-200 hover:border-purple-200'
+                  }`}
+                >
+                  <span className="block text-xs text-gray-500">Yours</span>
+                  {formatValue(before)}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => choose(field, 'theirs')}
+                  aria-pressed={choices[field] === 'theirs'}
+                  className={`rounded-lg border px-3 py-2 text-left transition-colors ${
+                    choices[field] === 'theirs' ? 'border-purple-400 bg-purple-50' : 'border-gray-200 hover:border-purple-200'
+                  }`}
+                >
+                  <span className="block text-xs text-gray-500">Newer version</span>
+                  {formatValue(after)}
+                </button>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <Button type="button" variant="outline" onClick={onTakeTheirs} disabled={isSaving}>
+          Use newer version
+        </Button>
+        <Button type="button" variant="outline" onClick={onKeepMine} disabled={isSaving}>
+          Keep mine
+        </Button>
+        <Button
+          type="button"
+          onClick={handleMerge}
+          disabled={isSaving || conflicts.length === 0}
+          className="bg-gradient-to-r from-purple-500 to-pink-500 text-white"
+        >
+          {isSaving ? 'Saving...' : 'Save merged'}
+        </Button>
+      </div>
+    </div>
+  );
+}
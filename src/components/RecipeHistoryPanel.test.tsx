@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { RecipeHistoryPanel } from './RecipeHistoryPanel';
+import * as communityUtils from '../utils/supabase/community';
+
+vi.mock('../utils/supabase/community', () => ({
+  fetchRecipeRevisions: vi.fn(),
+}));
+
+describe('RecipeHistoryPanel', () => {
+  const mockOnRevert = vi.fn();
+  const mockOnBack = vi.fn();
+
+  const currentRecipe = {
+    id: 'recipe:1762405222159:19kx5',
+    name: 'Mango Tango',
+    contributor: 'TestUser',
+    emoji: '🥭',
+    color: '#FFA500',
+    ingredients: ['1 cup mango', '1 cup orange juice'],
+    instructions: 'Blend until smooth',
+    servings: 2,
+    prepTime: '5 min',
+    containsFat: false,
+    containsNuts: false,
+  };
+
+  const revisions = [
+    {
+      recipeId: currentRecipe.id,
+      revision: 2,
+      recipe: { ...currentRecipe, name: 'Mango Tang', servings: 1 },
+      editor: { id: 'test-user', name: 'TestUser' },
+      editedAt: '2024-02-01T00:00:00.000Z',
+    },
+    {
+      recipeId: currentRecipe.id,
+      revision: 1,
+      recipe: { ...currentRecipe, ingredients: ['1 cup mango'], containsNuts: true },
+      editor: { id: 'test-user', name: 'TestUser' },
+      editedAt: '2024-01-01T00:00:00.000Z',
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(communityUtils.fetchRecipeRevisions).mockResolvedValue(revisions);
+  });
+
+  it('should list versions newest first and diff the latest against the current recipe', async () => {
+    render(<RecipeHistoryPanel recipe={currentRecipe} onRevert={mockOnRevert} onBack={mockOnBack} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Version 2')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Version 1')).toBeInTheDocument();
+    expect(screen.getByTestId('diff-name')).toHaveTextContent('Mango Tang');
+    expect(screen.getByTestId('diff-name')).toHaveTextContent('Mango Tango');
+    expect(screen.getByTestId('diff-servings')).toBeInTheDocument();
+    expect(screen.queryByTestId('diff-ingredients')).not.toBeInTheDocument();
+  });
+
+  it('should show the diff of the selected version', async () => {
+    const user = userEvent.setup();
+    render(<RecipeHistoryPanel recipe={currentRecipe} onRevert={mockOnRevert} onBack={mockOnBack} />);
+
+    await user.click(await screen.findByText('Version 1'));
+
+    expect(screen.getByTestId('diff-ingredients')).toHaveTextContent('1 cup mango, 1 cup orange juice');
+    expect(screen.getByTestId('diff-containsNuts')).toHaveTextContent('Yes');
+    expect(screen.queryByTestId('diff-name')).not.toBeInTheDocument();
+  });
+
+  it('should restore the selected version and go back to editing', async () => {
+    const user = userEvent.setup();
+    mockOnRevert.mockResolvedValue(true);
+    render(<RecipeHistoryPanel recipe={currentRecipe} onRevert={mockOnRevert} onBack={mockOnBack} />);
+
+    await user.click(await screen.findByText('Version 1'));
+    await user.click(screen.getByRole('button', { name: /restore version 1/i }));
+
+    expect(mockOnRevert).toHaveBeenCalledWith(1);
+    await waitFor(() => {
+      expect(mockOnBack).toHaveBeenCalled();
+    });
+  });
+
+  it('should explain when there is no history yet', async () => {
+    vi.mocked(communityUtils.fetchRecipeRevisions).mockResolvedValue([]);
+    render(<RecipeHistoryPanel recipe={currentRecipe} onRevert={mockOnRevert} onBack={mockOnBack} />);
+
+    expect(await screen.findByText(/no earlier versions yet/i)).toBeInTheDocument();
+  });
+});
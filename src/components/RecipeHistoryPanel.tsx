@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import { Button } from './ui/button';
+import { fetchRecipeRevisions, type CommunityRecipe } from '../utils/supabase/community';
+import { diffRecipes, pickRevisionFields, type RecipeRevision, type RevisionField } from '../utils/history/recipeRevisions';
+
+interface RecipeHistoryPanelProps {
+  recipe: CommunityRecipe;
+  onRevert: (revision: number) => Promise<boolean>;
+  onBack: () => void;
+}
+
+const fieldLabels: Record<RevisionField, string> = {
+  name: 'Recipe Name',
+  contributor: 'Contributor',
+  emoji: 'Emoji',
+  color: 'Color',
+  ingredients: 'Ingredients',
+  instructions: 'Instructions',
+  servings: 'Servings',
+  prepTime: 'Prep Time',
+  containsFat: 'Contains Fat',
+  containsNuts: 'Contains Nuts',
+};
+
+const formatValue = (value: unknown): string => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value ?? '');
+};
+
+export function RecipeHistoryPanel({ recipe, onRevert, onBack }: RecipeHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<RecipeRevision[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [selected, setSelected] = useState<RecipeRevision | null>(null);
+  const [isReverting, setIsReverting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRecipeRevisions(recipe.id)
+      .then((loaded) => {
+        if (cancelled) return;
+        setRevisions(loaded);
+        setSelected(loaded[0] ?? null);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error loading recipe history:', error);
+        setLoadFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [recipe.id]);
+
+  const handleRevert = async () => {
+    if (!selected) return;
+    setIsReverting(true);
+    const success = await onRevert(selected.revision);
+    setIsReverting(false);
+    if (success) {
+      onBack();
+    }
+  };
+
+  // Compare the chosen version against what's live now, i.e. what restoring it would change
+  const changes = selected ? diffRecipes(selected.recipe, pickRevisionFields(recipe)) : [];
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 space-y-4" data-testid="recipe-history">
+      <button
+        type="button"
+        onClick={onBack}
+        className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-800"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to editing
+      </button>
+
+      {loadFailed && <p className="text-sm text-red-600">Couldn&apos;t load the history. Please try again.</p>}
+      {!revisions && !loadFailed && <p className="text-sm text-gray-500">Loading history...</p>}
+      {revisions && revisions.length === 0 && (
+        <p className="text-sm text-gray-500">No earlier versions yet. Every time you save, the previous version is kept here.</p>
+      )}
+
+      {revisions && revisions.length > 0 && (
+        <>
+          <ul className="space-y-2">
+            {revisions.map((revision) => (
+              <li key={revision.revision}>
+                <button
+                  type="button"
+                  onClick={() => setSelected(revision)}
+                  aria-pressed={selected?.revision === revision.revision}
+                  className={`w-full text-left rounded-lg border px-3 py-2 text-sm transition-colors ${
+                    selected?.revision === revision.revision
+                      ? 'border-purple-400 bg-purple-50'
+                      : 'border-gray-200 hover:border-purple-200'
+                  }`}
+                >
+                  <span className="font-medium text-gray-800">Version {revision.revision}</span>
+                  <span className="text-gray-500">
+                    {' '}• by {revision.editor.name} • {new Date(revision.editedAt).toLocaleString()}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <motion.div
+              key={selected.revision}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="rounded-lg border border-gray-200 p-4 space-y-3"
+            >
+              <h3 className="text-gray-800 font-medium">Version {selected.revision} compared to the current recipe</h3>
+              {changes.length === 0 ? (
+                <p className="text-sm text-gray-500">Same as the current recipe.</p>
+              ) : (
+                <dl className="space-y-3 text-sm">
+                  {changes.map((change) => (
+                    <div key={change.field} data-testid={`diff-${change.field}`}>
+                      <dt className="font-medium text-gray-700">{fieldLabels[change.field]}</dt>
+                      <dd className="mt-1 rounded bg-red-50 px-2 py-1 text-red-800">
+                        <span className="sr-only">This version: </span>− {formatValue(change.before)}
+                      </dd>
+                      <dd className="mt-1 rounded bg-green-50 px-2 py-1 text-green-800">
+                        <span className="sr-only">Current: </span>+ {formatValue(change.after)}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              <Button
+                type="button"
+                onClick={handleRevert}
+                disabled={isReverting || changes.length === 0}
+                className="bg-gradient-to-r from-purple-500 to-pink-500 text-white"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                {isReverting ? 'Restoring...' : `Restore version ${selected.revision}`}
+              </Button>
+            </motion.div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { RecipeRatings } from './RecipeRatings';
+import * as communityUtils from '../utils/supabase/community';
+import { RecipeValidationError } from '../utils/supabase/errors';
+
+vi.mock('../utils/supabase/community', () => ({
+  fetchRecipeRatings: vi.fn(),
+  rateCommunityRecipe: vi.fn(),
+}));
+
+describe('RecipeRatings', () => {
+  const recipeId = 'recipe:1762405222159:19kx5';
+  const otherRating = {
+    recipeId,
+    userId: 'other-user',
+    author: 'Berry Fan',
+    rating: 4,
+    review: 'Lovely and fresh',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(communityUtils.fetchRecipeRatings).mockResolvedValue({
+      ratings: [otherRating],
+      summary: { average: 4, count: 1 },
+    });
+  });
+
+  it('should show the average and reviews', async () => {
+    render(<RecipeRatings recipeId={recipeId} summary={{ average: 4, count: 1 }} />);
+
+    expect(screen.getByText(/4\.0 \(1 rating\)/)).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByText('Lovely and fresh')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Berry Fan')).toBeInTheDocument();
+  });
+
+  it('should ask signed-out users to sign in', () => {
+    render(<RecipeRatings recipeId={recipeId} />);
+
+    expect(screen.getByText(/sign in to rate this recipe/i)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /rate 5 stars/i })).not.toBeInTheDocument();
+  });
+
+  it('should save a rating with a review and report the new summary', async () => {
+    const user = userEvent.setup();
+    const onRatingChange = vi.fn();
+    const savedRating = { ...otherRating, userId: 'test-user', author: 'TestUser', rating: 5, review: 'So good' };
+    vi.mocked(communityUtils.rateCommunityRecipe).mockResolvedValue({
+      rating: savedRating,
+      summary: { average: 4.5, count: 2 },
+    });
+
+    render(
+      <RecipeRatings recipeId={recipeId} currentUserId="test-user" accessToken="token" onRatingChange={onRatingChange} />
+    );
+
+    await user.click(screen.getByRole('button', { name: /rate 5 stars/i }));
+    await user.type(screen.getByPlaceholderText(/short review/i), 'So good');
+    await user.click(screen.getByRole('button', { name: /save rating/i }));
+
+    expect(communityUtils.rateCommunityRecipe).toHaveBeenCalledWith(
+      recipeId,
+      { rating: 5, review: 'So good' },
+      { accessToken: 'token' }
+    );
+    await waitFor(() => {
+      expect(onRatingChange).toHaveBeenCalledWith(recipeId, { average: 4.5, count: 2 });
+    });
+    expect(screen.getByText(/4\.5 \(2 ratings\)/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /update rating/i })).toBeInTheDocument();
+  });
+
+  it('should prefill the signed-in user\'s existing rating', async () => {
+    render(<RecipeRatings recipeId={recipeId} currentUserId="other-user" />);
+
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText(/short review/i)).toHaveValue('Lovely and fresh');
+    });
+    expect(screen.getByRole('button', { name: /rate 4 stars/i })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: /update rating/i })).toBeInTheDocument();
+  });
+
+  it('should require a star rating before saving', async () => {
+    const user = userEvent.setup();
+    render(<RecipeRatings recipeId={recipeId} currentUserId="test-user" />);
+
+    await user.click(screen.getByRole('button', { name: /save rating/i }));
+
+    expect(screen.getByText(/pick a star rating/i)).toBeInTheDocument();
+    expect(communityUtils.rateCommunityRecipe).not.toHaveBeenCalled();
+  });
+
+  it('should show server validation messages', async () => {
+    const user = userEvent.setup();
+    vi.mocked(communityUtils.rateCommunityRecipe).mockRejectedValue(
+      new RecipeValidationError([{ field: 'review', message: 'Review must be 500 characters or less' }])
+    );
+    render(<RecipeRatings recipeId={recipeId} currentUserId="test-user" />);
+
+    await user.click(screen.getByRole('button', { name: /rate 3 stars/i }));
+    await user.click(screen.getByRole('button', { name: /save rating/i }));
+
+    expect(await screen.findByText('Review must be 500 characters or less')).toBeInTheDocument();
+  });
+});
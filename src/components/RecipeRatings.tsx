@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Star } from 'lucide-react';
+import { Textarea } from './ui/textarea';
+import { fetchRecipeRatings, rateCommunityRecipe } from '../utils/supabase/community';
+import { RecipeValidationError } from '../utils/supabase/errors';
+import { REVIEW_MAX_LENGTH, type RatingSummary, type RecipeRating } from '../utils/validation/ratingSchema';
+
+interface RecipeRatingsProps {
+  recipeId: string;
+  summary?: RatingSummary | null;
+  /** Signed-in user; rating is only offered when set */
+  currentUserId?: string | null;
+  accessToken?: string;
+  onRatingChange?: (recipeId: string, summary: RatingSummary) => void;
+}
+
+function Stars({ value, className = 'w-4 h-4' }: { value: number; className?: string }) {
+  return (
+    <span className="inline-flex" aria-label={`${value} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star
+          key={star}
+          className={`${className} ${star <= Math.round(value) ? 'fill-yellow-400 stroke-yellow-400' : 'stroke-gray-300'}`}
+        />
+      ))}
+    </span>
+  );
+}
+
+export function RecipeRatings({ recipeId, summary, currentUserId, accessToken, onRatingChange }: RecipeRatingsProps) {
+  const [ratings, setRatings] = useState<RecipeRating[]>([]);
+  const [currentSummary, setCurrentSummary] = useState<RatingSummary | null>(summary ?? null);
+  const [selectedRating, setSelectedRating] = useState(0);
+  const [review, setReview] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ownRating = currentUserId ? ratings.find((r) => r.userId === currentUserId) : undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRecipeRatings(recipeId)
+      .then(({ ratings: loaded, summary: loadedSummary }) => {
+        if (cancelled) return;
+        setRatings(loaded);
+        setCurrentSummary(loadedSummary);
+        const mine = currentUserId ? loaded.find((r) => r.userId === currentUserId) : undefined;
+        if (mine) {
+          setSelectedRating(mine.rating);
+          setReview(mine.review ?? '');
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading ratings:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [recipeId, currentUserId]);
+
+  const handleSave = async () => {
+    if (selectedRating === 0) {
+      setError('Pick a star rating first');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await rateCommunityRecipe(
+        recipeId,
+        { rating: selectedRating, review: review.trim() || undefined },
+        { accessToken }
+      );
+      setRatings((prev) => [saved.rating, ...prev.filter((r) => r.userId !== saved.rating.userId)]);
+      setCurrentSummary(saved.summary);
+      onRatingChange?.(recipeId, saved.summary);
+    } catch (err) {
+      if (err instanceof RecipeValidationError) {
+        setError(err.errors[0]?.message ?? 'Invalid rating');
+      } else {
+        console.error('Error saving rating:', err);
+        setError('Failed to save your rating. Please try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reviews = ratings.filter((r) => r.review);
+
+  return (
+    <div className="px-6 pb-6 pt-4 border-t border-gray-100" data-testid="recipe-ratings">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-gray-700">Ratings</h4>
+        {currentSummary && currentSummary.count > 0 ? (
+          <span className="flex items-center gap-1 text-sm text-gray-600">
+            <Stars value={currentSummary.average} />
+            <span>
+              {currentSummary.average.toFixed(1)} ({currentSummary.count} {currentSummary.count === 1 ? 'rating' : 'ratings'})
+            </span>
+          </span>
+        ) : (
+          <span className="text-sm text-gray-500">No ratings yet</span>
+        )}
+      </div>
+
+      {currentUserId ? (
+        <div className="space-y-2 mb-4">
+          <div className="flex items-center gap-1">
+            {[1, 2, 3, 4, 5].map((star) => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setSelectedRating(star)}
+                aria-label={`Rate ${star} ${star === 1 ? 'star' : 'stars'}`}
+                aria-pressed={selectedRating === star}
+                className="p-0.5"
+              >
+                <Star
+                  className={`w-6 h-6 transition-colors ${
+                    star <= selectedRating ? 'fill-yellow-400 stroke-yellow-400' : 'stroke-gray-300 hover:stroke-yellow-400'
+                  }`}
+                />
+              </button>
+            ))}
+          </div>
+          <Textarea
+            value={review}
+            onChange={(e) => setReview(e.target.value)}
+            placeholder="Add a short review (optional)"
+            maxLength={REVIEW_MAX_LENGTH}
+            rows={2}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-full shadow-md hover:shadow-lg transition-all disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : ownRating ? 'Update rating' : 'Save rating'}
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">Sign in to rate this recipe</p>
+      )}
+
+      {reviews.length > 0 && (
+        <ul className="space-y-3">
+          {reviews.map((r) => (
+            <li key={r.userId} className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-700">{r.author}</span>
+                <Stars value={r.rating} className="w-3 h-3" />
+              </div>
+              <p className="text-gray-600">{r.review}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { RecipeSearch } from './RecipeSearch';
+import * as communityUtils from '../utils/supabase/community';
+import { smoothieRecipes } from '../data/recipes';
+
+vi.mock('../utils/supabase/community', () => ({
+  searchCommunityRecipes: vi.fn(),
+}));
+
+describe('RecipeSearch', () => {
+  const mockOnOpenChange = vi.fn();
+  const mockOnSelectRecipe = vi.fn();
+  const communityRecipe = {
+    id: 'recipe:1762405222159:19kx5',
+    name: 'Mango Tango',
+    contributor: 'Test User',
+    emoji: '🥭',
+    color: '#FFA500',
+    ingredients: ['1 cup mango'],
+    instructions: 'Blend until smooth',
+    servings: 1,
+    prepTime: '5 min',
+    containsFat: false,
+    containsNuts: false,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // cmdk scrolls the selected item into view, which happy-dom doesn't implement
+    Element.prototype.scrollIntoView = vi.fn();
+  });
+
+  const renderSearch = () =>
+    render(
+      <RecipeSearch
+        open
+        onOpenChange={mockOnOpenChange}
+        recipes={smoothieRecipes}
+        onSelectRecipe={mockOnSelectRecipe}
+      />
+    );
+
+  it('should show results from the search endpoint', async () => {
+    const user = userEvent.setup();
+    vi.mocked(communityUtils.searchCommunityRecipes).mockResolvedValue([communityRecipe]);
+    renderSearch();
+
+    await user.type(screen.getByPlaceholderText(/search recipes/i), 'mango');
+
+    await waitFor(() => {
+      expect(screen.getByText('Mango Tango')).toBeInTheDocument();
+    });
+    expect(communityUtils.searchCommunityRecipes).toHaveBeenLastCalledWith('mango', expect.any(Object));
+  });
+
+  it('should select a result and close', async () => {
+    const user = userEvent.setup();
+    vi.mocked(communityUtils.searchCommunityRecipes).mockResolvedValue([communityRecipe]);
+    renderSearch();
+
+    await user.type(screen.getByPlaceholderText(/search recipes/i), 'mango');
+    await user.click(await screen.findByText('Mango Tango'));
+
+    expect(mockOnSelectRecipe).toHaveBeenCalledWith(communityRecipe);
+    expect(mockOnOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it('should show an empty state when nothing matches', async () => {
+    const user = userEvent.setup();
+    vi.mocked(communityUtils.searchCommunityRecipes).mockResolvedValue([]);
+    renderSearch();
+
+    await user.type(screen.getByPlaceholderText(/search recipes/i), 'pizza');
+
+    await waitFor(() => {
+      expect(screen.getByText(/no recipes found/i)).toBeInTheDocument();
+    });
+  });
+
+  it('should search the loaded recipes when the endpoint is unreachable', async () => {
+    const user = userEvent.setup();
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(communityUtils.searchCommunityRecipes).mockRejectedValue(new TypeError('Failed to fetch'));
+    renderSearch();
+
+    await user.type(screen.getByPlaceholderText(/search recipes/i), 'tropical');
+
+    await waitFor(() => {
+      expect(screen.getByText('Tropical Paradise')).toBeInTheDocument();
+    });
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from './ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { searchCommunityRecipes, type CommunityRecipe } from '../utils/supabase/community';
+import { searchRecipes } from '../utils/search/recipeSearch';
+import type { Recipe } from '../data/recipes';
+
+// Wait for a pause in typing before hitting the search endpoint
+const SEARCH_DEBOUNCE_MS = 200;
+
+interface RecipeSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Recipes already in the app, searched locally when the search endpoint can't be reached */
+  recipes: (Recipe | CommunityRecipe)[];
+  onSelectRecipe: (recipe: Recipe | CommunityRecipe) => void;
+}
+
+export function RecipeSearch({ open, onOpenChange, recipes, onSelectRecipe }: RecipeSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<(Recipe | CommunityRecipe)[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  // Read at search time so recipes loading in the background don't restart the search
+  const recipesRef = useRef(recipes);
+  useEffect(() => {
+    recipesRef.current = recipes;
+  }, [recipes]);
+
+  const trimmedQuery = query.trim();
+  const visibleResults = trimmedQuery ? results : [];
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setIsSearching(value.trim().length > 0);
+  };
+
+  useEffect(() => {
+    if (!trimmedQuery) return;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      try {
+        const found = await searchCommunityRecipes(trimmedQuery, { signal: controller.signal });
+        setResults(found);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        // Offline or function unavailable - search what we already have
+        console.error('Error searching recipes, searching locally:', error);
+        setResults(searchRecipes(recipesRef.current, trimmedQuery));
+      }
+      setIsSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [trimmedQuery]);
+
+  const handleSelect = (recipe: Recipe | CommunityRecipe) => {
+    onSelectRecipe(recipe);
+    onOpenChange(false);
+    handleQueryChange('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0">
+        <DialogTitle className="sr-only">Search recipes</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search by recipe name, ingredient, instructions or contributor
+        </DialogDescription>
+        {/* Results are already ranked by the server, so cmdk's own filtering is turned off */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={query}
+            onValueChange={handleQueryChange}
+            placeholder="Search recipes, ingredients, contributors..."
+          />
+          <CommandList>
+            {trimmedQuery && !isSearching && (
+              <CommandEmpty>No recipes found.</CommandEmpty>
+            )}
+            {isSearching && visibleResults.length === 0 && (
+              <div className="py-6 text-center text-sm text-gray-500">Searching...</div>
+            )}
+            {visibleResults.length > 0 && (
+              <CommandGroup heading="Recipes">
+                {visibleResults.map((recipe) => (
+                  <CommandItem
+                    key={recipe.id}
+                    value={String(recipe.id)}
+                    onSelect={() => handleSelect(recipe)}
+                  >
+                    <span className="text-xl">{recipe.emoji}</span>
+                    <div className="flex flex-col">
+                      <span className="font-medium">{recipe.name}</span>
+                      <span className="text-xs text-gray-500">by {recipe.contributor}</span>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
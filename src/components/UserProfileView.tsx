@@ -1,6 +1,9 @@
+import { useState } from 'react';
 import { motion } from 'motion/react';
-import { User, LogOut, Edit, Mail, BookOpen, Lock } from 'lucide-react';
+import { User, LogOut, Edit, Mail, BookOpen, Lock, Trash2, RotateCcw } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import type { CommunityRecipe } from '../utils/supabase/community';
+import { daysUntilPurge } from '../utils/history/recipeTrash';
 
 interface UserProfileViewProps {
   onEditNickname: () => void;
@@ -8,13 +11,35 @@ interface UserProfileViewProps {
   onSignOut: () => void;
   onViewMyRecipes: () => void;
   recipeCount?: number;
+  /** The user's recipes in the trash, newest first */
+  deletedRecipes?: CommunityRecipe[];
+  onRestoreRecipe?: (recipe: CommunityRecipe) => Promise<boolean>;
 }
 
-export function UserProfileView({ onEditNickname, onChangePassword, onSignOut, onViewMyRecipes, recipeCount = 0 }: UserProfileViewProps) {
+export function UserProfileView({
+  onEditNickname,
+  onChangePassword,
+  onSignOut,
+  onViewMyRecipes,
+  recipeCount = 0,
+  deletedRecipes = [],
+  onRestoreRecipe,
+}: UserProfileViewProps) {
   const { user, nickname } = useAuth();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [restoreFailed, setRestoreFailed] = useState(false);
 
   if (!user) return null;
 
+  const handleRestore = async (recipe: CommunityRecipe) => {
+    if (!onRestoreRecipe) return;
+    setRestoringId(recipe.id);
+    setRestoreFailed(false);
+    const success = await onRestoreRecipe(recipe);
+    setRestoringId(null);
+    setRestoreFailed(!success);
+  };
+
   return (
     <motion.div
       initial={{ scale: 0.8, opacity: 0, rotateY: 90 }}
@@ -87,6 +112,45 @@ export function UserProfileView({ onEditNickname, onChangePassword, onSignOut, o
               </motion.button>
             </div>
           </div>
+
+          {deletedRecipes.length > 0 && (
+            <div data-testid="recently-deleted">
+              <h4 className="text-gray-700 mb-3 font-semibold flex items-center gap-2">
+                <Trash2 className="w-4 h-4" />
+                Recently deleted
+              </h4>
+              <ul className="space-y-2">
+                {deletedRecipes.map((recipe) => {
+                  const daysLeft = recipe.deletedAt ? daysUntilPurge(recipe.deletedAt) : 0;
+                  return (
+                    <li key={recipe.id} className="flex items-center justify-between gap-2 bg-gray-50 p-3 rounded-lg">
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-800 truncate">
+                          {recipe.emoji} {recipe.name}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {daysLeft} {daysLeft === 1 ? 'day' : 'days'} left
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(recipe)}
+                        disabled={restoringId === recipe.id}
+                        className="flex items-center gap-1 px-3 py-1 text-sm text-purple-600 bg-white rounded-full shadow-sm hover:shadow-md transition-all disabled:opacity-50"
+                        aria-label={`Restore ${recipe.name}`}
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        {restoringId === recipe.id ? 'Restoring...' : 'Restore'}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              {restoreFailed && (
+                <p className="text-sm text-red-600 mt-2">Couldn&apos;t restore the recipe. Please try again.</p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Actions */}
@@ -4,6 +4,8 @@ import userEvent from '@testing-library/user-event';
 import type { Session } from '@jsr/supabase__supabase-js';
 import { AuthProvider, useAuth } from './AuthContext';
 import { supabase } from '../utils/supabase/client';
+import { checkNicknameAvailability, claimNickname, fetchPublicProfile, releaseNickname } from '../utils/supabase/profile';
+import { NicknameUnavailableError } from '../utils/supabase/errors';
 
 // Mock Supabase client
 vi.mock('../utils/supabase/client', () => ({
@@ -20,6 +22,23 @@ vi.mock('../utils/supabase/client', () => ({
   },
 }));
 
+vi.mock('../utils/supabase/profile', () => ({
+  checkNicknameAvailability: vi.fn().mockResolvedValue({ nickname: 'TestUser', available: true }),
+  claimNickname: vi.fn().mockImplementation(async (nickname: string) => nickname),
+  fetchPublicProfile: vi.fn().mockResolvedValue(null),
+  releaseNickname: vi.fn().mockResolvedValue(undefined),
+}));
+
+// The registry's record of test-user-id
+const profileWith = (nickname: string) => ({
+  userId: 'test-user-id',
+  nickname,
+  bio: '',
+  avatarUrl: null,
+  joinedAt: '2024-01-01T00:00:00.000Z',
+  recipeCount: 0,
+});
+
 // Test component that uses the auth hook
 function TestComponent() {
   const { user, session, loading, nickname, signIn, signUp, signOut, updateNickname, changePassword } = useAuth();
@@ -124,17 +143,19 @@ describe('AuthContext', () => {
     });
   });
 
-  it('should extract nickname from user metadata', async () => {
+  it('should show the nickname the user holds in the registry', async () => {
     const mockUser = {
       id: 'test-user-id',
       email: 'test@example.com',
-      user_metadata: { nickname: 'ExtractedNickname' },
+      user_metadata: { nickname: 'MetadataNickname' },
     } as unknown as { id: string; email: string; user_metadata: Record<string, unknown> };
+    vi.mocked(fetchPublicProfile).mockResolvedValueOnce(profileWith('RegisteredNickname'));
 
     vi.mocked(supabase.auth.getSession).mockResolvedValue({
       data: {
         session: {
           user: mockUser,
+          access_token: 'token',
         } as unknown as Session,
       },
       error: null,
@@ -147,8 +168,40 @@ describe('AuthContext', () => {
     );
 
     await waitFor(() => {
-      expect(screen.getByTestId('nickname')).toHaveTextContent('ExtractedNickname');
+      expect(screen.getByTestId('nickname')).toHaveTextContent('RegisteredNickname');
+    });
+    expect(fetchPublicProfile).toHaveBeenCalledWith('test-user-id', { accessToken: 'token' });
+    expect(claimNickname).not.toHaveBeenCalled();
+  });
+
+  it('should clear a nickname from sign-up that someone else holds', async () => {
+    const mockUser = {
+      id: 'test-user-id',
+      email: 'test@example.com',
+      user_metadata: { nickname: 'TakenNickname' },
+    } as unknown as { id: string; email: string; user_metadata: Record<string, unknown> };
+    vi.mocked(claimNickname).mockRejectedValueOnce(new NicknameUnavailableError('That nickname is taken', 'taken'));
+    vi.mocked(supabase.auth.updateUser).mockResolvedValue({
+      data: { user: { ...mockUser, user_metadata: {} } },
+      error: null,
+    } as unknown as Awaited<ReturnType<typeof supabase.auth.updateUser>>);
+
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: { session: { user: mockUser, access_token: 'token' } as unknown as Session },
+      error: null,
+    });
+
+    render(
+      <AuthProvider>
+        <TestComponent />
+      </AuthProvider>
+    );
+
+    await waitFor(() => {
+      expect(supabase.auth.updateUser).toHaveBeenCalledWith({ data: { nickname: null } });
     });
+    expect(claimNickname).toHaveBeenCalledWith('TakenNickname', { accessToken: 'token' });
+    expect(screen.getByTestId('nickname')).toHaveTextContent('no-nickname');
   });
 
   it('should set nickname to null when user has no nickname in metadata', async () => {
@@ -389,6 +442,55 @@ describe('AuthContext', () => {
     });
   });
 
+  it('should not sign up with a taken nickname', async () => {
+    const user = userEvent.setup();
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: { session: null },
+      error: null,
+    });
+    vi.mocked(checkNicknameAvailability).mockResolvedValueOnce({
+      nickname: 'TestUser',
+      available: false,
+      reason: 'taken',
+      message: 'That nickname is taken',
+    });
+
+    render(
+      <AuthProvider>
+        <TestComponent />
+      </AuthProvider>
+    );
+
+    await user.click(screen.getByText('Sign Up'));
+
+    await waitFor(() => {
+      expect(checkNicknameAvailability).toHaveBeenCalledWith('TestUser');
+    });
+    expect(supabase.auth.signUp).not.toHaveBeenCalled();
+  });
+
+  it('should not sign up when the nickname cannot be checked', async () => {
+    const user = userEvent.setup();
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: { session: null },
+      error: null,
+    });
+    vi.mocked(checkNicknameAvailability).mockRejectedValueOnce(new Error('Failed to check nickname: 500'));
+
+    render(
+      <AuthProvider>
+        <TestComponent />
+      </AuthProvider>
+    );
+
+    await user.click(screen.getByText('Sign Up'));
+
+    await waitFor(() => {
+      expect(checkNicknameAvailability).toHaveBeenCalledWith('TestUser');
+    });
+    expect(supabase.auth.signUp).not.toHaveBeenCalled();
+  });
+
   it('should trim nickname when signing up', async () => {
     const user = userEvent.setup();
     vi.mocked(supabase.auth.getSession).mockResolvedValue({
@@ -516,6 +618,108 @@ describe('AuthContext', () => {
     });
   });
 
+  it('should claim the nickname before saving it', async () => {
+    const user = userEvent.setup();
+    const mockUser = {
+      id: 'test-user-id',
+      email: 'test@example.com',
+      user_metadata: { nickname: 'OldNickname' },
+    } as unknown as { id: string; email: string; user_metadata: Record<string, unknown> };
+
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: { session: { user: mockUser, access_token: 'token' } as unknown as Session },
+      error: null,
+    });
+    vi.mocked(fetchPublicProfile).mockResolvedValueOnce(profileWith('OldNickname'));
+    vi.mocked(claimNickname).mockRejectedValueOnce(new NicknameUnavailableError('That nickname is taken', 'taken'));
+
+    render(
+      <AuthProvider>
+        <TestComponent />
+      </AuthProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('nickname')).toHaveTextContent('OldNickname');
+    });
+    await user.click(screen.getByText('Update Nickname'));
+
+    await waitFor(() => {
+      expect(claimNickname).toHaveBeenCalledWith('NewNickname', { accessToken: 'token' });
+    });
+    expect(supabase.auth.updateUser).not.toHaveBeenCalled();
+    expect(screen.getByTestId('nickname')).toHaveTextContent('OldNickname');
+  });
+
+  it('should take the previous nickname back when saving fails', async () => {
+    const user = userEvent.setup();
+    const mockUser = {
+      id: 'test-user-id',
+      email: 'test@example.com',
+      user_metadata: { nickname: 'OldNickname' },
+    } as unknown as { id: string; email: string; user_metadata: Record<string, unknown> };
+
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: { session: { user: mockUser, access_token: 'token' } as unknown as Session },
+      error: null,
+    });
+    vi.mocked(supabase.auth.updateUser).mockResolvedValue({
+      data: { user: null },
+      error: { message: 'Network error', name: 'AuthError', status: 500 },
+    } as unknown as Awaited<ReturnType<typeof supabase.auth.updateUser>>);
+
+    render(
+      <AuthProvider>
+        <TestComponent />
+      </AuthProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('nickname')).toHaveTextContent('OldNickname');
+    });
+    await user.click(screen.getByText('Update Nickname'));
+
+    await waitFor(() => {
+      expect(claimNickname).toHaveBeenLastCalledWith('OldNickname', { accessToken: 'token' });
+    });
+    expect(releaseNickname).not.toHaveBeenCalled();
+  });
+
+  it('should register the nickname when a user signs in', async () => {
+    vi.mocked(supabase.auth.getSession).mockResolvedValue({
+      data: { session: null },
+      error: null,
+    });
+
+    let authStateChangeCallback: ((event: string, session: Session | null) => void) | null = null;
+    vi.mocked(supabase.auth.onAuthStateChange).mockImplementation((callback) => {
+      authStateChangeCallback = callback as (event: string, session: Session | null) => void;
+      return {
+        data: { subscription: mockSubscription },
+      } as unknown as { data: { subscription: { unsubscribe: () => void } } };
+    });
+
+    render(
+      <AuthProvider>
+        <TestComponent />
+      </AuthProvider>
+    );
+
+    const session = {
+      user: { id: 'test-user-id', email: 'test@example.com', user_metadata: { nickname: 'NewUser' } },
+      access_token: 'token',
+    } as unknown as Session;
+    act(() => {
+      authStateChangeCallback?.('SIGNED_IN', session);
+      authStateChangeCallback?.('SIGNED_IN', session);
+    });
+
+    await waitFor(() => {
+      expect(claimNickname).toHaveBeenCalledWith('NewUser', { accessToken: 'token' });
+    });
+    expect(claimNickname).toHaveBeenCalledTimes(1);
+  });
+
   it('should return error when updateNickname is called without user', async () => {
     const user = userEvent.setup();
     vi.mocked(supabase.auth.getSession).mockResolvedValue({
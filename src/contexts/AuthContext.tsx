@@ -1,6 +1,8 @@
-import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
 import type { User, Session } from '@jsr/supabase__supabase-js';
 import { supabase } from '../utils/supabase/client';
+import { checkNicknameAvailability, claimNickname, fetchPublicProfile, releaseNickname } from '../utils/supabase/profile';
+import { NicknameUnavailableError } from '../utils/supabase/errors';
 
 interface AuthContextType {
   user: User | null;
@@ -21,12 +23,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [nickname, setNickname] = useState<string | null>(null);
+  // `<userId>:<nickname>` last asked of the registry, so each session syncs it once
+  const syncedNickname = useRef<string | null>(null);
+  // The user whose session is showing, so a lookup that finishes after they sign out is dropped
+  const currentUserId = useRef<string | null>(null);
 
-  const updateNicknameFromUser = (userData: User | null) => {
-    if (userData?.user_metadata?.nickname) {
-      setNickname(userData.user_metadata.nickname);
-    } else {
+  // The nickname is the one the user holds in the registry. The one in user_metadata is only a request: it's
+  // claimed here the first time they have a session, and cleared if someone else holds it.
+  const syncNickname = async (session: Session | null) => {
+    const userId = session?.user?.id ?? null;
+    currentUserId.current = userId;
+    const requested = session?.user?.user_metadata?.nickname as string | undefined;
+    const sync = `${userId}:${requested}`;
+    if (!session || !userId) {
+      syncedNickname.current = null;
       setNickname(null);
+      return;
+    }
+    if (syncedNickname.current === sync) return;
+    syncedNickname.current = sync;
+
+    const accessToken = session.access_token;
+    const showIfCurrent = (value: string | null) => {
+      if (currentUserId.current === userId) setNickname(value);
+    };
+    try {
+      const registered = (await fetchPublicProfile(userId, { accessToken }))?.nickname ?? null;
+      if (registered || !requested) {
+        showIfCurrent(registered);
+        return;
+      }
+      showIfCurrent(await claimNickname(requested, { accessToken }));
+    } catch (error) {
+      if (error instanceof NicknameUnavailableError) {
+        await supabase.auth.updateUser({ data: { nickname: null } });
+        showIfCurrent(null);
+        return;
+      }
+      // Try again with the next session event
+      syncedNickname.current = null;
+      console.warn('Could not load nickname:', error);
     }
   };
 
@@ -35,8 +71,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      updateNicknameFromUser(session?.user ?? null);
       setLoading(false);
+      void syncNickname(session);
     });
 
     // Listen for auth changes
@@ -45,8 +81,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } = supabase.auth.onAuthStateChange((_event, session) => {
       setSession(session);
       setUser(session?.user ?? null);
-      updateNicknameFromUser(session?.user ?? null);
       setLoading(false);
+      void syncNickname(session);
     });
 
     return () => subscription.unsubscribe();
@@ -76,6 +112,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signUp = async (email: string, password: string, nickname: string) => {
     try {
+      // The account can't claim it until it has a session, so don't sign up with a name that can't be had
+      const availability = await checkNicknameAvailability(nickname.trim()).catch(() => null);
+      if (!availability) {
+        return { error: new Error('Could not check that nickname is available. Please try again.') };
+      }
+      if (!availability.available) {
+        return { error: new Error(availability.message ?? 'That nickname is not available') };
+      }
+
       const { error } = await supabase.auth.signUp({
         email,
         password,
@@ -103,23 +148,40 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const updateNickname = async (newNickname: string) => {
     if (!user) return { error: new Error('Not authenticated') };
-    
+
+    const trimmed = newNickname.trim();
+    const previousNickname = nickname;
+    const accessToken = session?.access_token;
+
+    // Claim first: the registry is what makes the nickname unique
+    try {
+      await claimNickname(trimmed, { accessToken });
+    } catch (err) {
+      return { error: err instanceof Error ? err : new Error('Failed to claim nickname') };
+    }
+
     const { error } = await supabase.auth.updateUser({
       data: {
-        nickname: newNickname.trim(),
+        nickname: trimmed,
       },
     });
-    
-    if (!error) {
-      // Update local state
-      setNickname(newNickname.trim());
-      // Refresh user data
-      const { data: { user: updatedUser } } = await supabase.auth.getUser();
-      if (updatedUser) {
-        setUser(updatedUser);
-      }
+
+    if (error) {
+      // Give the new nickname back and take the old one again
+      const rollback = previousNickname ? claimNickname(previousNickname, { accessToken }) : releaseNickname({ accessToken });
+      await rollback.catch((rollbackError) => console.warn('Could not restore previous nickname:', rollbackError));
+      return { error };
     }
-    
+
+    // Update local state
+    setNickname(trimmed);
+    syncedNickname.current = `${user.id}:${trimmed}`;
+    // Refresh user data
+    const { data: { user: updatedUser } } = await supabase.auth.getUser();
+    if (updatedUser) {
+      setUser(updatedUser);
+    }
+
     return { error };
   };
 
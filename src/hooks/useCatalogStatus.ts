@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import type { CatalogMessage } from '../serviceWorker/messages';
+
+/**
+ * Whether the community catalog can't be refreshed right now, and a revision that goes up whenever it should be
+ * loaded again: when the connection comes back, or when the service worker finds the copy it served out of date.
+ */
+export function useCatalogStatus() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  // The browser can think it's online on Wi-Fi that goes nowhere; the service worker knows better
+  const [unreachable, setUnreachable] = useState(false);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      setRevision((r) => r + 1);
+    };
+    const handleOffline = () => setOnline(false);
+    const handleMessage = (event: MessageEvent<CatalogMessage>) => {
+      if (event.data?.type !== 'catalog') return;
+      setUnreachable(event.data.status === 'unreachable');
+      if (event.data.status === 'updated') {
+        setRevision((r) => r + 1);
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, []);
+
+  return { offline: !online || unreachable, revision };
+}
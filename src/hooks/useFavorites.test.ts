@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useFavorites } from './useFavorites';
+import { fetchFavorites, mergeFavorites, saveFavorite } from '../utils/supabase/favorites';
+import { pendingFavoriteChanges } from '../utils/favorites/favoritesQueue';
+import { rememberSyncedRecipe } from '../utils/localRecipes/recipeIdMap';
+
+vi.mock('../utils/supabase/favorites', () => ({
+  fetchFavorites: vi.fn(),
+  mergeFavorites: vi.fn(),
+  saveFavorite: vi.fn(),
+}));
+
+describe('useFavorites', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(fetchFavorites).mockResolvedValue([]);
+    vi.mocked(mergeFavorites).mockImplementation(async (recipeIds) => recipeIds);
+    vi.mocked(saveFavorite).mockResolvedValue(undefined);
+  });
+
+  it('should keep favorites in localStorage only while signed out', () => {
+    const { result } = renderHook(() => useFavorites(null));
+
+    act(() => result.current.toggleFavorite('recipe:1:a'));
+
+    expect(result.current.favorites.has('recipe:1:a')).toBe(true);
+    expect(JSON.parse(localStorage.getItem('smoothie-favorites')!)).toEqual(['recipe:1:a']);
+    expect(saveFavorite).not.toHaveBeenCalled();
+  });
+
+  it('should merge this device\'s favorites into the account on sign-in', async () => {
+    localStorage.setItem('smoothie-favorites', JSON.stringify(['recipe:1:a']));
+    vi.mocked(mergeFavorites).mockResolvedValue(['recipe:9:z', 'recipe:1:a']);
+
+    const { result } = renderHook(() => useFavorites('user-1', 'token'));
+
+    await waitFor(() => {
+      expect(result.current.favorites).toEqual(new Set(['recipe:9:z', 'recipe:1:a']));
+    });
+    expect(mergeFavorites).toHaveBeenCalledWith(['recipe:1:a'], { accessToken: 'token' });
+  });
+
+  it('should take the server\'s favorites once this device is synced with the account', async () => {
+    localStorage.setItem('smoothie-favorites', JSON.stringify(['recipe:1:a']));
+    localStorage.setItem('smoothie-favorites-owner', 'user-1');
+    vi.mocked(fetchFavorites).mockResolvedValue(['recipe:2:b']);
+
+    const { result } = renderHook(() => useFavorites('user-1', 'token'));
+
+    await waitFor(() => {
+      expect(result.current.favorites).toEqual(new Set(['recipe:2:b']));
+    });
+    expect(mergeFavorites).not.toHaveBeenCalled();
+  });
+
+  it('should clear the account\'s favorites from the device on sign-out', async () => {
+    vi.mocked(mergeFavorites).mockResolvedValue(['recipe:2:b']);
+    const { result, rerender } = renderHook(({ userId }) => useFavorites(userId, 'token'), {
+      initialProps: { userId: 'user-1' as string | null },
+    });
+    await waitFor(() => expect(result.current.favorites).toEqual(new Set(['recipe:2:b'])));
+
+    rerender({ userId: null });
+
+    expect(result.current.favorites).toEqual(new Set());
+    expect(JSON.parse(localStorage.getItem('smoothie-favorites')!)).toEqual([]);
+    expect(localStorage.getItem('smoothie-favorites-owner')).toBeNull();
+  });
+
+  it('should keep the account\'s favorites while the session is loading', () => {
+    localStorage.setItem('smoothie-favorites', JSON.stringify(['recipe:1:a']));
+    localStorage.setItem('smoothie-favorites-owner', 'user-1');
+
+    const { result } = renderHook(() => useFavorites(undefined));
+
+    expect(result.current.favorites).toEqual(new Set(['recipe:1:a']));
+    expect(localStorage.getItem('smoothie-favorites-owner')).toBe('user-1');
+  });
+
+  it('should only merge favorites picked while signed out into the next account', async () => {
+    localStorage.setItem('smoothie-favorites', JSON.stringify(['recipe:1:a']));
+    localStorage.setItem('smoothie-favorites-owner', 'user-1');
+    const { result, rerender } = renderHook(({ userId }) => useFavorites(userId, 'token'), {
+      initialProps: { userId: null as string | null },
+    });
+
+    act(() => result.current.toggleFavorite('recipe:3:c'));
+    rerender({ userId: 'user-2' });
+
+    await waitFor(() => expect(mergeFavorites).toHaveBeenCalledWith(['recipe:3:c'], { accessToken: 'token' }));
+    expect(fetchFavorites).not.toHaveBeenCalled();
+  });
+
+  it('should not merge another account\'s favorites when the session switches accounts', async () => {
+    localStorage.setItem('smoothie-favorites', JSON.stringify(['recipe:1:a']));
+    localStorage.setItem('smoothie-favorites-owner', 'user-1');
+    vi.mocked(fetchFavorites).mockResolvedValue(['recipe:2:b']);
+
+    const { result } = renderHook(() => useFavorites('user-2', 'token'));
+
+    await waitFor(() => expect(result.current.favorites).toEqual(new Set(['recipe:2:b'])));
+    expect(mergeFavorites).not.toHaveBeenCalled();
+    expect(localStorage.getItem('smoothie-favorites-owner')).toBe('user-2');
+  });
+
+  it('should queue toggles that fail and send them when back online', async () => {
+    localStorage.setItem('smoothie-favorites-owner', 'user-1');
+    const { result } = renderHook(() => useFavorites('user-1', 'token'));
+    await waitFor(() => expect(fetchFavorites).toHaveBeenCalled());
+
+    vi.mocked(saveFavorite).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    act(() => result.current.toggleFavorite('recipe:1:a'));
+
+    await waitFor(() => expect(saveFavorite).toHaveBeenCalledTimes(1));
+    expect(result.current.favorites.has('recipe:1:a')).toBe(true);
+    expect(pendingFavoriteChanges('user-1')).toHaveLength(1);
+
+    vi.mocked(fetchFavorites).mockResolvedValue(['recipe:1:a']);
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    await waitFor(() => expect(pendingFavoriteChanges('user-1')).toHaveLength(0));
+    expect(saveFavorite).toHaveBeenLastCalledWith('recipe:1:a', true, { accessToken: 'token' });
+    expect(result.current.favorites.has('recipe:1:a')).toBe(true);
+  });
+
+  it('should move a favorite to the server id of a synced local recipe', async () => {
+    localStorage.setItem('smoothie-favorites', JSON.stringify(['user-1700000000000']));
+    const { result } = renderHook(() => useFavorites(null));
+
+    act(() => result.current.replaceFavorite('user-1700000000000', 'recipe:1700000000500:abcde'));
+    act(() => result.current.replaceFavorite('user-1800000000000', 'recipe:1800000000500:fghij'));
+
+    expect(result.current.favorites).toEqual(new Set(['recipe:1700000000500:abcde']));
+  });
+
+  it('should read favorites saved under a synced local id under its server id', () => {
+    localStorage.setItem('smoothie-favorites', JSON.stringify(['user-1700000000000', 3]));
+    rememberSyncedRecipe('user-1700000000000', 'recipe:1700000000500:abcde');
+
+    const { result } = renderHook(() => useFavorites(null));
+
+    expect(result.current.favorites).toEqual(new Set(['recipe:1700000000500:abcde', 3]));
+  });
+});
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchFavorites, mergeFavorites, saveFavorite, type FavoriteId } from '../utils/supabase/favorites';
+import { applyFavoriteChanges, flushFavoriteChanges, pendingFavoriteChanges, queueFavoriteChange } from '../utils/favorites/favoritesQueue';
+import { resolveRecipeIds } from '../utils/localRecipes/recipeIdMap';
+
+const FAVORITES_KEY = 'smoothie-favorites';
+// The user whose server favorites the local set holds. Unset, the set is what was picked while signed out,
+// which the next sign-in merges into the account; set, it's only ever replaced with the account's own.
+const FAVORITES_OWNER_KEY = 'smoothie-favorites-owner';
+
+// Favorites of local recipes that have synced since are read under the recipe's server id
+const loadFavorites = (): Set<FavoriteId> => {
+  const saved = localStorage.getItem(FAVORITES_KEY);
+  return saved ? resolveRecipeIds<FavoriteId>(JSON.parse(saved)) : new Set();
+};
+
+// Signed out, with an account's favorites still on the device: they're cleared
+const isSignedOutOwner = (userId: string | null | undefined): boolean =>
+  userId === null && localStorage.getItem(FAVORITES_OWNER_KEY) !== null;
+
+/**
+ * The favorites shown on this device. Signed out they only live in localStorage; signed in they're synced
+ * with the server function: merged on sign-in, refreshed when the connection comes back, and each toggle
+ * queued until the server has it. Signing out clears the account's favorites from the device.
+ *
+ * `userId` is undefined while the session is still loading, so a returning user's favorites aren't cleared.
+ */
+export function useFavorites(userId: string | null | undefined, accessToken?: string) {
+  const [favorites, setFavorites] = useState<Set<FavoriteId>>(() => (isSignedOutOwner(userId) ? new Set() : loadFavorites()));
+  const [previousUserId, setPreviousUserId] = useState(userId);
+  if (userId !== previousUserId) {
+    setPreviousUserId(userId);
+    if (isSignedOutOwner(userId)) setFavorites(new Set());
+  }
+  const favoritesRef = useRef(favorites);
+  const accessTokenRef = useRef(accessToken);
+  // Flushes run one after another so a favorite and its unfavorite can't reach the server out of order
+  const flushChain = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => {
+    favoritesRef.current = favorites;
+    localStorage.setItem(FAVORITES_KEY, JSON.stringify(Array.from(favorites)));
+    if (userId === null) localStorage.removeItem(FAVORITES_OWNER_KEY);
+  }, [favorites, userId]);
+
+  useEffect(() => {
+    accessTokenRef.current = accessToken;
+  }, [accessToken]);
+
+  const flush = useCallback((forUserId: string): Promise<boolean> => {
+    const run = flushChain.current.then(() =>
+      flushFavoriteChanges(forUserId, (change) =>
+        saveFavorite(change.recipeId, change.favorite, { accessToken: accessTokenRef.current })
+      )
+    );
+    flushChain.current = run;
+    return run;
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    const sync = async () => {
+      await flush(userId);
+      const options = { accessToken: accessTokenRef.current };
+      // If the session switched accounts without signing out, the last account's favorites aren't merged
+      const recipeIds = localStorage.getItem(FAVORITES_OWNER_KEY)
+        ? await fetchFavorites(options)
+        : await mergeFavorites(Array.from(loadFavorites()), options);
+      if (cancelled) return;
+      localStorage.setItem(FAVORITES_OWNER_KEY, userId);
+      // Anything still queued hasn't reached the server yet, so it isn't in its answer
+      setFavorites(resolveRecipeIds(applyFavoriteChanges(recipeIds, pendingFavoriteChanges(userId))));
+    };
+    const syncInBackground = () => {
+      sync().catch((error) => console.warn('Could not sync favorites:', error));
+    };
+
+    syncInBackground();
+    window.addEventListener('online', syncInBackground);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', syncInBackground);
+    };
+  }, [userId, flush]);
+
+  const setFavorite = useCallback(
+    (recipeId: FavoriteId, favorite: boolean) => {
+      setFavorites((prev) => {
+        const next = new Set(prev);
+        if (favorite) {
+          next.add(recipeId);
+        } else {
+          next.delete(recipeId);
+        }
+        return next;
+      });
+      if (!userId) return;
+      queueFavoriteChange({ userId, recipeId, favorite });
+      // Whatever fails stays queued for the next sync
+      void flush(userId);
+    },
+    [userId, flush]
+  );
+
+  const toggleFavorite = (recipeId: FavoriteId) => setFavorite(recipeId, !favorites.has(recipeId));
+
+  // Move a favorite to a recipe's new id, e.g. when a local recipe syncs to the community
+  const replaceFavorite = useCallback(
+    (fromId: FavoriteId, toId: FavoriteId) => {
+      if (!favoritesRef.current.has(fromId)) return;
+      setFavorite(fromId, false);
+      setFavorite(toId, true);
+    },
+    [setFavorite]
+  );
+
+  return { favorites, setFavorite, toggleFavorite, replaceFavorite };
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useLocalRecipes } from './useLocalRecipes';
+import { deleteCommunityRecipe, submitCommunityRecipe } from '../utils/supabase/community';
+import { RecipeValidationError } from '../utils/supabase/errors';
+import type { LocalRecipe } from '../utils/localRecipes/localRecipes';
+
+vi.mock('../utils/supabase/community', () => ({
+  submitCommunityRecipe: vi.fn(),
+  updateCommunityRecipe: vi.fn(),
+  deleteCommunityRecipe: vi.fn(),
+}));
+
+const localRecipe: LocalRecipe = {
+  id: 'user-1700000000000',
+  name: 'Offline Smoothie',
+  contributor: 'Sam',
+  emoji: '🥤',
+  color: '#9333EA',
+  ingredients: ['1 banana'],
+  instructions: 'Blend everything together',
+  servings: 1,
+  prepTime: '5 min',
+  containsFat: false,
+  containsNuts: false,
+  clientKey: 'client-key',
+  authorId: 'user-1',
+};
+
+describe('useLocalRecipes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should keep a recipe saved offline and submit it when the connection is back', async () => {
+    const onCreated = vi.fn();
+    vi.mocked(submitCommunityRecipe).mockRejectedValue(new TypeError('Failed to fetch'));
+    const { result } = renderHook(() => useLocalRecipes('user-1', 'token', { onCreated }));
+
+    await act(() => result.current.saveLocalRecipe(localRecipe, new TypeError('Failed to fetch')));
+
+    expect(result.current.localRecipes).toEqual([localRecipe]);
+    expect(result.current.syncStatus.get(localRecipe.id)).toBe('pending');
+    expect(result.current.syncError).toBeNull();
+
+    const created = { ...localRecipe, id: 'recipe:1700000000500:abcde' };
+    vi.mocked(submitCommunityRecipe).mockResolvedValue(created);
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    await waitFor(() => expect(result.current.localRecipes).toEqual([]));
+    expect(submitCommunityRecipe).toHaveBeenLastCalledWith(
+      expect.not.objectContaining({ id: expect.anything() }),
+      { accessToken: 'token', idempotencyKey: 'client-key' }
+    );
+    expect(onCreated).toHaveBeenCalledWith(localRecipe.id, created);
+    expect(result.current.syncStatus.size).toBe(0);
+  });
+
+  it('should delete the community copy of a recipe deleted while it was being sent', async () => {
+    const onCreated = vi.fn();
+    const created = { ...localRecipe, id: 'recipe:1700000000500:abcde' };
+    let respond: (recipe: typeof created) => void = () => {};
+    vi.mocked(submitCommunityRecipe).mockReturnValue(new Promise((resolve) => (respond = resolve)));
+    vi.mocked(deleteCommunityRecipe).mockResolvedValue(undefined);
+    const { result } = renderHook(() => useLocalRecipes('user-1', 'token', { onCreated }));
+
+    await act(() => result.current.saveLocalRecipe(localRecipe));
+    await waitFor(() => expect(submitCommunityRecipe).toHaveBeenCalled());
+    await act(() => result.current.removeLocalRecipe(localRecipe.id));
+    await act(async () => respond(created));
+
+    await waitFor(() => expect(deleteCommunityRecipe).toHaveBeenCalledWith(created.id, { accessToken: 'token' }));
+    expect(onCreated).not.toHaveBeenCalled();
+    expect(result.current.localRecipes).toEqual([]);
+    await waitFor(() => expect(result.current.syncStatus.size).toBe(0));
+  });
+
+  it('should report changes the server refused until they are taken back', async () => {
+    const refused = new Error('Failed to delete recipe: 403');
+    vi.mocked(deleteCommunityRecipe).mockRejectedValue(refused);
+    const { result } = renderHook(() => useLocalRecipes('user-1', 'token'));
+
+    await act(() => result.current.queueRecipeDelete('recipe:1:a', refused));
+    expect(result.current.syncStatus.get('recipe:1:a')).toBe('failed: Failed to delete recipe: 403');
+    expect(result.current.syncError).toBe("A delete couldn't be synced: Failed to delete recipe: 403");
+
+    await act(() => result.current.cancelQueuedChange('recipe:1:a'));
+    expect(result.current.syncError).toBeNull();
+  });
+
+  it('should keep a recipe the server refused on this device once its failure is dismissed', async () => {
+    vi.mocked(submitCommunityRecipe).mockRejectedValue(
+      new RecipeValidationError([{ field: 'instructions', message: 'Instructions are too short' }])
+    );
+    const { result } = renderHook(() => useLocalRecipes('user-1', 'token'));
+
+    await act(() => result.current.saveLocalRecipe(localRecipe));
+    await waitFor(() =>
+      expect(result.current.syncError).toBe("A recipe saved offline couldn't be synced: Instructions are too short")
+    );
+
+    await act(() => result.current.dismissFailedChanges());
+
+    expect(result.current.syncError).toBeNull();
+    expect(result.current.syncStatus.size).toBe(0);
+    expect(result.current.localRecipes).toEqual([localRecipe]);
+  });
+
+  it('should not send anything while signed out', async () => {
+    const { result } = renderHook(() => useLocalRecipes(null, undefined));
+
+    await act(() => result.current.saveLocalRecipe({ ...localRecipe, authorId: undefined }));
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+
+    expect(result.current.syncStatus.get(localRecipe.id)).toBe('pending');
+    expect(submitCommunityRecipe).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { deleteCommunityRecipe, submitCommunityRecipe, updateCommunityRecipe, type CommunityRecipe } from '../utils/supabase/community';
+import { openOfflineDb } from '../utils/localRecipes/offlineDb';
+import { importLegacyRecipes, loadLocalRecipes, recipeBodyOf, type LocalRecipe } from '../utils/localRecipes/localRecipes';
+import {
+  cancelOperation,
+  nextReplayAt,
+  outboxStatusOf,
+  queueOperation,
+  replayOutbox,
+  type OutboxItem,
+  type OutboxStatus,
+  type RecipeBody,
+} from '../utils/localRecipes/outbox';
+
+export interface LocalRecipesCallbacks {
+  /** A recipe saved offline made it to the server as `created` */
+  onCreated?: (localId: string, created: CommunityRecipe) => void;
+  /** A queued edit was saved */
+  onUpdated?: (updated: CommunityRecipe) => void;
+}
+
+const describeFailures = (failed: OutboxItem[]): string | null => {
+  if (failed.length === 0) return null;
+  if (failed.length > 1) return `${failed.length} changes couldn't be synced`;
+  const [item] = failed;
+  const what = { create: 'A recipe saved offline', update: 'An edit', delete: 'A delete' }[item.kind];
+  return `${what} couldn't be synced: ${item.failure?.reason}`;
+};
+
+/**
+ * Recipes saved on this device and the outbox of changes waiting for the server. The outbox is replayed when
+ * the app starts, when the connection comes back, and after each failure once its backoff is up, but only
+ * while signed in: changes go out under the session of the user who made them.
+ */
+export function useLocalRecipes(userId: string | null, accessToken: string | undefined, callbacks: LocalRecipesCallbacks = {}) {
+  const [db] = useState(openOfflineDb);
+  // Everything else waits for recipes from before the offline store to be moved into it
+  const [ready] = useState(() =>
+    importLegacyRecipes(db).catch((error) => console.warn('Could not import offline recipes:', error))
+  );
+  const [localRecipes, setLocalRecipes] = useState<LocalRecipe[]>([]);
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
+  const accessTokenRef = useRef(accessToken);
+  const callbacksRef = useRef(callbacks);
+  // Replays run one after another so the same change can't be sent twice at once
+  const replayChain = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => {
+    accessTokenRef.current = accessToken;
+    callbacksRef.current = callbacks;
+  });
+
+  const refresh = useCallback(async () => {
+    const [recipes, items] = await Promise.all([loadLocalRecipes(db), db.getAll<OutboxItem>('outbox')]);
+    setLocalRecipes(recipes);
+    setOutbox(items);
+  }, [db]);
+
+  useEffect(() => {
+    ready.then(refresh).catch((error) => console.warn('Could not load offline recipes:', error));
+  }, [ready, refresh]);
+
+  const send = useCallback(
+    async (item: OutboxItem) => {
+      const options = { accessToken: accessTokenRef.current };
+      if (item.kind === 'create') {
+        const recipe = (await db.getAll<LocalRecipe>('recipes')).find((r) => r.id === item.recipeId);
+        // Deleted before it got out
+        if (!recipe) return;
+        const created = await submitCommunityRecipe(recipeBodyOf(recipe), { ...options, idempotencyKey: recipe.clientKey });
+        // Deleted while it was on its way, so the community copy goes too
+        if (!(await db.getAll<LocalRecipe>('recipes')).some((r) => r.id === recipe.id)) {
+          await queueOperation(db, { kind: 'delete', recipeId: created.id, userId: item.userId });
+          return;
+        }
+        await db.delete('recipes', recipe.id);
+        callbacksRef.current.onCreated?.(recipe.id, created);
+      } else if (item.kind === 'update') {
+        const updated = await updateCommunityRecipe(item.recipeId, item.recipe, { ...options, version: item.version });
+        callbacksRef.current.onUpdated?.(updated);
+      } else {
+        await deleteCommunityRecipe(item.recipeId, options);
+      }
+    },
+    [db]
+  );
+
+  const replay = useCallback(
+    (ignoreBackoff = false) => {
+      if (!userId) return Promise.resolve();
+      const run = replayChain.current
+        .then(() => ready)
+        .then(() => replayOutbox(db, send, { ignoreBackoff, skip: (item) => !!item.userId && item.userId !== userId }))
+        .then(refresh)
+        .catch((error) => console.warn('Could not sync offline changes:', error));
+      replayChain.current = run;
+      return run;
+    },
+    [userId, db, ready, send, refresh]
+  );
+
+  // On start (or sign-in), and whenever the connection comes back
+  useEffect(() => {
+    if (!userId) return;
+    const replayNow = () => {
+      void replay(true);
+    };
+    replayNow();
+    window.addEventListener('online', replayNow);
+    return () => window.removeEventListener('online', replayNow);
+  }, [userId, replay]);
+
+  // Once the earliest backoff is up
+  useEffect(() => {
+    const at = nextReplayAt(outbox);
+    if (!userId || at === null) return;
+    const timeoutId = setTimeout(() => {
+      void replay();
+    }, Math.max(at - Date.now(), 0));
+    return () => clearTimeout(timeoutId);
+  }, [userId, outbox, replay]);
+
+  const queue = useCallback(
+    async (change: () => Promise<unknown>) => {
+      await ready;
+      await change();
+      await refresh();
+    },
+    [ready, refresh]
+  );
+
+  /**
+   * Keep a recipe the server couldn't take right now (`error` is why) and queue it for submission.
+   */
+  const saveLocalRecipe = useCallback(
+    (recipe: LocalRecipe, error?: unknown) => {
+      setLocalRecipes((prev) => [...prev.filter((r) => r.id !== recipe.id), recipe]);
+      return queue(async () => {
+        await db.put('recipes', recipe);
+        await queueOperation(db, { kind: 'create', recipeId: recipe.id, userId: recipe.authorId }, error === undefined ? {} : { error });
+      });
+    },
+    [db, queue]
+  );
+
+  /**
+   * Change local recipes in place. Edited recipes that failed to sync are given another try.
+   */
+  const updateLocalRecipes = useCallback(
+    (update: (recipes: LocalRecipe[]) => LocalRecipe[]) => {
+      const changed = update(localRecipes).filter((recipe) => !localRecipes.includes(recipe));
+      setLocalRecipes((prev) => prev.map((r) => changed.find((c) => c.id === r.id) ?? r));
+      return queue(async () => {
+        for (const recipe of changed) {
+          await db.put('recipes', recipe);
+          await queueOperation(db, { kind: 'create', recipeId: recipe.id, userId: recipe.authorId });
+        }
+      });
+    },
+    [db, queue, localRecipes]
+  );
+
+  const removeLocalRecipe = useCallback(
+    (recipeId: string) => {
+      setLocalRecipes((prev) => prev.filter((r) => r.id !== recipeId));
+      return queue(async () => {
+        await db.delete('recipes', recipeId);
+        await cancelOperation(db, recipeId);
+      });
+    },
+    [db, queue]
+  );
+
+  /**
+   * Queue an edit of a community recipe that couldn't be saved (`error` is why).
+   */
+  const queueRecipeUpdate = useCallback(
+    (recipeId: string, recipe: RecipeBody, version: number | undefined, error: unknown) =>
+      queue(() => queueOperation(db, { kind: 'update', recipeId, recipe, version, userId: userId ?? undefined }, { error })),
+    [db, queue, userId]
+  );
+
+  /**
+   * Queue the delete of a community recipe that couldn't be deleted (`error` is why).
+   */
+  const queueRecipeDelete = useCallback(
+    (recipeId: string, error: unknown) =>
+      queue(() => queueOperation(db, { kind: 'delete', recipeId, userId: userId ?? undefined }, { error })),
+    [db, queue, userId]
+  );
+
+  /**
+   * Take back a queued change. Resolves to whether there was one.
+   */
+  const cancelQueuedChange = useCallback(
+    async (recipeId: string) => {
+      await ready;
+      const queued = (await db.getAll<OutboxItem>('outbox')).some((item) => item.recipeId === recipeId);
+      if (queued) {
+        await queue(() => cancelOperation(db, recipeId));
+      }
+      return queued;
+    },
+    [db, ready, queue]
+  );
+
+  /**
+   * Drop the changes the server refused, once the user has seen why. A refused recipe saved offline stays
+   * on this device; it just isn't sent again.
+   */
+  const dismissFailedChanges = useCallback(
+    () =>
+      queue(async () => {
+        for (const item of outbox) {
+          if (item.failure?.permanent) {
+            await cancelOperation(db, item.recipeId);
+          }
+        }
+      }),
+    [db, queue, outbox]
+  );
+
+  const syncStatus = useMemo(
+    () => new Map<string, OutboxStatus>(outbox.map((item) => [item.recipeId, outboxStatusOf(item)])),
+    [outbox]
+  );
+  const syncError = useMemo(() => describeFailures(outbox.filter((item) => item.failure)), [outbox]);
+
+  return {
+    localRecipes,
+    syncStatus,
+    syncError,
+    saveLocalRecipe,
+    updateLocalRecipes,
+    removeLocalRecipe,
+    queueRecipeUpdate,
+    queueRecipeDelete,
+    cancelQueuedChange,
+    dismissFailedChanges,
+  };
+}
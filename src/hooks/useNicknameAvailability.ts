@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { NICKNAME_MIN_LENGTH, nicknameKey, nicknameProblem } from '../utils/validation/nicknameSchema';
+import { checkNicknameAvailability, type NicknameAvailability } from '../utils/supabase/profile';
+
+// Wait for a pause in typing before asking the server
+export const NICKNAME_CHECK_DELAY_MS = 400;
+
+export type NicknameStatus = 'idle' | 'checking' | 'available' | 'unavailable';
+
+interface NicknameAvailabilityOptions {
+  /** Skip checking, e.g. while the form is closed */
+  enabled?: boolean;
+  /** The user's nickname now; typing it again needs no check */
+  currentNickname?: string | null;
+  accessToken?: string;
+}
+
+/**
+ * Whether the nickname being typed could be claimed. Rule breaks are reported straight away; whether it's
+ * taken is asked of the server function once typing pauses. Too-short input stays 'idle' for the form's own
+ * validation, and so does a failed check: the claim on submit has the final say.
+ */
+export function useNicknameAvailability(
+  nickname: string,
+  { enabled = true, currentNickname = null, accessToken }: NicknameAvailabilityOptions = {}
+): { status: NicknameStatus; message: string | null } {
+  // The last answer, with the nickname it was for
+  const [result, setResult] = useState<{ nickname: string; availability: NicknameAvailability | null } | null>(null);
+
+  const trimmed = nickname.trim();
+  const isCurrent = currentNickname !== null && nicknameKey(trimmed) === nicknameKey(currentNickname);
+  const skipped = !enabled || trimmed.length < NICKNAME_MIN_LENGTH || isCurrent;
+  const problem = skipped ? null : nicknameProblem(trimmed);
+  const shouldCheck = !skipped && !problem;
+
+  useEffect(() => {
+    if (!shouldCheck) return;
+    let cancelled = false;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      checkNicknameAvailability(trimmed, { accessToken, signal: controller.signal })
+        .then((availability) => {
+          if (!cancelled) setResult({ nickname: trimmed, availability });
+        })
+        .catch(() => {
+          if (!cancelled) setResult({ nickname: trimmed, availability: null });
+        });
+    }, NICKNAME_CHECK_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmed, shouldCheck, accessToken]);
+
+  if (skipped) return { status: 'idle', message: null };
+  if (problem) return { status: 'unavailable', message: problem };
+  if (result?.nickname !== trimmed) return { status: 'checking', message: null };
+  if (!result.availability) return { status: 'idle', message: null };
+  return result.availability.available
+    ? { status: 'available', message: null }
+    : { status: 'unavailable', message: result.availability.message ?? 'That nickname is not available' };
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatRoute, parseRoute, type Route } from '../utils/routing/routes';
+
+// Kept in history.state with each entry
+export interface RouteState {
+  /** Entries pushed since the app was opened, so going back knows whether it stays in the app */
+  depth: number;
+  /** The contributor whose list a recipe was opened from */
+  fromContributor?: string;
+}
+
+export interface NavigateOptions {
+  /** Replace the current entry instead of adding one, e.g. to leave a recipe that was just deleted */
+  replace?: boolean;
+  fromContributor?: string;
+}
+
+const currentState = (): RouteState => (window.history.state as RouteState | null) ?? { depth: 0 };
+
+const readLocation = () => ({
+  route: parseRoute(window.location.pathname, window.location.search),
+  state: currentState(),
+});
+
+/**
+ * The route in the address bar, kept in step with the browser's back and forward buttons.
+ */
+export function useRoute() {
+  const [location, setLocation] = useState(readLocation);
+
+  // Old-style and remapped links are rewritten to the route's own path
+  useEffect(() => {
+    const path = formatRoute(location.route);
+    if (window.location.pathname + window.location.search !== path) {
+      window.history.replaceState(location.state, '', path);
+    }
+  }, [location]);
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(readLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((route: Route, options: NavigateOptions = {}) => {
+    const { depth } = currentState();
+    const path = formatRoute(route);
+    // Opening the page that's already showing doesn't add an entry
+    const replace = options.replace || window.location.pathname === path;
+    const state: RouteState = { depth: replace ? depth : depth + 1, fromContributor: options.fromContributor };
+    if (replace) {
+      window.history.replaceState(state, '', path);
+    } else {
+      window.history.pushState(state, '', path);
+    }
+    setLocation({ route, state });
+  }, []);
+
+  /**
+   * Go back a page, or to `fallback` when the app was opened on this one.
+   */
+  const goBack = useCallback(
+    (fallback: Route) => {
+      if (currentState().depth > 0) {
+        window.history.back();
+      } else {
+        navigate(fallback, { replace: true });
+      }
+    },
+    [navigate]
+  );
+
+  return { route: location.route, fromContributor: location.state.fromContributor, navigate, goBack };
+}
@@ -7,4 +7,13 @@ createRoot(document.getElementById('root')!).render(
   <AuthProvider>
     <App />
   </AuthProvider>
-);
\ No newline at end of file
+);
+
+// Offline support. Only production builds have a service worker (see src/serviceWorker/sw.ts).
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  CACHED_AT_HEADER,
+  cacheFirst,
+  isCatalogRequest,
+  networkFirst,
+  precacheShell,
+  shellAssetsIn,
+  staleWhileRevalidate,
+} from './caching';
+
+// Just enough of the Cache API for the strategies, keyed by URL
+const createCache = () => {
+  const entries = new Map<string, Response>();
+  const keyOf = (request: RequestInfo | URL) =>
+    new URL(request instanceof Request ? request.url : String(request), 'https://smoothies.test').href;
+  return {
+    entries,
+    match: vi.fn(async (request: RequestInfo | URL) => entries.get(keyOf(request))?.clone()),
+    put: vi.fn(async (request: RequestInfo | URL, response: Response) => {
+      entries.set(keyOf(request), response);
+    }),
+    addAll: vi.fn(async (requests: string[]) => {
+      for (const request of requests) entries.set(keyOf(request), new Response(request));
+    }),
+  };
+};
+
+const catalogUrl = 'https://project.supabase.co/functions/v1/recipes?limit=50';
+const page = (names: string[]) => new Response(JSON.stringify({ recipes: names.map((name) => ({ name })), nextCursor: null }));
+
+describe('service worker caching', () => {
+  let cache: ReturnType<typeof createCache>;
+  const asCache = () => cache as unknown as Cache;
+
+  beforeEach(() => {
+    cache = createCache();
+  });
+
+  it('should recognize catalog pages', () => {
+    expect(isCatalogRequest(new URL(catalogUrl))).toBe(true);
+    expect(isCatalogRequest(new URL('https://project.supabase.co/functions/v1/recipes/recipe:1:a'))).toBe(false);
+    expect(isCatalogRequest(new URL('https://project.supabase.co/functions/v1/recipes/search?q=kale'))).toBe(false);
+  });
+
+  it('should precache index.html and the assets it references', async () => {
+    const html = '<script type="module" src="/assets/main-abc123.js"></script><link rel="stylesheet" href="/assets/main-def456.css">';
+    expect(shellAssetsIn(html)).toEqual(['/assets/main-abc123.js', '/assets/main-def456.css']);
+
+    await precacheShell(asCache(), async () => new Response(html));
+
+    expect([...cache.entries.keys()]).toEqual([
+      'https://smoothies.test/',
+      'https://smoothies.test/assets/main-abc123.js',
+      'https://smoothies.test/assets/main-def456.css',
+      'https://smoothies.test/manifest.webmanifest',
+      'https://smoothies.test/icon.svg',
+    ]);
+  });
+
+  it('should fall back to the cached shell for pages when offline', async () => {
+    await cache.put('/', new Response('cached shell'));
+    const request = new Request('https://smoothies.test/r/recipe:1:a');
+
+    const offline = await networkFirst(asCache(), request, () => Promise.reject(new TypeError('Failed to fetch')));
+    expect(await offline.text()).toBe('cached shell');
+
+    await networkFirst(asCache(), request, async () => new Response('new shell'));
+    expect(await cache.entries.get('https://smoothies.test/')!.text()).toBe('new shell');
+  });
+
+  it('should serve hashed assets from the cache once they are there', async () => {
+    const request = new Request('https://smoothies.test/assets/main-abc123.js');
+    const fetchFn = vi.fn(async () => new Response('code', { headers: { 'Content-Type': 'text/javascript' } }));
+
+    await cacheFirst(asCache(), request, fetchFn);
+    const response = await cacheFirst(asCache(), request, fetchFn);
+
+    expect(await response.text()).toBe('code');
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache the page a host answers with for an asset that is gone', async () => {
+    const request = new Request('https://smoothies.test/assets/main-old123.js');
+    const fetchFn = vi.fn(async () => new Response('<!doctype html>', { headers: { 'Content-Type': 'text/html; charset=utf-8' } }));
+
+    const response = await cacheFirst(asCache(), request, fetchFn);
+
+    expect(await response.text()).toBe('<!doctype html>');
+    expect(cache.put).not.toHaveBeenCalled();
+  });
+
+  it('should keep the first catalog it fetches, stamped with when', async () => {
+    const { response, revalidated } = staleWhileRevalidate(
+      asCache(),
+      new Request(catalogUrl),
+      async () => page(['Green Machine']),
+      () => new Date('2025-06-01T08:00:00.000Z')
+    );
+
+    expect((await (await response).json()).recipes).toEqual([{ name: 'Green Machine' }]);
+    expect(await revalidated).toBe('unchanged');
+    expect(cache.entries.get(catalogUrl)!.headers.get(CACHED_AT_HEADER)).toBe('2025-06-01T08:00:00.000Z');
+    // Readable by the page although the catalog is cross-origin
+    expect(cache.entries.get(catalogUrl)!.headers.get('Access-Control-Expose-Headers')).toBe(CACHED_AT_HEADER);
+  });
+
+  it('should answer from the cache and report a changed catalog', async () => {
+    await staleWhileRevalidate(asCache(), new Request(catalogUrl), async () => page(['Green Machine'])).revalidated;
+
+    const { response, revalidated } = staleWhileRevalidate(asCache(), new Request(catalogUrl), async () =>
+      page(['Green Machine', 'Berry Blast'])
+    );
+
+    const served = await response;
+    expect(served.headers.get(CACHED_AT_HEADER)).toEqual(expect.any(String));
+    expect((await served.json()).recipes).toHaveLength(1);
+    expect(await revalidated).toBe('updated');
+    expect((await cache.entries.get(catalogUrl)!.clone().json()).recipes).toHaveLength(2);
+  });
+
+  it('should serve the cached catalog when the server is unreachable', async () => {
+    await staleWhileRevalidate(asCache(), new Request(catalogUrl), async () => page(['Green Machine'])).revalidated;
+
+    const { response, revalidated } = staleWhileRevalidate(asCache(), new Request(catalogUrl), () =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    );
+
+    expect((await (await response).json()).recipes).toEqual([{ name: 'Green Machine' }]);
+    expect(await revalidated).toBe('unreachable');
+  });
+});
@@ -0,0 +1,132 @@
+import type { CatalogStatus } from './messages';
+
+// Caching strategies for the service worker (sw.ts). They take the cache and fetch to use, so they can be
+// tested outside a worker.
+
+// Each build gets its own shell cache (VITE_BUILD_ID is set in vite.config.ts), and the new service worker
+// deletes the last one. Bump the catalog's version to have the next service worker start it over.
+export const SHELL_CACHE = `smoothie-shell-${import.meta.env.VITE_BUILD_ID ?? 'dev'}`;
+export const CATALOG_CACHE = 'smoothie-catalog-v1';
+
+/** Set on catalog responses served from the cache: when that copy was fetched (ISO 8601) */
+export const CACHED_AT_HEADER = 'X-Cached-At';
+
+// Files the shell needs besides index.html and the scripts and styles it references
+const STATIC_SHELL_FILES = ['/manifest.webmanifest', '/icon.svg'];
+
+type Fetch = (request: Request) => Promise<Response>;
+
+/**
+ * Pages of the community catalog: GET /functions/v1/recipes with any paging and filter params.
+ */
+export const isCatalogRequest = (url: URL): boolean => /\/functions\/v1\/recipes\/?$/.test(url.pathname);
+
+/**
+ * The built scripts and styles an index.html references. Their names carry a content hash, so they never
+ * change once cached.
+ */
+export const shellAssetsIn = (html: string): string[] =>
+  Array.from(new Set(Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), (match) => match[1])));
+
+/**
+ * Cache index.html and everything it needs, so the app starts without a connection.
+ */
+export async function precacheShell(cache: Cache, fetchFn: Fetch): Promise<void> {
+  const index = await fetchFn(new Request('/', { cache: 'reload' }));
+  if (!index.ok) {
+    throw new Error(`Failed to fetch the app shell: ${index.status}`);
+  }
+  const html = await index.clone().text();
+  await cache.put('/', index);
+  await cache.addAll([...shellAssetsIn(html), ...STATIC_SHELL_FILES]);
+}
+
+/**
+ * Pages of the app: always the latest index.html when online, the cached one otherwise.
+ */
+export async function networkFirst(cache: Cache, request: Request, fetchFn: Fetch): Promise<Response> {
+  try {
+    const response = await fetchFn(request);
+    if (response.ok) {
+      await cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/');
+    if (!cached) throw error;
+    return cached;
+  }
+}
+
+// What the files the shell caches are served as, by extension
+const CONTENT_TYPES: Record<string, string> = {
+  js: 'javascript',
+  css: 'text/css',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  woff2: 'font/woff2',
+  webmanifest: 'manifest+json',
+};
+
+/**
+ * Whether a response is the kind of file its request asked for. Hosts that serve the app for every path
+ * answer a request for a file that's gone (an asset of an older build) with index.html and a 200.
+ */
+export function isExpectedContentType(request: Request, response: Response): boolean {
+  const contentType = response.headers.get('Content-Type') ?? '';
+  const extension = new URL(request.url).pathname.split('.').pop() ?? '';
+  const expected = CONTENT_TYPES[extension];
+  return expected ? contentType.includes(expected) : !contentType.includes('text/html');
+}
+
+/**
+ * Hashed build assets never change, so a cached copy is always good.
+ */
+export async function cacheFirst(cache: Cache, request: Request, fetchFn: Fetch): Promise<Response> {
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetchFn(request);
+  if (response.ok && isExpectedContentType(request, response)) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// A copy of the response to keep, stamped with when it was fetched. The catalog comes from the Supabase
+// origin, so the page can only read the stamp if the response exposes it.
+async function stamped(response: Response, fetchedAt: Date): Promise<Response> {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, fetchedAt.toISOString());
+  headers.append('Access-Control-Expose-Headers', CACHED_AT_HEADER);
+  return new Response(await response.blob(), { status: response.status, statusText: response.statusText, headers });
+}
+
+/**
+ * Answer from the cache right away when there's a copy, and refresh the copy from the network meanwhile.
+ * `revalidated` settles with what the refresh found: `updated` when the copy that was served is out of date.
+ */
+export function staleWhileRevalidate(
+  cache: Cache,
+  request: Request,
+  fetchFn: Fetch,
+  now: () => Date = () => new Date()
+): { response: Promise<Response>; revalidated: Promise<CatalogStatus> } {
+  const cachedCopy = cache.match(request);
+  const fresh = fetchFn(request);
+  // The page and the refresh each read their own copy of a body
+  const freshForPage = fresh.then((response) => response.clone());
+  // Only used when there's nothing cached; otherwise a failed refresh is reported through `revalidated`
+  freshForPage.catch(() => undefined);
+
+  const revalidated = (async (): Promise<CatalogStatus> => {
+    const response = await fresh;
+    if (!response.ok) return 'unreachable';
+    const previous = await cache.match(request);
+    const changed = !!previous && (await previous.text()) !== (await response.clone().text());
+    await cache.put(request, await stamped(response, now()));
+    return changed ? 'updated' : 'unchanged';
+  })().catch((): CatalogStatus => 'unreachable');
+
+  const response = cachedCopy.then((cached) => cached ?? freshForPage);
+  return { response, revalidated };
+}
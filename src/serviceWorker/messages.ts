@@ -0,0 +1,13 @@
+// What the service worker tells the app. Types only: the worker is built as its own bundle, and sharing
+// code with the app would pull app chunks into it.
+
+/**
+ * What refreshing a cached catalog page found: `updated` when the copy the app was given is out of date,
+ * `unreachable` when the server couldn't be reached, so the app is showing the cached copy.
+ */
+export type CatalogStatus = 'updated' | 'unchanged' | 'unreachable';
+
+export interface CatalogMessage {
+  type: 'catalog';
+  status: CatalogStatus;
+}
@@ -0,0 +1,66 @@
+/// <reference lib="webworker" />
+import {
+  CATALOG_CACHE,
+  SHELL_CACHE,
+  cacheFirst,
+  isCatalogRequest,
+  networkFirst,
+  precacheShell,
+  staleWhileRevalidate,
+} from './caching';
+import type { CatalogMessage } from './messages';
+
+// The service worker, built to /sw.js (see vite.config.ts) and registered by src/main.tsx in production builds.
+// It keeps the app shell and the last community catalog it saw, so the app opens and shakes offline.
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+sw.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => precacheShell(cache, fetch))
+      .then(() => sw.skipWaiting())
+  );
+});
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names.filter((name) => name !== SHELL_CACHE && name !== CATALOG_CACHE).map((name) => caches.delete(name))
+        )
+      )
+      .then(() => sw.clients.claim())
+  );
+});
+
+const tellClients = async (message: CatalogMessage) => {
+  for (const client of await sw.clients.matchAll({ type: 'window' })) {
+    client.postMessage(message);
+  }
+};
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (isCatalogRequest(url)) {
+    const caching = caches.open(CATALOG_CACHE).then((cache) => staleWhileRevalidate(cache, request, fetch));
+    event.respondWith(caching.then(({ response }) => response));
+    event.waitUntil(
+      caching.then(({ revalidated }) => revalidated).then((status) => tellClients({ type: 'catalog', status }))
+    );
+    return;
+  }
+
+  if (url.origin !== sw.location.origin) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.open(SHELL_CACHE).then((cache) => networkFirst(cache, request, fetch)));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(caches.open(SHELL_CACHE).then((cache) => cacheFirst(cache, request, fetch)));
+  }
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { contributorKeyOf, isAuthoredBy, renameAuthor } from './recipeAuthors';
+
+const user = { id: 'user-1' };
+
+describe('contributorKeyOf', () => {
+  it('should use the author id when there is one', () => {
+    expect(contributorKeyOf({ id: 'recipe:1:a', contributor: 'Sarah M.', authorId: 'user-1' })).toBe('user-1');
+  });
+
+  it('should fall back to the display name', () => {
+    expect(contributorKeyOf({ id: 1, contributor: 'Sarah M.' })).toBe('Sarah M.');
+    expect(contributorKeyOf({ id: 'recipe:1:a', contributor: 'Sarah M.', authorId: null })).toBe('Sarah M.');
+  });
+});
+
+describe('isAuthoredBy', () => {
+  it('should compare author ids, ignoring the display name', () => {
+    expect(isAuthoredBy({ id: 'recipe:1:a', contributor: 'Someone', authorId: 'user-1' }, user)).toBe(true);
+    expect(isAuthoredBy({ id: 'recipe:1:a', contributor: 'Blender', authorId: 'user-2' }, user)).toBe(false);
+  });
+
+  it('should not match recipes without an author on their name', () => {
+    expect(isAuthoredBy({ id: 'recipe:1:a', contributor: 'Blender' }, user)).toBe(false);
+    expect(isAuthoredBy({ id: 'recipe:1:a', contributor: 'blender@example.com', authorId: null }, user)).toBe(false);
+  });
+
+  it('should be false when signed out', () => {
+    expect(isAuthoredBy({ id: 'recipe:1:a', contributor: 'Blender', authorId: 'user-1' }, null)).toBe(false);
+  });
+});
+
+describe('renameAuthor', () => {
+  it('should rename only the user\'s recipes', () => {
+    const recipes = [
+      { id: 'recipe:1:a', contributor: 'Blender', authorId: 'user-1' },
+      { id: 'recipe:2:b', contributor: 'Blender' },
+      { id: 'recipe:3:c', contributor: 'Blender', authorId: 'user-2' },
+    ];
+
+    expect(renameAuthor(recipes, user, 'Smoothie Queen')).toEqual([
+      { id: 'recipe:1:a', contributor: 'Smoothie Queen', authorId: 'user-1' },
+      { id: 'recipe:2:b', contributor: 'Blender' },
+      { id: 'recipe:3:c', contributor: 'Blender', authorId: 'user-2' },
+    ]);
+  });
+
+  it('should return the same array when nothing is the user\'s', () => {
+    const recipes = [{ id: 'recipe:1:a', contributor: 'Other', authorId: 'user-2' }];
+
+    expect(renameAuthor(recipes, user, 'Smoothie Queen')).toBe(recipes);
+  });
+});
@@ -0,0 +1,37 @@
+// Who wrote a recipe. Community recipes record their author's user id in `authorId` and a copy of the
+// author's display name in `contributor`. Built-in recipes and ones from before authors were recorded
+// only have the name.
+
+interface AuthoredRecipe {
+  id: number | string;
+  contributor: string;
+  authorId?: string | null;
+}
+
+interface RecipeReader {
+  id: string;
+}
+
+/**
+ * What a contributor view and its `/c/` link are keyed by: the author's user id,
+ * or the display name for recipes without one.
+ */
+export const contributorKeyOf = (recipe: AuthoredRecipe): string => recipe.authorId || recipe.contributor;
+
+/**
+ * Whether `user` wrote a recipe. Only the author id counts, like on the server: recipes without one
+ * belong to nobody until the recipes migration finds their author.
+ */
+export function isAuthoredBy(recipe: AuthoredRecipe, user: RecipeReader | null): boolean {
+  return !!user && !!recipe.authorId && recipe.authorId === user.id;
+}
+
+/**
+ * Put a new display name on the user's recipes. Returns the same array if none of them are the user's.
+ */
+export function renameAuthor<T extends AuthoredRecipe>(recipes: T[], user: RecipeReader, contributor: string): T[] {
+  if (!recipes.some((recipe) => isAuthoredBy(recipe, user))) {
+    return recipes;
+  }
+  return recipes.map((recipe) => (isAuthoredBy(recipe, user) ? { ...recipe, contributor } : recipe));
+}
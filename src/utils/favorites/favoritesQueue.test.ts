@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { applyFavoriteChanges, flushFavoriteChanges, pendingFavoriteChanges, queueFavoriteChange } from './favoritesQueue';
+
+describe('favoritesQueue', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep only the latest change per recipe and user', () => {
+    queueFavoriteChange({ userId: 'user-1', recipeId: 'recipe:1:a', favorite: true });
+    queueFavoriteChange({ userId: 'user-1', recipeId: 3, favorite: true });
+    queueFavoriteChange({ userId: 'user-1', recipeId: 'recipe:1:a', favorite: false });
+    queueFavoriteChange({ userId: 'user-2', recipeId: 'recipe:1:a', favorite: true });
+
+    expect(pendingFavoriteChanges('user-1')).toEqual([
+      { userId: 'user-1', recipeId: 3, favorite: true },
+      { userId: 'user-1', recipeId: 'recipe:1:a', favorite: false },
+    ]);
+    expect(pendingFavoriteChanges('user-2')).toHaveLength(1);
+  });
+
+  it('should apply pending changes over the server\'s favorites', () => {
+    const favorites = applyFavoriteChanges(['recipe:1:a', 'recipe:2:b'], [
+      { userId: 'user-1', recipeId: 'recipe:1:a', favorite: false },
+      { userId: 'user-1', recipeId: 5, favorite: true },
+    ]);
+
+    expect([...favorites]).toEqual(['recipe:2:b', 5]);
+  });
+
+  it('should send changes in order and keep what failed for the next flush', async () => {
+    queueFavoriteChange({ userId: 'user-1', recipeId: 'recipe:1:a', favorite: true });
+    queueFavoriteChange({ userId: 'user-1', recipeId: 'recipe:2:b', favorite: true });
+    queueFavoriteChange({ userId: 'user-1', recipeId: 'recipe:3:c', favorite: true });
+    const send = vi.fn().mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('offline'));
+
+    expect(await flushFavoriteChanges('user-1', send)).toBe(false);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(pendingFavoriteChanges('user-1').map((c) => c.recipeId)).toEqual(['recipe:2:b', 'recipe:3:c']);
+  });
+
+  it('should not drop a change replaced while the older one was being sent', async () => {
+    queueFavoriteChange({ userId: 'user-1', recipeId: 'recipe:1:a', favorite: true });
+
+    await flushFavoriteChanges('user-1', async () => {
+      queueFavoriteChange({ userId: 'user-1', recipeId: 'recipe:1:a', favorite: false });
+    });
+
+    expect(pendingFavoriteChanges('user-1')).toEqual([{ userId: 'user-1', recipeId: 'recipe:1:a', favorite: false }]);
+  });
+});
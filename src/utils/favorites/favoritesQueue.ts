@@ -0,0 +1,84 @@
+import type { FavoriteId } from '../supabase/favorites';
+
+// Favorite toggles made while signed in wait here until the server has them, so a toggle made offline
+// (or on a flaky connection) still reaches the other devices once this one is back online.
+const QUEUE_KEY = 'smoothie-favorites-queue';
+
+export interface FavoriteChange {
+  /** Whose favorites; a change only ever goes out under that user's session */
+  userId: string;
+  recipeId: FavoriteId;
+  /** true to favorite, false to unfavorite */
+  favorite: boolean;
+}
+
+const readQueue = (): FavoriteChange[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeQueue = (queue: FavoriteChange[]) => {
+  if (queue.length > 0) {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } else {
+    localStorage.removeItem(QUEUE_KEY);
+  }
+};
+
+const sameRecipe = (a: FavoriteChange, b: FavoriteChange) => a.userId === b.userId && a.recipeId === b.recipeId;
+
+/**
+ * The user's changes not yet on the server, oldest first.
+ */
+export const pendingFavoriteChanges = (userId: string): FavoriteChange[] =>
+  readQueue().filter((change) => change.userId === userId);
+
+/**
+ * Queue a change, replacing any earlier one for the same recipe: only where the user left it matters.
+ */
+export const queueFavoriteChange = (change: FavoriteChange): void => {
+  writeQueue([...readQueue().filter((queued) => !sameRecipe(queued, change)), change]);
+};
+
+// Drop a change the server has, unless it was replaced by a newer one meanwhile
+const settleFavoriteChange = (change: FavoriteChange): void => {
+  writeQueue(readQueue().filter((queued) => !(sameRecipe(queued, change) && queued.favorite === change.favorite)));
+};
+
+/**
+ * The favorites with the user's pending changes applied on top.
+ */
+export const applyFavoriteChanges = (favorites: Iterable<FavoriteId>, changes: FavoriteChange[]): Set<FavoriteId> => {
+  const result = new Set(favorites);
+  for (const change of changes) {
+    if (change.favorite) {
+      result.add(change.recipeId);
+    } else {
+      result.delete(change.recipeId);
+    }
+  }
+  return result;
+};
+
+/**
+ * Send the user's pending changes in order. Stops at the first failure and leaves it and the rest queued.
+ * Resolves to whether everything was sent.
+ */
+export async function flushFavoriteChanges(
+  userId: string,
+  send: (change: FavoriteChange) => Promise<void>
+): Promise<boolean> {
+  for (const change of pendingFavoriteChanges(userId)) {
+    try {
+      await send(change);
+    } catch {
+      return false;
+    }
+    settleFavoriteChange(change);
+  }
+  return true;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { diffRecipes, pickRevisionFields } from './recipeRevisions';
+
+const recipe = {
+  name: 'Mango Tango',
+  contributor: 'TestUser',
+  emoji: '🥭',
+  color: '#FFA500',
+  ingredients: ['1 cup mango'],
+  instructions: 'Blend until smooth',
+  servings: 2,
+  prepTime: '5 min',
+  containsFat: false,
+  containsNuts: false,
+};
+
+describe('pickRevisionFields', () => {
+  it('should drop fields that are not part of a revision', () => {
+    const picked = pickRevisionFields({ ...recipe, id: 'recipe:1:a', authorId: 'user-1' } as typeof recipe);
+    expect(picked).toEqual(recipe);
+  });
+});
+
+describe('diffRecipes', () => {
+  it('should return nothing for identical versions', () => {
+    expect(diffRecipes(recipe, { ...recipe, ingredients: [...recipe.ingredients] })).toEqual([]);
+  });
+
+  it('should list changed fields in form order', () => {
+    const changes = diffRecipes(recipe, { ...recipe, servings: 3, name: 'Mango Tangerine', ingredients: ['1 cup mango', 'ice'] });
+    expect(changes).toEqual([
+      { field: 'name', before: 'Mango Tango', after: 'Mango Tangerine' },
+      { field: 'ingredients', before: ['1 cup mango'], after: ['1 cup mango', 'ice'] },
+      { field: 'servings', before: 2, after: 3 },
+    ]);
+  });
+});
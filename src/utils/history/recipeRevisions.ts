@@ -0,0 +1,11 @@
+// Re-export the revision helpers shared with the recipes edge function
+export {
+  diffRecipes,
+  pickRevisionFields,
+  REVISION_FIELDS,
+  type FieldChange,
+  type RecipeEditor,
+  type RecipeRevision,
+  type RevisableRecipe,
+  type RevisionField,
+} from '../../../supabase/functions/_shared/recipeRevisions.ts';
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { TRASH_RETENTION_DAYS, daysUntilPurge, isInTrash, isPastRetention } from './recipeTrash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const deletedAt = '2024-03-01T12:00:00.000Z';
+const deletedAtMs = Date.parse(deletedAt);
+
+describe('isInTrash', () => {
+  it('should only flag recipes with a deletedAt', () => {
+    expect(isInTrash({ deletedAt })).toBe(true);
+    expect(isInTrash({})).toBe(false);
+    expect(isInTrash({ deletedAt: null })).toBe(false);
+  });
+});
+
+describe('isPastRetention', () => {
+  it('should keep recipes inside the retention window', () => {
+    expect(isPastRetention({ deletedAt }, deletedAtMs + (TRASH_RETENTION_DAYS - 1) * DAY_MS)).toBe(false);
+  });
+
+  it('should expire recipes once the window has passed', () => {
+    expect(isPastRetention({ deletedAt }, deletedAtMs + TRASH_RETENTION_DAYS * DAY_MS)).toBe(true);
+  });
+
+  it('should never expire live recipes', () => {
+    expect(isPastRetention({}, deletedAtMs + 365 * DAY_MS)).toBe(false);
+  });
+});
+
+describe('daysUntilPurge', () => {
+  it('should count the full window right after deleting', () => {
+    expect(daysUntilPurge(deletedAt, deletedAtMs)).toBe(TRASH_RETENTION_DAYS);
+  });
+
+  it('should round partial days up', () => {
+    expect(daysUntilPurge(deletedAt, deletedAtMs + (TRASH_RETENTION_DAYS - 1) * DAY_MS + 60_000)).toBe(1);
+  });
+
+  it('should not go below zero', () => {
+    expect(daysUntilPurge(deletedAt, deletedAtMs + 40 * DAY_MS)).toBe(0);
+  });
+});
@@ -0,0 +1,7 @@
+// Re-export the soft-delete rules shared with the recipes edge function
+export {
+  TRASH_RETENTION_DAYS,
+  daysUntilPurge,
+  isInTrash,
+  isPastRetention,
+} from '../../../supabase/functions/_shared/recipeTrash.ts';
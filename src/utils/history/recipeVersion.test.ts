@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { parseIfMatch, recipeVersion, toETag } from './recipeVersion';
+
+describe('recipeVersion', () => {
+  it('should read the stored version', () => {
+    expect(recipeVersion({ version: 7 })).toBe(7);
+  });
+
+  it('should count unversioned recipes as version 1', () => {
+    expect(recipeVersion({})).toBe(1);
+  });
+});
+
+describe('parseIfMatch', () => {
+  it('should read the version back out of an entity tag', () => {
+    expect(parseIfMatch(toETag(3))).toBe(3);
+  });
+
+  it('should accept weak tags', () => {
+    expect(parseIfMatch('W/"12"')).toBe(12);
+  });
+
+  it('should reject missing and malformed headers', () => {
+    expect(parseIfMatch(undefined)).toBeNull();
+    expect(parseIfMatch('')).toBeNull();
+    expect(parseIfMatch('3')).toBeNull();
+    expect(parseIfMatch('*')).toBeNull();
+    expect(parseIfMatch('"abc"')).toBeNull();
+  });
+});
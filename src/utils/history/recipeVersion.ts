@@ -0,0 +1,2 @@
+// Re-export the recipe version rules shared with the recipes edge function
+export { parseIfMatch, recipeVersion, toETag } from '../../../supabase/functions/_shared/recipeVersion.ts';
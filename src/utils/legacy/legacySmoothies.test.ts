@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertLegacySmoothie,
+  formatInstructions,
+  inferAllergens,
+  parseServings,
+  toLegacyCommunityRecipe,
+  type LegacySmoothie,
+} from './legacySmoothies';
+import { smoothieRecipes as legacySmoothies } from '../../components/smoothie-data';
+import { recipeInputSchema } from '../validation/recipeSchema';
+
+const legacy: LegacySmoothie = {
+  id: 4,
+  name: 'Chocolate Peanut Power',
+  emoji: '🍫',
+  description: 'Protein-packed and tastes like dessert',
+  category: 'Protein',
+  rating: 4.7,
+  prepTime: '3 mins',
+  servings: '1 serving',
+  contributor: 'David K.',
+  ingredients: ['1 frozen banana', '2 tbsp natural peanut butter', '1 cup chocolate almond milk'],
+  instructions: ['Add milk to blender', 'Add banana and peanut butter', 'Blend until thick'],
+};
+
+describe('inferAllergens', () => {
+  it('should flag nuts, and count them as fat', () => {
+    expect(inferAllergens(['1 cup almond milk'])).toEqual({ containsFat: true, containsNuts: true });
+    expect(inferAllergens(['1 tbsp cashew butter'])).toEqual({ containsFat: true, containsNuts: true });
+  });
+
+  it('should flag fat without nuts', () => {
+    expect(inferAllergens(['1 ripe avocado'])).toEqual({ containsFat: true, containsNuts: false });
+    expect(inferAllergens(['1 cup coconut milk'])).toEqual({ containsFat: true, containsNuts: false });
+    expect(inferAllergens(['1 cup Greek yogurt'])).toEqual({ containsFat: true, containsNuts: false });
+  });
+
+  it('should not mistake coconut water or nutmeg for nuts', () => {
+    expect(inferAllergens(['1/2 cup coconut water', 'Pinch of nutmeg', '2 oranges'])).toEqual({
+      containsFat: false,
+      containsNuts: false,
+    });
+  });
+});
+
+describe('parseServings', () => {
+  it('should read the leading number', () => {
+    expect(parseServings('2 servings')).toBe(2);
+    expect(parseServings('1 serving')).toBe(1);
+  });
+
+  it('should fall back to one serving', () => {
+    expect(parseServings('a few')).toBe(1);
+    expect(parseServings('0 servings')).toBe(1);
+  });
+});
+
+describe('formatInstructions', () => {
+  it('should number the steps under the description', () => {
+    expect(formatInstructions('So good', ['Add milk', 'Blend'])).toBe('So good\n\n1. Add milk\n2. Blend');
+  });
+
+  it('should leave out an empty description', () => {
+    expect(formatInstructions('', ['Blend'])).toBe('1. Blend');
+  });
+});
+
+describe('convertLegacySmoothie', () => {
+  it('should map a legacy recipe to the current model', () => {
+    expect(convertLegacySmoothie(legacy)).toEqual({
+      id: 4,
+      name: 'Chocolate Peanut Power',
+      contributor: 'David K.',
+      emoji: '🍫',
+      color: '#FF6347',
+      ingredients: legacy.ingredients,
+      instructions: 'Protein-packed and tastes like dessert\n\n1. Add milk to blender\n2. Add banana and peanut butter\n3. Blend until thick',
+      servings: 1,
+      prepTime: '3 min',
+      containsFat: true,
+      containsNuts: true,
+    });
+  });
+
+  it('should use the default color for unknown categories', () => {
+    expect(convertLegacySmoothie({ ...legacy, category: 'Seasonal' }).color).toBe('#9333EA');
+  });
+});
+
+describe('toLegacyCommunityRecipe', () => {
+  it('should credit the original contributor under a stable id', () => {
+    const recipe = toLegacyCommunityRecipe(legacy);
+
+    expect(recipe.contributor).toBe('David K.');
+    expect(recipe.authorId).toBeNull();
+    expect(recipe.id).toMatch(/^recipe:\d+:legacy4$/);
+    expect(toLegacyCommunityRecipe(legacy).id).toBe(recipe.id);
+  });
+
+  it('should produce recipes the recipes function accepts for the whole legacy dataset', () => {
+    const recipes = legacySmoothies.map(toLegacyCommunityRecipe);
+
+    expect(new Set(recipes.map((r) => r.id)).size).toBe(legacySmoothies.length);
+    for (const recipe of recipes) {
+      expect(recipeInputSchema.safeParse(recipe).success, recipe.name).toBe(true);
+    }
+  });
+});
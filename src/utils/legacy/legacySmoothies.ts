@@ -0,0 +1,103 @@
+import type { Recipe } from '../../data/recipes';
+import type { CommunityRecipe } from '../supabase/recipesContract';
+
+/**
+ * A recipe in the format of the original dataset (src/components/smoothie-data.ts).
+ */
+export interface LegacySmoothie {
+  id: number;
+  name: string;
+  emoji: string;
+  description: string;
+  category: string;
+  /** Average rating from the old site; there are no individual ratings behind it */
+  rating: number;
+  prepTime: string;
+  /** e.g. "2 servings" */
+  servings: string;
+  contributor: string;
+  ingredients: string[];
+  /** One entry per step */
+  instructions: string[];
+}
+
+const DEFAULT_COLOR = '#9333EA';
+
+// Legacy categories mapped onto the contribute form's palette
+const categoryColors: Record<string, string> = {
+  Tropical: '#FFA500',
+  Green: '#32CD32',
+  Berry: '#FF1493',
+  Protein: '#FF6347',
+  Citrus: '#FFD700',
+  Dessert: '#FF6B6B',
+};
+
+// Whole words only, so coconut, nutmeg and coconut water don't count
+const NUT_PATTERN = /\b(almonds?|peanuts?|cashews?|walnuts?|pecans?|pistachios?|hazelnuts?|macadamias?|nuts?)\b/i;
+const FAT_PATTERN = /\b(avocados?|yogh?urt|cheese|cream|butter|coconut milk|whole milk|chia|flax(seed)?s?|hemp)\b/i;
+
+/**
+ * Guess the allergen flags from ingredient text. Nuts count as fat too.
+ */
+export function inferAllergens(ingredients: string[]): Pick<Recipe, 'containsFat' | 'containsNuts'> {
+  const containsNuts = ingredients.some((ingredient) => NUT_PATTERN.test(ingredient));
+  const containsFat = containsNuts || ingredients.some((ingredient) => FAT_PATTERN.test(ingredient));
+  return { containsFat, containsNuts };
+}
+
+/**
+ * "2 servings" -> 2. Anything without a number between 1 and 100 counts as one serving.
+ */
+export function parseServings(servings: string): number {
+  const count = parseInt(servings, 10);
+  return count >= 1 && count <= 100 ? count : 1;
+}
+
+/** "5 mins" -> "5 min", matching the built-in recipes */
+const normalizePrepTime = (prepTime: string) => prepTime.replace(/\bmins\b/i, 'min').trim();
+
+/**
+ * The description as an intro, then the steps numbered one per line.
+ */
+export function formatInstructions(description: string, steps: string[]): string {
+  const numbered = steps.map((step, i) => `${i + 1}. ${step.trim()}`).join('\n');
+  return description.trim() ? `${description.trim()}\n\n${numbered}` : numbered;
+}
+
+/**
+ * Convert a legacy recipe to the current model. Category picks the color; rating is dropped.
+ */
+export function convertLegacySmoothie(legacy: LegacySmoothie): Recipe {
+  return {
+    id: legacy.id,
+    name: legacy.name,
+    contributor: legacy.contributor,
+    emoji: legacy.emoji,
+    color: categoryColors[legacy.category] ?? DEFAULT_COLOR,
+    ingredients: legacy.ingredients.map((ingredient) => ingredient.trim()),
+    instructions: formatInstructions(legacy.description, legacy.instructions),
+    servings: parseServings(legacy.servings),
+    prepTime: normalizePrepTime(legacy.prepTime),
+    ...inferAllergens(legacy.ingredients),
+  };
+}
+
+// 2023-06-01T00:00:00Z; imported recipes sort before anything contributed since
+const LEGACY_IMPORTED_AT = Date.UTC(2023, 5, 1);
+
+/**
+ * Convert a legacy recipe to a community recipe credited to its original contributor.
+ * Ids are derived from the legacy id, so importing twice overwrites instead of duplicating.
+ */
+export function toLegacyCommunityRecipe(legacy: LegacySmoothie): CommunityRecipe {
+  const { id, ...recipe } = convertLegacySmoothie(legacy);
+  const createdAt = LEGACY_IMPORTED_AT + id;
+  return {
+    ...recipe,
+    id: `recipe:${createdAt}:legacy${id}`,
+    authorId: null,
+    version: 1,
+    createdAt: new Date(createdAt).toISOString(),
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createLocalStorageDb, type OfflineDb } from './offlineDb';
+import { importLegacyRecipes, loadLocalRecipes, recipeBodyOf, type LocalRecipe } from './localRecipes';
+import type { OutboxItem } from './outbox';
+
+const savedRecipe = {
+  id: 'user-1700000000000',
+  name: 'Offline Smoothie',
+  contributor: 'Sam',
+  emoji: '🥤',
+  color: '#9333EA',
+  servings: 1,
+  prepTime: '5 min',
+  containsFat: false,
+  containsNuts: false,
+};
+
+describe('localRecipes', () => {
+  let db: OfflineDb;
+
+  beforeEach(() => {
+    localStorage.clear();
+    db = createLocalStorageDb();
+  });
+
+  it('should move recipes from localStorage into the offline store, each queued for submission', async () => {
+    localStorage.setItem(
+      'smoothie-user-recipes',
+      JSON.stringify([
+        { ...savedRecipe, authorId: 'user-1' },
+        { ...savedRecipe, id: 'user-1600000000000', contributor: '' },
+      ])
+    );
+
+    await importLegacyRecipes(db);
+
+    const recipes = await loadLocalRecipes(db);
+    // The one without a contributor can't be submitted, so it isn't kept
+    expect(recipes).toEqual([
+      expect.objectContaining({
+        id: 'user-1700000000000',
+        ingredients: [],
+        instructions: 'Blend all ingredients together.',
+        clientKey: expect.any(String),
+      }),
+    ]);
+    expect(await db.getAll<OutboxItem>('outbox')).toEqual([
+      expect.objectContaining({ id: 'user-1700000000000', kind: 'create', userId: 'user-1', attempts: 0 }),
+    ]);
+    expect(localStorage.getItem('smoothie-user-recipes')).toBeNull();
+  });
+
+  it('should submit recipes without their local bookkeeping', () => {
+    const recipe: LocalRecipe = { ...savedRecipe, ingredients: [], instructions: 'Blend', clientKey: 'key', authorId: 'user-1' };
+
+    expect(recipeBodyOf(recipe)).not.toHaveProperty('id');
+    expect(recipeBodyOf(recipe)).not.toHaveProperty('clientKey');
+    expect(recipeBodyOf(recipe)).toMatchObject({ name: 'Offline Smoothie', contributor: 'Sam' });
+  });
+});
@@ -0,0 +1,75 @@
+import type { Recipe } from '../../data/recipes';
+import type { OfflineDb } from './offlineDb';
+import { queueOperation, type RecipeBody } from './outbox';
+
+// Where recipes saved offline lived before the offline store; imported from there once
+const LEGACY_RECIPES_KEY = 'smoothie-user-recipes';
+
+// Recipes saved only on this device until the outbox gets them to the server
+export type LocalRecipe = Omit<Recipe, 'id'> & {
+  id: string;
+  createdAt?: string;
+  /** Sent as the Idempotency-Key on every submission attempt */
+  clientKey: string;
+  /** User who saved it; missing if they weren't signed in */
+  authorId?: string;
+};
+
+/**
+ * What gets submitted for a local recipe: the server assigns its own id and createdAt.
+ */
+export const recipeBodyOf = (recipe: LocalRecipe): RecipeBody => ({
+  name: recipe.name,
+  contributor: recipe.contributor,
+  emoji: recipe.emoji,
+  color: recipe.color,
+  ingredients: recipe.ingredients,
+  instructions: recipe.instructions,
+  servings: recipe.servings,
+  prepTime: recipe.prepTime,
+  containsFat: recipe.containsFat,
+  containsNuts: recipe.containsNuts,
+});
+
+// Fill in what older versions of the form could leave out. Without a name or contributor there's nothing
+// to go on, and the server would only reject it.
+const completeLocalRecipe = (recipe: Partial<LocalRecipe>): LocalRecipe | null => {
+  if (!recipe.id || !recipe.name || !recipe.contributor) return null;
+  return {
+    ...recipe,
+    ingredients: recipe.ingredients || [],
+    instructions: recipe.instructions || 'Blend all ingredients together.',
+    // Recipes saved before submissions were idempotent get their key now, so every later attempt reuses it
+    clientKey: recipe.clientKey || crypto.randomUUID(),
+  } as LocalRecipe;
+};
+
+/**
+ * Move recipes saved by earlier versions from localStorage into the offline store, each with a create queued.
+ */
+export async function importLegacyRecipes(db: OfflineDb): Promise<void> {
+  const saved = localStorage.getItem(LEGACY_RECIPES_KEY);
+  if (saved === null) return;
+  let recipes: Partial<LocalRecipe>[] = [];
+  try {
+    const parsed = JSON.parse(saved);
+    recipes = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    // Nothing readable to import
+  }
+  for (const recipe of recipes.map(completeLocalRecipe)) {
+    if (!recipe) continue;
+    await db.put('recipes', recipe);
+    await queueOperation(db, { kind: 'create', recipeId: recipe.id, userId: recipe.authorId });
+  }
+  localStorage.removeItem(LEGACY_RECIPES_KEY);
+}
+
+/**
+ * The recipes saved on this device, oldest first.
+ */
+export async function loadLocalRecipes(db: OfflineDb): Promise<LocalRecipe[]> {
+  const recipes = await db.getAll<LocalRecipe>('recipes');
+  // Ids are `user-<timestamp>`
+  return recipes.sort((a, b) => a.id.localeCompare(b.id));
+}
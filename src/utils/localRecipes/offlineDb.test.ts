@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBDatabase, IDBFactory, IDBObjectStore } from 'fake-indexeddb';
+import { createIndexedDb, type OfflineDb, type OfflineRecord } from './offlineDb';
+
+// happy-dom has no IndexedDB, so the app falls back to localStorage there; fake-indexeddb stands in for the browser's
+
+interface Note extends OfflineRecord {
+  text: string;
+}
+
+describe('createIndexedDb', () => {
+  let db: OfflineDb;
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    db = createIndexedDb('offline-db-test');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should put, replace and delete records by id, one store at a time', async () => {
+    await db.put<Note>('recipes', { id: 'a', text: 'first' });
+    await db.put<Note>('recipes', { id: 'b', text: 'second' });
+    await db.put<Note>('recipes', { id: 'a', text: 'replaced' });
+    await db.put<Note>('outbox', { id: 'a', text: 'queued' });
+    await db.delete('recipes', 'b');
+    await db.delete('recipes', 'never-saved');
+
+    expect(await db.getAll<Note>('recipes')).toEqual([{ id: 'a', text: 'replaced' }]);
+    expect(await db.getAll<Note>('outbox')).toEqual([{ id: 'a', text: 'queued' }]);
+  });
+
+  it('should keep records for the next time the database is opened', async () => {
+    await db.put<Note>('outbox', { id: 'a', text: 'queued' });
+
+    expect(await createIndexedDb('offline-db-test').getAll<Note>('outbox')).toEqual([{ id: 'a', text: 'queued' }]);
+  });
+
+  it('should only resolve a write once its transaction has committed', async () => {
+    const committed: boolean[] = [];
+    const transaction = IDBDatabase.prototype.transaction;
+    vi.spyOn(IDBDatabase.prototype, 'transaction').mockImplementation(function (this: IDBDatabase, ...args) {
+      const tx = transaction.apply(this, args);
+      committed.push(false);
+      const index = committed.length - 1;
+      tx.addEventListener('complete', () => {
+        committed[index] = true;
+      });
+      return tx;
+    });
+
+    await db.put<Note>('outbox', { id: 'a', text: 'queued' });
+
+    expect(committed.length).toBeGreaterThan(0);
+    expect(committed).not.toContain(false);
+  });
+
+  it('should reject a write whose transaction aborts, leaving nothing behind', async () => {
+    const put = IDBObjectStore.prototype.put;
+    vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementationOnce(function (this: IDBObjectStore, ...args) {
+      const request = put.apply(this, args);
+      // As when the browser runs out of quota before committing
+      this.transaction.abort();
+      return request;
+    });
+
+    await expect(db.put<Note>('outbox', { id: 'a', text: 'queued' })).rejects.toBeDefined();
+    expect(await db.getAll('outbox')).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+// The browser-side store for work that hasn't reached the server yet: recipes saved offline and the outbox
+// of changes waiting to be sent. IndexedDB where there is one; localStorage otherwise (some private modes,
+// and the test environment), behind the same interface.
+const DB_NAME = 'smoothie-offline';
+const DB_VERSION = 1;
+
+export type OfflineStoreName = 'recipes' | 'outbox';
+
+const STORE_NAMES: OfflineStoreName[] = ['recipes', 'outbox'];
+
+export interface OfflineRecord {
+  id: string;
+}
+
+export interface OfflineDb {
+  getAll<T extends OfflineRecord>(store: OfflineStoreName): Promise<T[]>;
+  /** Insert or replace the record with the same id */
+  put<T extends OfflineRecord>(store: OfflineStoreName, record: T): Promise<void>;
+  /** No-op when there is no such record */
+  delete(store: OfflineStoreName, id: string): Promise<void>;
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * An OfflineDb over an IndexedDB database, one object store per OfflineStoreName keyed by `id`.
+ */
+export function createIndexedDb(name: string = DB_NAME): OfflineDb {
+  let opened: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!opened) {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const store of STORE_NAMES) {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store, { keyPath: 'id' });
+          }
+        }
+      };
+      opened = requestResult(request);
+      // Let the next call try again instead of failing forever
+      opened.catch(() => {
+        opened = null;
+      });
+    }
+    return opened;
+  };
+
+  // Settles when the transaction does, not its request: a write isn't saved until the transaction commits,
+  // and callers go on to treat it as saved (e.g. an outbox entry the app then stops holding in memory)
+  const inStore = async <T>(
+    store: OfflineStoreName,
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open();
+    const transaction = db.transaction(store, mode);
+    const request = run(transaction.objectStore(store));
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+  };
+
+  return {
+    getAll: <T extends OfflineRecord>(store: OfflineStoreName) =>
+      inStore(store, 'readonly', (objectStore) => objectStore.getAll() as IDBRequest<T[]>),
+    put: async (store, record) => {
+      await inStore(store, 'readwrite', (objectStore) => objectStore.put(record));
+    },
+    delete: async (store, id) => {
+      await inStore(store, 'readwrite', (objectStore) => objectStore.delete(id));
+    },
+  };
+}
+
+/**
+ * An OfflineDb keeping each store as one JSON array under `<prefix>:<store>` in localStorage.
+ */
+export function createLocalStorageDb(prefix: string = DB_NAME): OfflineDb {
+  const read = <T extends OfflineRecord>(store: OfflineStoreName): T[] => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(`${prefix}:${store}`) || '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch {
+      return [];
+    }
+  };
+  const write = (store: OfflineStoreName, records: OfflineRecord[]) => {
+    if (records.length > 0) {
+      localStorage.setItem(`${prefix}:${store}`, JSON.stringify(records));
+    } else {
+      localStorage.removeItem(`${prefix}:${store}`);
+    }
+  };
+
+  return {
+    getAll: async (store) => read(store),
+    put: async (store, record) => {
+      const records = read(store);
+      const index = records.findIndex((r) => r.id === record.id);
+      write(store, index === -1 ? [...records, record] : records.map((r, i) => (i === index ? record : r)));
+    },
+    delete: async (store, id) => {
+      write(store, read(store).filter((r) => r.id !== id));
+    },
+  };
+}
+
+/**
+ * The OfflineDb to use in this browser.
+ */
+export const openOfflineDb = (): OfflineDb =>
+  typeof indexedDB === 'undefined' ? createLocalStorageDb() : createIndexedDb();
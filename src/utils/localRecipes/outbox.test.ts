@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createLocalStorageDb, type OfflineDb } from './offlineDb';
+import { backoffDelay, nextReplayAt, outboxStatusOf, queueOperation, replayOutbox, type OutboxItem } from './outbox';
+import { RecipeValidationError } from '../supabase/errors';
+
+const recipe = {
+  name: 'Berry Blast',
+  contributor: 'Sam',
+  emoji: '🫐',
+  color: '#FF1493',
+  ingredients: ['1 cup berries'],
+  instructions: 'Blend until smooth',
+  servings: 1,
+  prepTime: '5 min',
+  containsFat: false,
+  containsNuts: false,
+};
+
+describe('outbox', () => {
+  let db: OfflineDb;
+  const items = () => db.getAll<OutboxItem>('outbox');
+
+  beforeEach(() => {
+    localStorage.clear();
+    db = createLocalStorageDb();
+  });
+
+  it('should back off exponentially up to ten minutes', () => {
+    expect([1, 2, 3].map(backoffDelay)).toEqual([5000, 10000, 20000]);
+    expect(backoffDelay(20)).toBe(10 * 60 * 1000);
+  });
+
+  it('should keep one item per recipe, the latest change', async () => {
+    await queueOperation(db, { kind: 'update', recipeId: 'recipe:1:a', recipe, version: 2 }, { now: 1 });
+    await queueOperation(db, { kind: 'delete', recipeId: 'recipe:1:a' }, { now: 2 });
+
+    expect(await items()).toEqual([expect.objectContaining({ id: 'recipe:1:a', kind: 'delete', queuedAt: 2 })]);
+  });
+
+  it('should back off from the request that failed before queueing', async () => {
+    const offline = await queueOperation(db, { kind: 'delete', recipeId: 'recipe:1:a' }, { error: new TypeError('Failed to fetch'), now: 0 });
+    const refused = await queueOperation(db, { kind: 'delete', recipeId: 'recipe:2:b' }, { error: new Error('Failed to delete recipe: 500'), now: 0 });
+
+    expect(offline).toMatchObject({ attempts: 1, nextAttemptAt: 5000 });
+    expect(outboxStatusOf(offline)).toBe('pending');
+    expect(outboxStatusOf(refused)).toBe('failed: Failed to delete recipe: 500');
+    expect(nextReplayAt(await items())).toBe(5000);
+  });
+
+  it('should send due items and reschedule the ones that fail', async () => {
+    await queueOperation(db, { kind: 'delete', recipeId: 'recipe:1:a' }, { now: 0 });
+    await queueOperation(db, { kind: 'create', recipeId: 'user-1' }, { now: 1 });
+    await queueOperation(db, { kind: 'delete', recipeId: 'recipe:2:b' }, { error: new TypeError('Failed to fetch'), now: 2 });
+    const send = vi.fn(async (item: OutboxItem) => {
+      if (item.kind === 'create') throw new TypeError('Failed to fetch');
+    });
+
+    await replayOutbox(db, send, { now: 10 });
+
+    // recipe:2:b is still backing off
+    expect(send.mock.calls.map(([item]) => item.id)).toEqual(['recipe:1:a', 'user-1']);
+    const [retried, waiting] = await items();
+    expect(retried).toMatchObject({ id: 'user-1', attempts: 1, nextAttemptAt: 5010 });
+    expect(outboxStatusOf(retried)).toBe('pending');
+    expect(waiting).toMatchObject({ id: 'recipe:2:b', attempts: 1 });
+
+    await replayOutbox(db, async () => {}, { now: 10, ignoreBackoff: true });
+    expect(await items()).toEqual([]);
+  });
+
+  it('should stop retrying what the server refused', async () => {
+    await queueOperation(db, { kind: 'create', recipeId: 'user-1' }, { now: 0 });
+    const send = vi.fn().mockRejectedValue(new RecipeValidationError([{ field: 'name', message: 'Name is required' }]));
+
+    await replayOutbox(db, send, { now: 0 });
+    await replayOutbox(db, send, { now: 0, ignoreBackoff: true });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    const [item] = await items();
+    expect(outboxStatusOf(item)).toBe('failed: Name is required');
+    expect(nextReplayAt([item])).toBeNull();
+  });
+
+  it('should not drop a change queued while the older one was being sent', async () => {
+    await queueOperation(db, { kind: 'update', recipeId: 'recipe:1:a', recipe, version: 1 }, { now: 0 });
+
+    await replayOutbox(
+      db,
+      async () => {
+        await queueOperation(db, { kind: 'delete', recipeId: 'recipe:1:a' }, { now: 5 });
+      },
+      { now: 0 }
+    );
+
+    expect(await items()).toEqual([expect.objectContaining({ kind: 'delete', attempts: 0 })]);
+  });
+});
@@ -0,0 +1,141 @@
+import type { CommunityRecipe } from '../supabase/community';
+import { RecipeConflictError, RecipeValidationError } from '../supabase/errors';
+import type { OfflineDb } from './offlineDb';
+
+// Recipe changes that couldn't reach the server yet, kept in the offline store until they do. There's at most
+// one item per recipe: a newer change to the same recipe replaces the queued one.
+
+export type RecipeBody = Omit<CommunityRecipe, 'id' | 'createdAt'>;
+
+export type OutboxOperation =
+  /** Submit a recipe saved offline; what's sent is read from the recipes store, so later edits go too */
+  | { kind: 'create'; recipeId: string }
+  | { kind: 'update'; recipeId: string; recipe: RecipeBody; version?: number }
+  | { kind: 'delete'; recipeId: string };
+
+export interface OutboxFailure {
+  reason: string;
+  /** The server refused the change itself; sending it again won't help until it's edited */
+  permanent: boolean;
+}
+
+export type OutboxItem = OutboxOperation & {
+  /** The recipe id, which is what makes it one item per recipe */
+  id: string;
+  /** Whose session it has to go out under; missing for recipes saved signed out */
+  userId?: string;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  /** Why the last attempt failed; missing while it's only waiting for a connection */
+  failure?: OutboxFailure;
+};
+
+export type OutboxStatus = 'pending' | `failed: ${string}`;
+
+const BASE_DELAY_MS = 5 * 1000;
+const MAX_DELAY_MS = 10 * 60 * 1000;
+
+/**
+ * How long to wait before the next attempt after `attempts` failed ones: 5s, 10s, 20s... up to 10 minutes.
+ */
+export const backoffDelay = (attempts: number): number =>
+  Math.min(BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MS);
+
+/**
+ * What to tell the user about a failed attempt. Undefined for a request that never reached the server,
+ * which just stays pending until there's a connection.
+ */
+export const failureOf = (error: unknown): OutboxFailure | undefined => {
+  if (error instanceof TypeError) return undefined;
+  if (error instanceof RecipeValidationError) {
+    return { reason: error.errors.map((e) => e.message).join(', '), permanent: true };
+  }
+  if (error instanceof RecipeConflictError) {
+    return { reason: 'it was changed on another device', permanent: true };
+  }
+  return { reason: error instanceof Error ? error.message : String(error), permanent: false };
+};
+
+export const outboxStatusOf = (item: OutboxItem): OutboxStatus =>
+  item.failure ? `failed: ${item.failure.reason}` : 'pending';
+
+/**
+ * Queue a change, replacing whatever was queued for the same recipe. Pass the error from the request that
+ * just failed to back off from it; otherwise the change goes out on the next replay.
+ */
+export async function queueOperation(
+  db: OfflineDb,
+  operation: OutboxOperation & { userId?: string },
+  options: { error?: unknown; now?: number } = {}
+): Promise<OutboxItem> {
+  const now = options.now ?? Date.now();
+  const failed = 'error' in options;
+  const item: OutboxItem = {
+    ...operation,
+    id: operation.recipeId,
+    queuedAt: now,
+    attempts: failed ? 1 : 0,
+    nextAttemptAt: failed ? now + backoffDelay(1) : now,
+    failure: failed ? failureOf(options.error) : undefined,
+  };
+  await db.put('outbox', item);
+  return item;
+}
+
+/**
+ * Drop whatever is queued for the recipe.
+ */
+export const cancelOperation = (db: OfflineDb, recipeId: string): Promise<void> => db.delete('outbox', recipeId);
+
+/**
+ * When the outbox should next be replayed, or null if nothing is waiting to be retried.
+ */
+export const nextReplayAt = (items: OutboxItem[]): number | null => {
+  const times = items.filter((item) => !item.failure?.permanent).map((item) => item.nextAttemptAt);
+  return times.length > 0 ? Math.min(...times) : null;
+};
+
+export interface ReplayOptions {
+  now?: number;
+  /** Retry everything that can be retried, e.g. when the connection is back */
+  ignoreBackoff?: boolean;
+  /** Items to leave for later, e.g. another user's */
+  skip?: (item: OutboxItem) => boolean;
+}
+
+/**
+ * Send each due item, oldest first. Sent items leave the outbox unless a newer change to the recipe was
+ * queued meanwhile; failed ones are kept with their reason and a later attempt time.
+ */
+export async function replayOutbox(
+  db: OfflineDb,
+  send: (item: OutboxItem) => Promise<void>,
+  options: ReplayOptions = {}
+): Promise<void> {
+  const now = options.now ?? Date.now();
+  const items = (await db.getAll<OutboxItem>('outbox')).sort((a, b) => a.queuedAt - b.queuedAt);
+  for (const item of items) {
+    if (item.failure?.permanent || options.skip?.(item)) continue;
+    if (!options.ignoreBackoff && item.nextAttemptAt > now) continue;
+    try {
+      await send(item);
+    } catch (error) {
+      const attempts = item.attempts + 1;
+      await keepIfCurrent(db, item, { ...item, attempts, nextAttemptAt: now + backoffDelay(attempts), failure: failureOf(error) });
+      continue;
+    }
+    await keepIfCurrent(db, item, null);
+  }
+}
+
+// Replace (or with null, drop) an item, unless a newer change to its recipe took its place while it was out
+async function keepIfCurrent(db: OfflineDb, item: OutboxItem, replacement: OutboxItem | null): Promise<void> {
+  const current = (await db.getAll<OutboxItem>('outbox')).find((queued) => queued.id === item.id);
+  if (!current || current.queuedAt !== item.queuedAt) return;
+  if (replacement) {
+    await db.put('outbox', replacement);
+  } else {
+    await db.delete('outbox', item.id);
+  }
+}
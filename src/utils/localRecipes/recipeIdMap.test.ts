@@ -0,0 +1,29 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { loadRecipeIdMap, rememberSyncedRecipe, resolveRecipeId, resolveRecipeIds } from './recipeIdMap';
+
+describe('recipeIdMap', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should resolve synced local ids to their server ids', () => {
+    rememberSyncedRecipe('user-1700000000000', 'recipe:1700000000500:abcde');
+
+    expect(resolveRecipeId('user-1700000000000')).toBe('recipe:1700000000500:abcde');
+    expect(resolveRecipeId('user-1800000000000')).toBe('user-1800000000000');
+    expect(resolveRecipeId(3)).toBe(3);
+  });
+
+  it('should swap ids in a set without duplicates', () => {
+    rememberSyncedRecipe('user-1', 'recipe:1:a');
+
+    expect(resolveRecipeIds(['user-1', 'recipe:1:a', 2])).toEqual(new Set(['recipe:1:a', 2]));
+  });
+
+  it('should ignore a corrupt table', () => {
+    localStorage.setItem('smoothie-user-recipe-ids', 'not json');
+
+    expect(loadRecipeIdMap()).toEqual({});
+    expect(resolveRecipeId('user-1')).toBe('user-1');
+  });
+});
@@ -0,0 +1,39 @@
+// Recipes saved offline get a `user-<timestamp>` id, and a `recipe:...` id once the sync loop gets them to the
+// server. This table remembers the change so favorites and links made with the local id keep finding the
+// recipe. It stays in localStorage, unlike the recipes themselves, so it can be read before the first render.
+const ID_MAP_KEY = 'smoothie-user-recipe-ids';
+
+// Plenty for years of offline recipes; the oldest are dropped beyond it
+const MAX_ENTRIES = 500;
+
+/** Local id → server id */
+export type RecipeIdMap = Record<string, string>;
+
+export const loadRecipeIdMap = (): RecipeIdMap => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ID_MAP_KEY) || '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Record that the local recipe `localId` is now the community recipe `serverId`.
+ */
+export const rememberSyncedRecipe = (localId: string, serverId: string): void => {
+  const entries = Object.entries({ ...loadRecipeIdMap(), [localId]: serverId });
+  localStorage.setItem(ID_MAP_KEY, JSON.stringify(Object.fromEntries(entries.slice(-MAX_ENTRIES))));
+};
+
+/**
+ * The id a recipe has now: the server id for a synced local recipe, otherwise the id itself.
+ */
+export const resolveRecipeId = <T extends number | string>(id: T, map: RecipeIdMap = loadRecipeIdMap()): T | string =>
+  (typeof id === 'string' && map[id]) || id;
+
+/**
+ * The ids with synced local ids swapped for their server ids, dropping duplicates that creates.
+ */
+export const resolveRecipeIds = <T extends number | string>(ids: Iterable<T>, map: RecipeIdMap = loadRecipeIdMap()): Set<T | string> =>
+  new Set(Array.from(ids, (id) => resolveRecipeId(id, map)));
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { formatRoute, parseRoute, type Route } from './routes';
+import { rememberSyncedRecipe } from '../localRecipes/recipeIdMap';
+
+describe('routes', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should read every page from its path', () => {
+    const routes: Route[] = [
+      { name: 'home' },
+      { name: 'recipe', recipeId: 'recipe:1762405222159:19kx5' },
+      { name: 'recipe', recipeId: '3' },
+      { name: 'contributor', contributorKey: 'John & Jane' },
+      { name: 'profile' },
+      { name: 'myRecipes' },
+    ];
+
+    for (const route of routes) {
+      expect(parseRoute(formatRoute(route))).toEqual(route);
+    }
+    expect(formatRoute({ name: 'recipe', recipeId: 'recipe:1:a' })).toBe('/r/recipe:1:a');
+    expect(formatRoute({ name: 'contributor', contributorKey: 'John & Jane' })).toBe('/c/John%20%26%20Jane');
+  });
+
+  it('should read links shared before there were paths', () => {
+    expect(parseRoute('/', '?recipe=recipe%3A1%3Aa')).toEqual({ name: 'recipe', recipeId: 'recipe:1:a' });
+    expect(parseRoute('/', '?contributor=Test%20Contributor')).toEqual({ name: 'contributor', contributorKey: 'Test Contributor' });
+  });
+
+  it('should send links to a synced local recipe to its server id', () => {
+    rememberSyncedRecipe('user-1700000000000', 'recipe:1700000000500:abcde');
+
+    expect(parseRoute('/r/user-1700000000000')).toEqual({ name: 'recipe', recipeId: 'recipe:1700000000500:abcde' });
+    expect(parseRoute('/', '?recipe=user-1700000000000')).toEqual({ name: 'recipe', recipeId: 'recipe:1700000000500:abcde' });
+    expect(parseRoute('/r/user-1800000000000')).toEqual({ name: 'recipe', recipeId: 'user-1800000000000' });
+  });
+
+  it('should treat unknown and malformed paths as the main page', () => {
+    expect(parseRoute('/r')).toEqual({ name: 'home' });
+    expect(parseRoute('/r/1/extra')).toEqual({ name: 'home' });
+    expect(parseRoute('/me/settings')).toEqual({ name: 'home' });
+    expect(parseRoute('/c/%E0%A4%A')).toEqual({ name: 'home' });
+  });
+});
@@ -0,0 +1,68 @@
+import { resolveRecipeId } from '../localRecipes/recipeIdMap';
+
+// The app's pages and their paths. Vercel serves index.html for every path outside /assets/ (vercel.json), so
+// any of them can be opened, refreshed or shared directly.
+
+export type Route =
+  | { name: 'home' }
+  /** /r/:id */
+  | { name: 'recipe'; recipeId: string }
+  /** /c/:contributor, keyed like contributorKeyOf */
+  | { name: 'contributor'; contributorKey: string }
+  /** /me */
+  | { name: 'profile' }
+  /** /me/recipes */
+  | { name: 'myRecipes' };
+
+export const homeRoute: Route = { name: 'home' };
+
+// Recipe ids contain colons, which are fine in a path and read better unescaped
+const encodeSegment = (segment: string) => encodeURIComponent(segment).replace(/%3A/gi, ':');
+
+const decodeSegments = (pathname: string): string[] | null => {
+  try {
+    return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The route for a location. Also reads the `?recipe=` and `?contributor=` links shared before there were
+ * paths, and sends links to a local recipe that has synced since to its server id.
+ */
+export function parseRoute(pathname: string, search: string = ''): Route {
+  const segments = decodeSegments(pathname);
+  if (!segments) return homeRoute;
+
+  if (segments.length === 0) {
+    const params = new URLSearchParams(search);
+    const recipeId = params.get('recipe');
+    const contributorKey = params.get('contributor');
+    if (recipeId) return { name: 'recipe', recipeId: resolveRecipeId(recipeId) };
+    if (contributorKey) return { name: 'contributor', contributorKey };
+    return homeRoute;
+  }
+
+  const [section, id] = segments;
+  if (section === 'r' && segments.length === 2) return { name: 'recipe', recipeId: resolveRecipeId(id) };
+  if (section === 'c' && segments.length === 2) return { name: 'contributor', contributorKey: id };
+  if (section === 'me' && segments.length === 1) return { name: 'profile' };
+  if (section === 'me' && id === 'recipes' && segments.length === 2) return { name: 'myRecipes' };
+  return homeRoute;
+}
+
+export function formatRoute(route: Route): string {
+  switch (route.name) {
+    case 'home':
+      return '/';
+    case 'recipe':
+      return `/r/${encodeSegment(route.recipeId)}`;
+    case 'contributor':
+      return `/c/${encodeSegment(route.contributorKey)}`;
+    case 'profile':
+      return '/me';
+    case 'myRecipes':
+      return '/me/recipes';
+  }
+}
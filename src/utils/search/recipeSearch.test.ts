@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { foldText, tokenize, searchRecipes } from './recipeSearch';
+
+const recipe = (id: number, name: string, overrides: Partial<{ contributor: string; ingredients: string[]; instructions: string }> = {}) => ({
+  id,
+  name,
+  contributor: overrides.contributor ?? 'Sarah M.',
+  ingredients: overrides.ingredients ?? ['1 banana'],
+  instructions: overrides.instructions ?? 'Blend until smooth.',
+});
+
+describe('foldText', () => {
+  it('should lowercase and strip accents', () => {
+    expect(foldText('Açaí Bowl CRÈME')).toBe('acai bowl creme');
+  });
+});
+
+describe('tokenize', () => {
+  it('should split on punctuation and whitespace', () => {
+    expect(tokenize('1/2 cup Greek-yogurt, chilled!')).toEqual(['1', '2', 'cup', 'greek', 'yogurt', 'chilled']);
+  });
+});
+
+describe('searchRecipes', () => {
+  const recipes = [
+    recipe(1, 'Tropical Paradise', { ingredients: ['1 cup mango', '1/2 cup pineapple'] }),
+    recipe(2, 'Mango Tango', { ingredients: ['1 cup mango', '1 cup orange juice'] }),
+    recipe(3, 'Açaí Power Bowl', { ingredients: ['1 packet açaí', '1 banana'] }),
+    recipe(4, 'Green Goddess', { contributor: 'Mango Fan', ingredients: ['spinach', 'kale'] }),
+    recipe(5, 'Berry Blast', { instructions: 'Top with a slice of mango before serving.' }),
+  ];
+
+  it('should match case-insensitively and without accents', () => {
+    expect(searchRecipes(recipes, 'ACAI').map((r) => r.id)).toEqual([3]);
+  });
+
+  it('should rank name matches above contributor, ingredient and instruction matches', () => {
+    expect(searchRecipes(recipes, 'mango').map((r) => r.id)).toEqual([2, 4, 1, 5]);
+  });
+
+  it('should require every word of the query to match', () => {
+    expect(searchRecipes(recipes, 'mango pineapple').map((r) => r.id)).toEqual([1]);
+  });
+
+  it('should match word prefixes', () => {
+    expect(searchRecipes(recipes, 'trop').map((r) => r.id)).toEqual([1]);
+  });
+
+  it('should return nothing for a blank query', () => {
+    expect(searchRecipes(recipes, '  ')).toEqual([]);
+  });
+
+  it('should respect the limit', () => {
+    expect(searchRecipes(recipes, 'mango', 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,8 @@
+// Re-export the search shared with the recipes edge function, so the app can search offline
+export {
+  searchRecipes,
+  scoreRecipe,
+  foldText,
+  tokenize,
+  type SearchableRecipe,
+} from '../../../supabase/functions/_shared/recipeSearch.ts';
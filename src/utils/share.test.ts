@@ -41,7 +41,7 @@ describe('shareRecipe', () => {
     // Should try text-only first (better for Signal and similar apps)
     expect(mockShare).toHaveBeenCalledWith({
       title: 'Test Smoothie - Smoothie Recipe',
-      text: 'Check out this smoothie recipe: Test Smoothie 🥤 by Test User\nhttp://localhost:3000/?recipe=1',
+      text: 'Check out this smoothie recipe: Test Smoothie 🥤 by Test User\nhttp://localhost:3000/r/1',
     });
   });
 
@@ -63,7 +63,7 @@ describe('shareRecipe', () => {
     const result = await shareRecipe(mockRecipe);
 
     expect(result).toBe(true);
-    expect(mockWriteText).toHaveBeenCalledWith('Check out this smoothie recipe: Test Smoothie 🥤 by Test User\nhttp://localhost:3000/?recipe=1');
+    expect(mockWriteText).toHaveBeenCalledWith('Check out this smoothie recipe: Test Smoothie 🥤 by Test User\nhttp://localhost:3000/r/1');
   });
 
   it('should fallback to clipboard when canShare returns false', async () => {
@@ -90,7 +90,7 @@ describe('shareRecipe', () => {
 
     expect(result).toBe(true);
     expect(mockShare).not.toHaveBeenCalled();
-    expect(mockWriteText).toHaveBeenCalledWith('Check out this smoothie recipe: Test Smoothie 🥤 by Test User\nhttp://localhost:3000/?recipe=1');
+    expect(mockWriteText).toHaveBeenCalledWith('Check out this smoothie recipe: Test Smoothie 🥤 by Test User\nhttp://localhost:3000/r/1');
   });
 
   it('should return false when user cancels Web Share', async () => {
@@ -136,7 +136,7 @@ describe('shareRecipe', () => {
     const result = await shareRecipe(mockRecipe);
 
     expect(result).toBe(true);
-    expect(mockWriteText).toHaveBeenCalledWith('Check out this smoothie recipe: Test Smoothie 🥤 by Test User\nhttp://localhost:3000/?recipe=1');
+    expect(mockWriteText).toHaveBeenCalledWith('Check out this smoothie recipe: Test Smoothie 🥤 by Test User\nhttp://localhost:3000/r/1');
   });
 
   it('should use execCommand fallback when clipboard API fails', async () => {
@@ -224,7 +224,7 @@ describe('shareContributorList', () => {
     expect(result).toBe(true);
     expect(mockShare).toHaveBeenCalledWith({
       title: "Test Contributor's Smoothie Recipes",
-      text: "Check out Test Contributor's smoothie recipes! 5 recipes available.\nhttp://localhost:3000/?contributor=Test%20Contributor",
+      text: "Check out Test Contributor's smoothie recipes! 5 recipes available.\nhttp://localhost:3000/c/Test%20Contributor",
     });
   });
 
@@ -245,7 +245,7 @@ describe('shareContributorList', () => {
     const result = await shareContributorList('Test Contributor', 3);
 
     expect(result).toBe(true);
-    expect(mockWriteText).toHaveBeenCalledWith("Check out Test Contributor's smoothie recipes! 3 recipes available.\nhttp://localhost:3000/?contributor=Test%20Contributor");
+    expect(mockWriteText).toHaveBeenCalledWith("Check out Test Contributor's smoothie recipes! 3 recipes available.\nhttp://localhost:3000/c/Test%20Contributor");
   });
 
   it('should handle singular recipe count', async () => {
@@ -264,7 +264,7 @@ describe('shareContributorList', () => {
     const result = await shareContributorList('Test Contributor', 1);
 
     expect(result).toBe(true);
-    expect(mockWriteText).toHaveBeenCalledWith("Check out Test Contributor's smoothie recipes! 1 recipe available.\nhttp://localhost:3000/?contributor=Test%20Contributor");
+    expect(mockWriteText).toHaveBeenCalledWith("Check out Test Contributor's smoothie recipes! 1 recipe available.\nhttp://localhost:3000/c/Test%20Contributor");
   });
 
   it('should URL encode contributor names with special characters', async () => {
@@ -283,7 +283,26 @@ describe('shareContributorList', () => {
     const result = await shareContributorList('John & Jane', 2);
 
     expect(result).toBe(true);
-    expect(mockWriteText).toHaveBeenCalledWith("Check out John & Jane's smoothie recipes! 2 recipes available.\nhttp://localhost:3000/?contributor=John%20%26%20Jane");
+    expect(mockWriteText).toHaveBeenCalledWith("Check out John & Jane's smoothie recipes! 2 recipes available.\nhttp://localhost:3000/c/John%20%26%20Jane");
+  });
+
+  it('should link to the contributor key while showing the name', async () => {
+    const mockWriteText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'share', {
+      writable: true,
+      value: undefined,
+    });
+    Object.defineProperty(navigator, 'clipboard', {
+      writable: true,
+      value: {
+        writeText: mockWriteText,
+      },
+    });
+
+    const result = await shareContributorList('Test Contributor', 2, 'user-123');
+
+    expect(result).toBe(true);
+    expect(mockWriteText).toHaveBeenCalledWith("Check out Test Contributor's smoothie recipes! 2 recipes available.\nhttp://localhost:3000/c/user-123");
   });
 });
 
@@ -1,3 +1,5 @@
+import { formatRoute } from './routing/routes';
+
 export interface ShareOptions {
   title: string;
   text: string;
@@ -5,12 +7,11 @@ export interface ShareOptions {
 }
 
 /**
- * Share a contributor's recipe list using Web Share API if available, otherwise fallback to copy link
+ * Share a contributor's recipe list using Web Share API if available, otherwise fallback to copy link.
+ * The link carries `contributorKey` (the author's user id) when given, so it survives a nickname change.
  */
-export async function shareContributorList(contributor: string, recipeCount: number): Promise<boolean> {
-  // URL encode the contributor name to handle special characters
-  const encodedContributor = encodeURIComponent(contributor);
-  const shareUrl = `${window.location.origin}${window.location.pathname}?contributor=${encodedContributor}`;
+export async function shareContributorList(contributor: string, recipeCount: number, contributorKey: string = contributor): Promise<boolean> {
+  const shareUrl = `${window.location.origin}${formatRoute({ name: 'contributor', contributorKey })}`;
   const shareText = `Check out ${contributor}'s smoothie recipes! ${recipeCount} ${recipeCount === 1 ? 'recipe' : 'recipes'} available.`;
   
   // Try sharing with text-only first (includes URL in text for apps like Signal)
@@ -97,9 +98,7 @@ export async function shareContributorList(contributor: string, recipeCount: num
  * Share a recipe using Web Share API if available, otherwise fallback to copy link
  */
 export async function shareRecipe(recipe: { id: number | string; name: string; contributor: string; emoji: string }): Promise<boolean> {
-  // URL encode the recipe ID to handle special characters like colons in community recipe IDs
-  const encodedRecipeId = encodeURIComponent(String(recipe.id));
-  const shareUrl = `${window.location.origin}${window.location.pathname}?recipe=${encodedRecipeId}`;
+  const shareUrl = `${window.location.origin}${formatRoute({ name: 'recipe', recipeId: String(recipe.id) })}`;
   const shareText = `Check out this smoothie recipe: ${recipe.name} ${recipe.emoji} by ${recipe.contributor}`;
   
   // Try sharing with text-only first (includes URL in text for apps like Signal)
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createApp } from '../../../supabase/functions/recipes/app';
+import { createMemoryStorage, type KvStorage } from '../../../supabase/functions/_shared/kvStorage';
+import { buildRecipes } from '../../../supabase/seed/recipeFactory';
+import { toSeedEntries } from '../../../supabase/seed/seed';
+import { profileKey } from '../../../supabase/functions/_shared/profiles';
+import { TEST_JWT_SECRET, recipeInput, tokenFor } from '../../../supabase/functions/_shared/testing';
+import {
+  fetchCommunityRecipe,
+  fetchCommunityRecipes,
+  searchCommunityRecipes,
+  fetchRecipeRatings,
+  rateCommunityRecipe,
+  submitCommunityRecipe,
+  updateCommunityRecipe,
+  fetchRecipeRevisions,
+  revertCommunityRecipe,
+  deleteCommunityRecipe,
+  fetchDeletedRecipes,
+  restoreCommunityRecipe,
+  renameRecipeAuthor,
+  COMMUNITY_PAGE_SIZE,
+} from './community';
+import { RecipeConflictError, RecipeValidationError } from './errors';
+
+// The client functions against the real recipes app, so a route or payload change on either side fails here.
+// fetch is routed into the app in-process; everything up to /functions/v1 is dropped like Supabase does.
+
+describe('community client against the recipes app', () => {
+  const originalFetch = global.fetch;
+  let kv: KvStorage;
+  let accessToken: string;
+  let otherToken: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    kv = createMemoryStorage();
+    const app = createApp({ kv, jwtSecret: TEST_JWT_SECRET });
+    global.fetch = vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      return Promise.resolve(app.request(url.slice(url.indexOf('/functions/v1') + '/functions/v1'.length), init));
+    }) as typeof fetch;
+    accessToken = await tokenFor('owner', 'TestUser');
+    await kv.set(profileKey('owner'), { userId: 'owner', nickname: 'TestUser' });
+    otherToken = await tokenFor('someone-else', 'Other');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  it('should submit a recipe and read it back', async () => {
+    const created = await submitCommunityRecipe(recipeInput, { accessToken });
+
+    expect(created).toMatchObject({ ...recipeInput, authorId: 'owner', version: 1 });
+    expect(await fetchCommunityRecipe(created.id)).toEqual(created);
+  });
+
+  it('should return the first recipe when a submission is retried with the same key', async () => {
+    const first = await submitCommunityRecipe(recipeInput, { accessToken, idempotencyKey: 'retry-key' });
+    const retry = await submitCommunityRecipe(recipeInput, { accessToken, idempotencyKey: 'retry-key' });
+
+    expect(retry.id).toBe(first.id);
+    expect(await fetchCommunityRecipes()).toHaveLength(1);
+  });
+
+  it('should surface field errors as RecipeValidationError', async () => {
+    const error = await submitCommunityRecipe({ ...recipeInput, name: '' }, { accessToken }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RecipeValidationError);
+    expect(error.errors.map((e: { field: string }) => e.field)).toContain('name');
+  });
+
+  it('should follow cursors across pages', async () => {
+    const seeded = buildRecipes(COMMUNITY_PAGE_SIZE + 3);
+    for (const { key, value } of toSeedEntries(seeded)) {
+      await kv.set(key, value);
+    }
+
+    const recipes = await fetchCommunityRecipes();
+
+    expect(recipes.map((r) => r.id)).toEqual(seeded.map((r) => r.id));
+  });
+
+  it('should find recipes by search', async () => {
+    const created = await submitCommunityRecipe(recipeInput, { accessToken });
+    await submitCommunityRecipe({ ...recipeInput, name: 'Berry Blast', ingredients: ['1 cup berries'] }, { accessToken });
+
+    const results = await searchCommunityRecipes('mango');
+
+    expect(results.map((r) => r.id)).toEqual([created.id]);
+  });
+
+  it('should update with the current version and keep the history', async () => {
+    const created = await submitCommunityRecipe(recipeInput, { accessToken });
+
+    const updated = await updateCommunityRecipe(created.id, { ...recipeInput, name: 'Mango Madness' }, { accessToken, version: created.version });
+
+    expect(updated).toMatchObject({ name: 'Mango Madness', version: 2 });
+    const revisions = await fetchRecipeRevisions(created.id);
+    expect(revisions[0].recipe.name).toBe('Mango Tango');
+
+    const reverted = await revertCommunityRecipe(created.id, revisions[0].revision, { accessToken });
+    expect(reverted).toMatchObject({ name: 'Mango Tango', version: 3 });
+  });
+
+  it('should throw RecipeConflictError with the newer copy for a stale update', async () => {
+    const created = await submitCommunityRecipe(recipeInput, { accessToken });
+    await updateCommunityRecipe(created.id, { ...recipeInput, name: 'First Edit' }, { accessToken, version: 1 });
+
+    const error = await updateCommunityRecipe(created.id, { ...recipeInput, name: 'Second Edit' }, { accessToken, version: 1 }).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(RecipeConflictError);
+    expect(error.current).toMatchObject({ name: 'First Edit', version: 2 });
+  });
+
+  it('should reject invalid updates as RecipeValidationError', async () => {
+    const created = await submitCommunityRecipe(recipeInput, { accessToken });
+
+    const error = await updateCommunityRecipe(created.id, { ...recipeInput, servings: 0 }, { accessToken, version: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RecipeValidationError);
+  });
+
+  it('should rate a recipe and read the ratings back', async () => {
+    const created = await submitCommunityRecipe(recipeInput, { accessToken });
+
+    const saved = await rateCommunityRecipe(created.id, { rating: 4, review: 'Tasty' }, { accessToken: otherToken });
+    const { ratings, summary } = await fetchRecipeRatings(created.id);
+
+    expect(saved.summary).toEqual(summary);
+    expect(summary).toMatchObject({ count: 1 });
+    expect(ratings[0]).toMatchObject({ rating: 4, review: 'Tasty' });
+  });
+
+  it('should move a deleted recipe to the trash and restore it', async () => {
+    const created = await submitCommunityRecipe(recipeInput, { accessToken });
+
+    await deleteCommunityRecipe(created.id, { accessToken });
+
+    expect(await fetchCommunityRecipe(created.id)).toBeNull();
+    expect((await fetchDeletedRecipes({ accessToken })).map((r) => r.id)).toEqual([created.id]);
+
+    const restored = await restoreCommunityRecipe(created.id, { accessToken });
+    expect(restored.deletedAt).toBeFalsy();
+    expect(await fetchCommunityRecipe(created.id)).toMatchObject({ id: created.id });
+  });
+
+  it('should rename the author on their recipes and list them by author id', async () => {
+    const created = await submitCommunityRecipe(recipeInput, { accessToken });
+    await submitCommunityRecipe(recipeInput, { accessToken: otherToken });
+
+    await kv.set(profileKey('owner'), { userId: 'owner', nickname: 'Blender Boss' });
+
+    expect(await renameRecipeAuthor({ accessToken })).toBe(1);
+
+    const mine = await fetchCommunityRecipes({ author: 'owner' });
+    expect(mine.map((r) => [r.id, r.contributor])).toEqual([[created.id, 'Blender Boss']]);
+  });
+
+  it('should resolve missing recipes to null', async () => {
+    expect(await fetchCommunityRecipe('recipe:missing')).toBeNull();
+  });
+
+  it('should refuse to delete someone else\'s recipe', async () => {
+    const created = await submitCommunityRecipe(recipeInput, { accessToken });
+
+    await expect(deleteCommunityRecipe(created.id, { accessToken: otherToken })).rejects.toThrow('403');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { updateCommunityRecipe } from './community';
+import { updateCommunityRecipe, fetchCommunityRecipe, fetchCommunityRecipesPage, fetchCommunityRecipes, searchCommunityRecipes, fetchRecipeRatings, rateCommunityRecipe, fetchRecipeRevisions, revertCommunityRecipe, fetchDeletedRecipes, restoreCommunityRecipe, submitCommunityRecipe } from './community';
+import { RecipeConflictError, RecipeValidationError } from './errors';
 
 describe('updateCommunityRecipe', () => {
   const originalFetch = global.fetch;
@@ -95,6 +96,52 @@ describe('updateCommunityRecipe', () => {
     expect(body).toBe(JSON.stringify(mockRecipe));
   });
 
+  it('should authorize the update with the session access token when provided', async () => {
+    const mockResponse = {
+      ok: true,
+      json: async () => ({
+        success: true,
+        recipe: { id: mockRecipeId, ...mockRecipe },
+      }),
+    };
+
+    vi.mocked(global.fetch).mockResolvedValue(mockResponse as Response);
+
+    await updateCommunityRecipe(mockRecipeId, mockRecipe, { accessToken: 'user-session-token' });
+
+    const headers = vi.mocked(global.fetch).mock.calls[0][1]?.headers as Record<string, string>;
+    expect(headers.Authorization).toBe('Bearer user-session-token');
+  });
+
+  it('should return 403 errors from the server when the user does not own the recipe', async () => {
+    const mockResponse = {
+      ok: false,
+      status: 403,
+      text: async () => '{"error":"You can only edit your own recipes"}',
+    };
+
+    vi.mocked(global.fetch).mockResolvedValue(mockResponse as Response);
+
+    await expect(
+      updateCommunityRecipe(mockRecipeId, mockRecipe, { accessToken: 'someone-else' })
+    ).rejects.toThrow('Failed to update recipe: 403');
+  });
+
+  it('should throw a RecipeValidationError with field errors on 400', async () => {
+    const fieldErrors = [{ field: 'servings', message: 'Servings must be a number between 1 and 100' }];
+    const mockResponse = {
+      ok: false,
+      status: 400,
+      text: async () => JSON.stringify({ error: 'Invalid recipe', errors: fieldErrors }),
+    };
+
+    vi.mocked(global.fetch).mockResolvedValue(mockResponse as Response);
+
+    const error = await updateCommunityRecipe(mockRecipeId, { ...mockRecipe, servings: 0 }).catch((e) => e);
+    expect(error).toBeInstanceOf(RecipeValidationError);
+    expect(error.errors).toEqual(fieldErrors);
+  });
+
   it('should return updated recipe on success', async () => {
     const mockUpdatedRecipe = {
       id: mockRecipeId,
@@ -153,5 +200,447 @@ describe('updateCommunityRecipe', () => {
     // Should NOT contain double encoding
     expect(url).not.toContain('recipe%253A');
   });
+
+  it('should send the version the edit started from as If-Match', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, recipe: { id: mockRecipeId, ...mockRecipe, version: 4 } }),
+    } as Response);
+
+    await updateCommunityRecipe(mockRecipeId, mockRecipe, { version: 3 });
+
+    const headers = vi.mocked(global.fetch).mock.calls[0][1]?.headers as Record<string, string>;
+    expect(headers['If-Match']).toBe('"3"');
+  });
+
+  it('should not guess a version the edit did not start from', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 428,
+      text: async () => '{"error":"If-Match header with the recipe version is required"}',
+    } as Response);
+
+    await expect(updateCommunityRecipe(mockRecipeId, mockRecipe)).rejects.toThrow('Failed to update recipe: 428');
+
+    const headers = vi.mocked(global.fetch).mock.calls[0][1]?.headers as Record<string, string>;
+    expect(headers).not.toHaveProperty('If-Match');
+  });
+
+  it('should throw a RecipeConflictError with the server copy on 409', async () => {
+    const current = { id: mockRecipeId, ...mockRecipe, name: 'Changed Elsewhere', version: 5 };
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 409,
+      json: async () => ({ error: 'Recipe was changed since you loaded it', recipe: current }),
+    } as Response);
+
+    const error = await updateCommunityRecipe(mockRecipeId, mockRecipe, { version: 3 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RecipeConflictError);
+    expect(error.current).toEqual(current);
+  });
+});
+
+describe('fetchCommunityRecipesPage', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  it('should send paging and filter params in the query string', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      headers: new Headers(),
+      json: async () => ({ recipes: [], nextCursor: null }),
+    } as Response);
+
+    await fetchCommunityRecipesPage({
+      limit: 20,
+      cursor: 'abc=',
+      noFat: true,
+      noNuts: false,
+      contributor: 'Sarah M.',
+      createdAfter: '2024-01-01T00:00:00.000Z',
+    });
+
+    const url = new URL(vi.mocked(global.fetch).mock.calls[0][0] as string);
+    expect(url.pathname).toMatch(/\/functions\/v1\/recipes$/);
+    expect(url.searchParams.get('limit')).toBe('20');
+    expect(url.searchParams.get('cursor')).toBe('abc=');
+    expect(url.searchParams.get('noFat')).toBe('true');
+    expect(url.searchParams.has('noNuts')).toBe(false);
+    expect(url.searchParams.get('contributor')).toBe('Sarah M.');
+    expect(url.searchParams.get('createdAfter')).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('should default to a page of 50 recipes', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      headers: new Headers(),
+      json: async () => ({ recipes: [], nextCursor: null }),
+    } as Response);
+
+    await fetchCommunityRecipesPage();
+
+    const url = new URL(vi.mocked(global.fetch).mock.calls[0][0] as string);
+    expect(url.searchParams.get('limit')).toBe('50');
+  });
+
+  it('should treat a response without nextCursor as the last page', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      headers: new Headers(),
+      json: async () => ({ recipes: [{ id: 'recipe:1:a' }] }),
+    } as Response);
+
+    const page = await fetchCommunityRecipesPage();
+    expect(page.nextCursor).toBeNull();
+    expect(page.recipes).toHaveLength(1);
+  });
+
+  it('should report when the service worker answered from its cache', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      headers: new Headers({ 'X-Cached-At': '2025-06-01T08:00:00.000Z' }),
+      json: async () => ({ recipes: [], nextCursor: null }),
+    } as Response);
+
+    expect((await fetchCommunityRecipesPage()).cachedAt).toBe('2025-06-01T08:00:00.000Z');
+  });
 });
 
+describe('fetchCommunityRecipes', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  it('should follow nextCursor until the last page', async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers(),
+        json: async () => ({ recipes: [{ id: 'recipe:1:a' }], nextCursor: 'next' }),
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers(),
+        json: async () => ({ recipes: [{ id: 'recipe:2:b' }], nextCursor: null }),
+      } as Response);
+
+    const recipes = await fetchCommunityRecipes({ noNuts: true });
+
+    expect(recipes.map((r) => r.id)).toEqual(['recipe:1:a', 'recipe:2:b']);
+    const secondUrl = new URL(vi.mocked(global.fetch).mock.calls[1][0] as string);
+    expect(secondUrl.searchParams.get('cursor')).toBe('next');
+    expect(secondUrl.searchParams.get('noNuts')).toBe('true');
+  });
+});
+
+describe('fetchCommunityRecipe', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  it('should GET the recipe by its encoded id', async () => {
+    const recipe = { id: 'recipe:1762405222159:19kx5', name: 'Shared Smoothie' };
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ recipe }),
+    } as Response);
+
+    await expect(fetchCommunityRecipe(recipe.id)).resolves.toEqual(recipe);
+
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toMatch(/\/functions\/v1\/recipes\/recipe%3A1762405222159%3A19kx5$/);
+    expect(init?.method).toBe('GET');
+  });
+
+  it('should resolve to null when the recipe does not exist', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 404,
+      json: async () => ({ error: 'Recipe not found' }),
+    } as Response);
+
+    await expect(fetchCommunityRecipe('recipe:1:gone')).resolves.toBeNull();
+  });
+
+  it('should resolve to null when the recipe is in the trash', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 410,
+      json: async () => ({ error: 'Recipe was deleted' }),
+    } as Response);
+
+    await expect(fetchCommunityRecipe('recipe:1:trashed')).resolves.toBeNull();
+  });
+
+  it('should throw on server errors', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 500,
+    } as Response);
+
+    await expect(fetchCommunityRecipe('recipe:1:a')).rejects.toThrow('Failed to fetch recipe: 500');
+  });
+});
+
+describe('searchCommunityRecipes', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  it('should call the search endpoint with the query and limit', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ recipes: [{ id: 'recipe:1:a', name: 'Mango Tango' }] }),
+    } as Response);
+
+    const recipes = await searchCommunityRecipes('açaí bowl', { limit: 10 });
+
+    expect(recipes).toHaveLength(1);
+    const url = new URL(vi.mocked(global.fetch).mock.calls[0][0] as string);
+    expect(url.pathname).toMatch(/\/functions\/v1\/recipes\/search$/);
+    expect(url.searchParams.get('q')).toBe('açaí bowl');
+    expect(url.searchParams.get('limit')).toBe('10');
+  });
+
+  it('should throw when the search fails', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({ ok: false, status: 400 } as Response);
+
+    await expect(searchCommunityRecipes('x')).rejects.toThrow('Failed to search recipes: 400');
+  });
+});
+
+describe('recipe ratings', () => {
+  const originalFetch = global.fetch;
+  const recipeId = 'recipe:1762405222159:19kx5';
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  it('should fetch ratings from /recipes/:id/ratings', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ ratings: [], summary: { average: 0, count: 0 } }),
+    } as Response);
+
+    const result = await fetchRecipeRatings(recipeId);
+
+    expect(result.summary).toEqual({ average: 0, count: 0 });
+    expect(vi.mocked(global.fetch).mock.calls[0][0]).toMatch(/\/recipes\/recipe%3A1762405222159%3A19kx5\/ratings$/);
+  });
+
+  it('should PUT the rating as the signed-in user', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, rating: { rating: 5 }, summary: { average: 5, count: 1 } }),
+    } as Response);
+
+    const result = await rateCommunityRecipe(recipeId, { rating: 5, review: 'Great' }, { accessToken: 'user-token' });
+
+    expect(result.summary).toEqual({ average: 5, count: 1 });
+    const [, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(init?.method).toBe('PUT');
+    expect(JSON.parse(init?.body as string)).toEqual({ rating: 5, review: 'Great' });
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer user-token');
+  });
+
+  it('should throw a RecipeValidationError for an invalid rating', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 400,
+      text: async () => JSON.stringify({ error: 'Invalid rating', errors: [{ field: 'rating', message: 'Rating must be between 1 and 5 stars' }] }),
+    } as Response);
+
+    await expect(rateCommunityRecipe(recipeId, { rating: 9 })).rejects.toBeInstanceOf(RecipeValidationError);
+  });
+});
+
+describe('recipe revisions', () => {
+  const originalFetch = global.fetch;
+  const recipeId = 'recipe:1762405222159:19kx5';
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  it('should fetch revisions from /recipes/:id/revisions', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ revisions: [{ revision: 1 }] }),
+    } as Response);
+
+    const revisions = await fetchRecipeRevisions(recipeId);
+
+    expect(revisions).toHaveLength(1);
+    expect(vi.mocked(global.fetch).mock.calls[0][0]).toMatch(/\/recipes\/recipe%3A1762405222159%3A19kx5\/revisions$/);
+  });
+
+  it('should POST the revision number to /recipes/:id/revert', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, recipe: { id: recipeId, name: 'Restored' } }),
+    } as Response);
+
+    const recipe = await revertCommunityRecipe(recipeId, 2, { accessToken: 'user-token' });
+
+    expect(recipe.name).toBe('Restored');
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toMatch(/\/revert$/);
+    expect(init?.method).toBe('POST');
+    expect(JSON.parse(init?.body as string)).toEqual({ revision: 2 });
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer user-token');
+  });
+
+  it('should throw when the revert is rejected', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 403,
+      text: async () => 'You can only edit your own recipes',
+    } as Response);
+
+    await expect(revertCommunityRecipe(recipeId, 1)).rejects.toThrow('Failed to revert recipe: 403');
+  });
+});
+
+describe('recipe trash', () => {
+  const originalFetch = global.fetch;
+  const recipeId = 'recipe:1762405222159:19kx5';
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  it('should fetch the signed-in user\'s trash from /recipes/trash', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ recipes: [{ id: recipeId, deletedAt: '2024-03-01T12:00:00.000Z' }] }),
+    } as Response);
+
+    const recipes = await fetchDeletedRecipes({ accessToken: 'user-token' });
+
+    expect(recipes).toHaveLength(1);
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toMatch(/\/recipes\/trash$/);
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer user-token');
+  });
+
+  it('should POST to /recipes/:id/restore and return the restored recipe', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, recipe: { id: recipeId, name: 'Back Again' } }),
+    } as Response);
+
+    const recipe = await restoreCommunityRecipe(recipeId, { accessToken: 'user-token' });
+
+    expect(recipe.name).toBe('Back Again');
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toMatch(/\/recipes\/recipe%3A1762405222159%3A19kx5\/restore$/);
+    expect(init?.method).toBe('POST');
+  });
+
+  it('should throw when the recipe is no longer in the trash', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 404,
+      text: async () => 'Recipe not found in trash',
+    } as Response);
+
+    await expect(restoreCommunityRecipe(recipeId)).rejects.toThrow('Failed to restore recipe: 404');
+  });
+});
+
+describe('submitCommunityRecipe', () => {
+  const originalFetch = global.fetch;
+  const recipe = {
+    name: 'Mango Tango',
+    contributor: 'TestUser',
+    emoji: '🥭',
+    color: '#FFA500',
+    ingredients: ['1 cup mango'],
+    instructions: 'Blend until smooth',
+    servings: 2,
+    prepTime: '5 min',
+    containsFat: false,
+    containsNuts: false,
+  };
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = originalFetch;
+  });
+
+  it('should send the idempotency key as a header', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, recipe: { ...recipe, id: 'recipe:1:a' } }),
+    } as Response);
+
+    await submitCommunityRecipe(recipe, { accessToken: 'user-token', idempotencyKey: 'key-123' });
+
+    const [, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(init?.method).toBe('POST');
+    expect((init?.headers as Record<string, string>)['Idempotency-Key']).toBe('key-123');
+  });
+
+  it('should omit the header without a key', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, recipe: { ...recipe, id: 'recipe:1:a' } }),
+    } as Response);
+
+    await submitCommunityRecipe(recipe);
+
+    const [, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(init?.headers as Record<string, string>).not.toHaveProperty('Idempotency-Key');
+  });
+});
@@ -1,49 +1,88 @@
+import { RecipeConflictError, RecipeValidationError } from './errors';
+import type { RecipeFieldError } from '../validation/recipeSchema';
+import type { RatingInput, RatingSummary, RecipeRating } from '../validation/ratingSchema';
+import type { RecipeRevision } from '../history/recipeRevisions';
+import type { CommunityRecipe, ConflictResponse, ResponseOf } from './recipesContract';
+import { toETag } from '../history/recipeVersion';
+import { authorizedHeaders, defaultHeaders, functionUrl } from './functions';
 
-export interface CommunityRecipe {
-  id: string;
-  name: string;
-  contributor: string;
-  emoji: string;
-  color: string;
-  ingredients: string[];
-  instructions: string;
-  servings: number;
-  prepTime: string;
-  containsFat: boolean;
-  containsNuts: boolean;
-  createdAt?: string;
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const envProjectId = (import.meta as any).env?.VITE_SUPABASE_PROJECT_ID as string | undefined;
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const envUrl = (import.meta as any).env?.VITE_SUPABASE_URL as string | undefined;
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const envAnon = (import.meta as any).env?.VITE_SUPABASE_ANON_KEY as string | undefined;
-
-// Support local development: if VITE_SUPABASE_URL points to localhost, use it directly
-// Otherwise, construct the URL from project ID or use the provided URL
-const baseUrl = envUrl
-  ? `${envUrl}/functions/v1/recipes`
-  : `https://${envProjectId}.supabase.co/functions/v1/recipes`;
-
-const defaultHeaders: Record<string, string> = {
-  'Content-Type': 'application/json',
-  apikey: envAnon ?? '',
-  Authorization: `Bearer ${envAnon ?? ''}`,
+export type { CommunityRecipe };
+
+export interface CommunityRequestOptions {
+  /** Access token of the signed-in user's Supabase session */
+  accessToken?: string;
+}
+
+const baseUrl = functionUrl('recipes');
+
+// Turn a 400 body of the form { errors: [{ field, message }] } into a RecipeValidationError
+const validationErrorFrom = (status: number, text: string): RecipeValidationError | null => {
+  if (status !== 400) return null;
+  try {
+    const json = JSON.parse(text) as { errors?: RecipeFieldError[] };
+    return Array.isArray(json.errors) && json.errors.length > 0 ? new RecipeValidationError(json.errors) : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface CommunityRecipesQuery {
+  /** Page size (1-100), defaults to COMMUNITY_PAGE_SIZE */
+  limit?: number;
+  /** `nextCursor` from the previous page */
+  cursor?: string | null;
+  noFat?: boolean;
+  noNuts?: boolean;
+  contributor?: string;
+  /** User id of the author */
+  author?: string;
+  /** ISO timestamp; only recipes created strictly after it are returned */
+  createdAfter?: string;
+  /** Only recipes whose average rating is at least this many stars */
+  minRating?: number;
+}
+
+export interface CommunityRecipesPage {
+  recipes: CommunityRecipe[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+  /** When the service worker answered from its cache: when that copy was fetched (ISO 8601) */
+  cachedAt?: string | null;
+}
+
+// Set by the service worker on catalog pages it serves from its cache (src/serviceWorker/caching.ts)
+const CACHED_AT_HEADER = 'X-Cached-At';
+
+export const COMMUNITY_PAGE_SIZE = 50;
+
+const toQueryString = (query: CommunityRecipesQuery): string => {
+  const params = new URLSearchParams();
+  if (query.limit) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.noFat) params.set('noFat', 'true');
+  if (query.noNuts) params.set('noNuts', 'true');
+  if (query.contributor) params.set('contributor', query.contributor);
+  if (query.author) params.set('author', query.author);
+  if (query.createdAfter) params.set('createdAfter', query.createdAfter);
+  if (query.minRating) params.set('minRating', String(query.minRating));
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
 };
 
-export async function fetchCommunityRecipes(): Promise<CommunityRecipe[]> {
+/**
+ * Fetch one page of community recipes, oldest first.
+ */
+export async function fetchCommunityRecipesPage(query: CommunityRecipesQuery = {}): Promise<CommunityRecipesPage> {
   try {
-    const res = await fetch(baseUrl, {
+    const res = await fetch(`${baseUrl}${toQueryString({ limit: COMMUNITY_PAGE_SIZE, ...query })}`, {
       method: 'GET',
       headers: defaultHeaders,
     });
     if (!res.ok) {
       throw new Error(`Failed to fetch recipes: ${res.status}`);
     }
-    const json = await res.json();
-    return json.recipes ?? [];
+    const json: ResponseOf<'GET /recipes'> = await res.json();
+    return { recipes: json.recipes ?? [], nextCursor: json.nextCursor ?? null, cachedAt: res.headers.get(CACHED_AT_HEADER) };
   } catch (error) {
     // Check if it's a connection refused error (localhost not running)
     if (error instanceof TypeError && error.message === 'Failed to fetch') {
@@ -60,23 +99,148 @@ export async function fetchCommunityRecipes(): Promise<CommunityRecipe[]> {
   }
 }
 
-export async function submitCommunityRecipe(recipe: Omit<CommunityRecipe, 'id' | 'createdAt'>): Promise<CommunityRecipe> {
+/**
+ * Fetch every community recipe matching the filters, following cursors page by page.
+ */
+export async function fetchCommunityRecipes(
+  filters: Omit<CommunityRecipesQuery, 'cursor'> = {}
+): Promise<CommunityRecipe[]> {
+  const recipes: CommunityRecipe[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await fetchCommunityRecipesPage({ ...filters, cursor });
+    recipes.push(...page.recipes);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return recipes;
+}
+
+/**
+ * Fetch a single community recipe by id.
+ * Resolves to null when the recipe doesn't exist (never created, or deleted since the link was shared).
+ */
+export async function fetchCommunityRecipe(recipeId: string): Promise<CommunityRecipe | null> {
+  const encodedRecipeId = encodeURIComponent(recipeId);
+  const res = await fetch(`${baseUrl}/${encodedRecipeId}`, {
+    method: 'GET',
+    headers: defaultHeaders,
+  });
+  // 410 means the recipe is in its owner's trash
+  if (res.status === 404 || res.status === 410) {
+    return null;
+  }
+  if (!res.ok) {
+    throw new Error(`Failed to fetch recipe: ${res.status}`);
+  }
+  const json: ResponseOf<'GET /recipes/:id'> = await res.json();
+  return json.recipe;
+}
+
+export interface CommunitySearchOptions {
+  /** Maximum number of results (1-50), defaults to 20 on the server */
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Search community recipes by name, ingredients, instructions and contributor, most relevant first.
+ */
+export async function searchCommunityRecipes(
+  query: string,
+  options: CommunitySearchOptions = {}
+): Promise<CommunityRecipe[]> {
+  const params = new URLSearchParams({ q: query });
+  if (options.limit) params.set('limit', String(options.limit));
+  const res = await fetch(`${baseUrl}/search?${params.toString()}`, {
+    method: 'GET',
+    headers: defaultHeaders,
+    signal: options.signal,
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to search recipes: ${res.status}`);
+  }
+  const json: ResponseOf<'GET /recipes/search'> = await res.json();
+  return json.recipes ?? [];
+}
+
+export type RecipeRatings = ResponseOf<'GET /recipes/:id/ratings'>;
+
+/**
+ * Fetch every rating and review of a community recipe, newest first.
+ */
+export async function fetchRecipeRatings(recipeId: string): Promise<RecipeRatings> {
+  const encodedRecipeId = encodeURIComponent(recipeId);
+  const res = await fetch(`${baseUrl}/${encodedRecipeId}/ratings`, {
+    method: 'GET',
+    headers: defaultHeaders,
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ratings: ${res.status}`);
+  }
+  const json: RecipeRatings = await res.json();
+  return { ratings: json.ratings ?? [], summary: json.summary };
+}
+
+/**
+ * Save the signed-in user's rating of a recipe, replacing their previous one.
+ */
+export async function rateCommunityRecipe(
+  recipeId: string,
+  input: RatingInput,
+  options: CommunityRequestOptions = {}
+): Promise<{ rating: RecipeRating; summary: RatingSummary }> {
+  const encodedRecipeId = encodeURIComponent(recipeId);
+  const res = await fetch(`${baseUrl}/${encodedRecipeId}/ratings`, {
+    method: 'PUT',
+    headers: authorizedHeaders(options.accessToken),
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw validationErrorFrom(res.status, text) ?? new Error(`Failed to rate recipe: ${res.status} ${text}`);
+  }
+  const json: ResponseOf<'PUT /recipes/:id/ratings'> = await res.json();
+  return { rating: json.rating, summary: json.summary };
+}
+
+export interface SubmitRecipeOptions extends CommunityRequestOptions {
+  /** Stable per-recipe key; resubmitting with the same key returns the recipe created the first time */
+  idempotencyKey?: string;
+}
+
+export async function submitCommunityRecipe(
+  recipe: Omit<CommunityRecipe, 'id' | 'createdAt'>,
+  options: SubmitRecipeOptions = {}
+): Promise<CommunityRecipe> {
+  const headers = authorizedHeaders(options.accessToken);
+  if (options.idempotencyKey) {
+    headers['Idempotency-Key'] = options.idempotencyKey;
+  }
   const res = await fetch(baseUrl, {
     method: 'POST',
-    headers: defaultHeaders,
+    headers,
     body: JSON.stringify(recipe),
   });
   if (!res.ok) {
     const text = await res.text();
-    throw new Error(`Failed to submit recipe: ${res.status} ${text}`);
+    throw validationErrorFrom(res.status, text) ?? new Error(`Failed to submit recipe: ${res.status} ${text}`);
   }
-  const json = await res.json();
+  const json: ResponseOf<'POST /recipes'> = await res.json();
   return json.recipe;
 }
 
+export interface UpdateRecipeOptions extends CommunityRequestOptions {
+  /** Version of the copy the edit started from (see CommunityRecipe.version); the function answers 428 without it */
+  version?: number;
+}
+
+/**
+ * Save an edit. Throws RecipeConflictError with the server's copy if someone else saved in between.
+ */
 export async function updateCommunityRecipe(
   recipeId: string,
-  recipe: Omit<CommunityRecipe, 'id' | 'createdAt'>
+  recipe: Omit<CommunityRecipe, 'id' | 'createdAt'>,
+  options: UpdateRecipeOptions = {}
 ): Promise<CommunityRecipe> {
   const encodedRecipeId = encodeURIComponent(recipeId);
   // Route is /recipes/:id
@@ -86,22 +250,122 @@ export async function updateCommunityRecipe(
   // This matches the backend route '/recipes/:id'
   const res = await fetch(`${baseUrl}/${encodedRecipeId}`, {
     method: 'PUT',
-    headers: defaultHeaders,
+    headers: {
+      ...authorizedHeaders(options.accessToken),
+      ...(options.version === undefined ? {} : { 'If-Match': toETag(options.version) }),
+    },
     body: JSON.stringify(recipe),
   });
+  if (res.status === 409) {
+    const json: ConflictResponse = await res.json();
+    throw new RecipeConflictError(json.recipe);
+  }
   if (!res.ok) {
     const text = await res.text();
-    throw new Error(`Failed to update recipe: ${res.status} ${text}`);
+    throw validationErrorFrom(res.status, text) ?? new Error(`Failed to update recipe: ${res.status} ${text}`);
   }
-  const json = await res.json();
+  const json: ResponseOf<'PUT /recipes/:id'> = await res.json();
   return json.recipe;
 }
 
-export async function deleteCommunityRecipe(recipeId: string): Promise<void> {
+/**
+ * Fetch the past versions of a community recipe, newest first.
+ */
+export async function fetchRecipeRevisions(recipeId: string): Promise<RecipeRevision[]> {
+  const encodedRecipeId = encodeURIComponent(recipeId);
+  const res = await fetch(`${baseUrl}/${encodedRecipeId}/revisions`, {
+    method: 'GET',
+    headers: defaultHeaders,
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch revisions: ${res.status}`);
+  }
+  const json: ResponseOf<'GET /recipes/:id/revisions'> = await res.json();
+  return json.revisions ?? [];
+}
+
+/**
+ * Restore a past version of a recipe. The current version becomes a new revision.
+ */
+export async function revertCommunityRecipe(
+  recipeId: string,
+  revision: number,
+  options: CommunityRequestOptions = {}
+): Promise<CommunityRecipe> {
+  const encodedRecipeId = encodeURIComponent(recipeId);
+  const res = await fetch(`${baseUrl}/${encodedRecipeId}/revert`, {
+    method: 'POST',
+    headers: authorizedHeaders(options.accessToken),
+    body: JSON.stringify({ revision }),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Failed to revert recipe: ${res.status} ${text}`);
+  }
+  const json: ResponseOf<'POST /recipes/:id/revert'> = await res.json();
+  return json.recipe;
+}
+
+/**
+ * Put the signed-in user's registered nickname on every recipe they wrote, after they claim a new one.
+ * Resolves to how many changed.
+ */
+export async function renameRecipeAuthor(options: CommunityRequestOptions = {}): Promise<number> {
+  const res = await fetch(`${baseUrl}/author/rename`, {
+    method: 'POST',
+    headers: authorizedHeaders(options.accessToken),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Failed to rename author: ${res.status} ${text}`);
+  }
+  const json: ResponseOf<'POST /recipes/author/rename'> = await res.json();
+  return json.updated;
+}
+
+/**
+ * Fetch the signed-in user's recipes that are in the trash, most recently deleted first.
+ */
+export async function fetchDeletedRecipes(options: CommunityRequestOptions = {}): Promise<CommunityRecipe[]> {
+  const res = await fetch(`${baseUrl}/trash`, {
+    method: 'GET',
+    headers: authorizedHeaders(options.accessToken),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch deleted recipes: ${res.status}`);
+  }
+  const json: ResponseOf<'GET /recipes/trash'> = await res.json();
+  return json.recipes ?? [];
+}
+
+/**
+ * Take a recipe back out of the trash.
+ */
+export async function restoreCommunityRecipe(
+  recipeId: string,
+  options: CommunityRequestOptions = {}
+): Promise<CommunityRecipe> {
+  const encodedRecipeId = encodeURIComponent(recipeId);
+  const res = await fetch(`${baseUrl}/${encodedRecipeId}/restore`, {
+    method: 'POST',
+    headers: authorizedHeaders(options.accessToken),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Failed to restore recipe: ${res.status} ${text}`);
+  }
+  const json: ResponseOf<'POST /recipes/:id/restore'> = await res.json();
+  return json.recipe;
+}
+
+/**
+ * Move a recipe to the trash. It can be restored for TRASH_RETENTION_DAYS.
+ */
+export async function deleteCommunityRecipe(recipeId: string, options: CommunityRequestOptions = {}): Promise<void> {
   const encodedRecipeId = encodeURIComponent(recipeId);
   const res = await fetch(`${baseUrl}/${encodedRecipeId}`, {
     method: 'DELETE',
-    headers: defaultHeaders,
+    headers: authorizedHeaders(options.accessToken),
   });
   if (!res.ok) {
     const text = await res.text();
@@ -0,0 +1,58 @@
+import type { RecipeFieldError } from '../validation/recipeSchema';
+import type { CommunityRecipe } from './community';
+import type { NicknameUnavailableReason } from './profileContract';
+
+/**
+ * Thrown when the recipes function rejects a recipe body (HTTP 400 with per-field errors).
+ * Kept out of community.ts so callers can `instanceof`-check it even where that module is mocked.
+ */
+export class RecipeValidationError extends Error {
+  readonly errors: RecipeFieldError[];
+
+  constructor(errors: RecipeFieldError[]) {
+    super(`Invalid recipe: ${errors.map((e) => `${e.field}: ${e.message}`).join(', ')}`);
+    this.name = 'RecipeValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Thrown when an update was based on an outdated copy of the recipe (HTTP 409).
+ * `current` is the server's copy, to resolve the conflict against.
+ */
+export class RecipeConflictError extends Error {
+  readonly current: CommunityRecipe;
+
+  constructor(current: CommunityRecipe) {
+    super(`Recipe ${current.id} was changed since it was loaded`);
+    this.name = 'RecipeConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * Thrown when the server function rejects a profile or settings change (HTTP 400 with per-field errors).
+ */
+export class ProfileValidationError extends Error {
+  readonly errors: RecipeFieldError[];
+
+  constructor(errors: RecipeFieldError[]) {
+    super(`Invalid profile: ${errors.map((e) => `${e.field}: ${e.message}`).join(', ')}`);
+    this.name = 'ProfileValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Thrown when the server function won't give the user a nickname: it breaks the rules (400),
+ * is reserved, or someone else holds it (409).
+ */
+export class NicknameUnavailableError extends Error {
+  readonly reason: NicknameUnavailableReason;
+
+  constructor(message: string, reason: NicknameUnavailableReason) {
+    super(message);
+    this.name = 'NicknameUnavailableError';
+    this.reason = reason;
+  }
+}
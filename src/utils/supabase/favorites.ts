@@ -0,0 +1,59 @@
+import { authorizedHeaders, functionUrl } from './functions';
+import type { FavoriteId, ProfileResponseOf } from './profileContract';
+
+export type { FavoriteId };
+
+export interface FavoritesRequestOptions {
+  /** Access token of the signed-in user's Supabase session */
+  accessToken?: string;
+}
+
+const baseUrl = `${functionUrl('server')}/favorites`;
+
+/**
+ * Fetch the signed-in user's favorite recipe ids, oldest first.
+ */
+export async function fetchFavorites(options: FavoritesRequestOptions = {}): Promise<FavoriteId[]> {
+  const res = await fetch(baseUrl, {
+    method: 'GET',
+    headers: authorizedHeaders(options.accessToken),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch favorites: ${res.status}`);
+  }
+  const json: ProfileResponseOf<'GET /server/favorites'> = await res.json();
+  return json.recipeIds ?? [];
+}
+
+/**
+ * Add this device's favorites to the signed-in user's. Resolves to all of their favorites afterwards.
+ */
+export async function mergeFavorites(recipeIds: FavoriteId[], options: FavoritesRequestOptions = {}): Promise<FavoriteId[]> {
+  const res = await fetch(baseUrl, {
+    method: 'POST',
+    headers: authorizedHeaders(options.accessToken),
+    body: JSON.stringify({ recipeIds }),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to merge favorites: ${res.status}`);
+  }
+  const json: ProfileResponseOf<'POST /server/favorites'> = await res.json();
+  return json.recipeIds ?? [];
+}
+
+/**
+ * Favorite (`favorite: true`) or unfavorite a recipe for the signed-in user. Both are idempotent.
+ */
+export async function saveFavorite(
+  recipeId: FavoriteId,
+  favorite: boolean,
+  options: FavoritesRequestOptions = {}
+): Promise<void> {
+  const res = await fetch(`${baseUrl}/${encodeURIComponent(String(recipeId))}`, {
+    method: favorite ? 'PUT' : 'DELETE',
+    headers: authorizedHeaders(options.accessToken),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to ${favorite ? 'save' : 'remove'} favorite: ${res.status}`);
+  }
+}
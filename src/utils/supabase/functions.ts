@@ -0,0 +1,26 @@
+// Where the edge functions live and the headers every call to them sends
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const envProjectId = (import.meta as any).env?.VITE_SUPABASE_PROJECT_ID as string | undefined;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const envUrl = (import.meta as any).env?.VITE_SUPABASE_URL as string | undefined;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const envAnon = (import.meta as any).env?.VITE_SUPABASE_ANON_KEY as string | undefined;
+
+// Support local development: if VITE_SUPABASE_URL points to localhost, use it directly
+// Otherwise, construct the URL from project ID or use the provided URL
+export const functionUrl = (name: string): string =>
+  envUrl ? `${envUrl}/functions/v1/${name}` : `https://${envProjectId}.supabase.co/functions/v1/${name}`;
+
+export const defaultHeaders: Record<string, string> = {
+  'Content-Type': 'application/json',
+  apikey: envAnon ?? '',
+  Authorization: `Bearer ${envAnon ?? ''}`,
+};
+
+// Mutating calls are authorized as the signed-in user so the edge function can check ownership.
+// Without a session we still send the anon key, and the function answers 401.
+export const authorizedHeaders = (accessToken?: string): Record<string, string> => ({
+  ...defaultHeaders,
+  Authorization: `Bearer ${accessToken ?? envAnon ?? ''}`,
+});
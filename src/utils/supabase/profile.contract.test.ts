@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createApp } from '../../../supabase/functions/server/app';
+import { createMemoryStorage } from '../../../supabase/functions/_shared/kvStorage';
+import { TEST_JWT_SECRET, tokenFor } from '../../../supabase/functions/_shared/testing';
+import {
+  checkNicknameAvailability,
+  claimNickname,
+  releaseNickname,
+  fetchPublicProfile,
+  updateProfile,
+  fetchAccountSettings,
+  updateAccountSettings,
+} from './profile';
+import { fetchFavorites, mergeFavorites, saveFavorite } from './favorites';
+import { NicknameUnavailableError, ProfileValidationError } from './errors';
+
+// The profile and favorites clients against the real server app, routed in-process like community.contract.test.ts
+
+describe('profile and favorites clients against the server app', () => {
+  const originalFetch = global.fetch;
+  let accessToken: string;
+  let otherToken: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const app = createApp({ kv: createMemoryStorage(), jwtSecret: TEST_JWT_SECRET });
+    global.fetch = vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      return Promise.resolve(app.request(url.slice(url.indexOf('/functions/v1') + '/functions/v1'.length), init));
+    }) as typeof fetch;
+    accessToken = await tokenFor('owner');
+    otherToken = await tokenFor('someone-else');
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('should claim, check and release nicknames', async () => {
+    expect(await claimNickname('Blender Bob', { accessToken })).toBe('Blender Bob');
+    expect(await checkNicknameAvailability('blender bob', { accessToken: otherToken })).toMatchObject({
+      available: false,
+      reason: 'taken',
+    });
+
+    await expect(claimNickname('BLENDER BOB', { accessToken: otherToken })).rejects.toEqual(
+      new NicknameUnavailableError('That nickname is taken', 'taken')
+    );
+    await expect(claimNickname('Admin', { accessToken: otherToken })).rejects.toMatchObject({
+      message: 'That nickname is reserved',
+      reason: 'reserved',
+    });
+
+    await releaseNickname({ accessToken });
+    expect((await checkNicknameAvailability('Blender Bob')).available).toBe(true);
+  });
+
+  it('should update and look up a profile', async () => {
+    await claimNickname('Blender Bob', { accessToken });
+    await updateProfile({ bio: 'Green smoothies only', avatarUrl: 'https://example.com/bob.png' }, { accessToken });
+
+    expect(await fetchPublicProfile('owner')).toMatchObject({
+      userId: 'owner',
+      nickname: 'Blender Bob',
+      bio: 'Green smoothies only',
+      avatarUrl: 'https://example.com/bob.png',
+      recipeCount: 0,
+    });
+    expect(await fetchPublicProfile('nobody')).toBeNull();
+  });
+
+  it('should surface field errors from a profile update', async () => {
+    await expect(updateProfile({ avatarUrl: 'http://example.com/bob.png' }, { accessToken })).rejects.toBeInstanceOf(
+      ProfileValidationError
+    );
+  });
+
+  it('should read and change settings', async () => {
+    expect(await updateAccountSettings({ publicProfile: false }, { accessToken })).toMatchObject({ publicProfile: false });
+    expect(await fetchAccountSettings({ accessToken })).toEqual({
+      publicProfile: false,
+      noFatByDefault: false,
+      noNutsByDefault: false,
+    });
+    expect(await fetchPublicProfile('owner', { accessToken: otherToken })).toBeNull();
+  });
+
+  it('should sync favorites', async () => {
+    await saveFavorite('recipe:1:a', true, { accessToken });
+    await saveFavorite(4, true, { accessToken });
+    await saveFavorite(4, false, { accessToken });
+
+    expect(await mergeFavorites([2, 'recipe:1:a'], { accessToken })).toEqual(['recipe:1:a', 2]);
+    expect(await fetchFavorites({ accessToken })).toEqual(['recipe:1:a', 2]);
+    expect(await fetchFavorites({ accessToken: otherToken })).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+import { NicknameUnavailableError, ProfileValidationError } from './errors';
+import { authorizedHeaders, functionUrl } from './functions';
+import type { RecipeFieldError } from '../validation/recipeSchema';
+import type {
+  AccountSettings,
+  NicknameAvailability,
+  NicknameUnavailableReason,
+  ProfileResponseOf,
+  ProfileUpdateInput,
+  PublicProfile,
+  SettingsUpdateInput,
+} from './profileContract';
+
+export type { AccountSettings, NicknameAvailability, ProfileUpdateInput, PublicProfile, SettingsUpdateInput };
+
+export interface ProfileRequestOptions {
+  /** Access token of the signed-in user's Supabase session */
+  accessToken?: string;
+  signal?: AbortSignal;
+}
+
+const baseUrl = functionUrl('server');
+
+// 400 and 409 bodies say why the nickname was refused; anything else is a plain failure
+const unavailableErrorFrom = (status: number, text: string): NicknameUnavailableError | null => {
+  if (status !== 400 && status !== 409) return null;
+  try {
+    const json = JSON.parse(text) as { error?: string; reason?: NicknameUnavailableReason; errors?: { message: string }[] };
+    const message = json.errors?.[0]?.message ?? json.error ?? 'That nickname is not available';
+    const reason = json.reason ?? (message === 'That nickname is reserved' ? 'reserved' : 'invalid');
+    return new NicknameUnavailableError(message, reason);
+  } catch {
+    return null;
+  }
+};
+
+// Turn a 400 body of the form { errors: [{ field, message }] } into a ProfileValidationError
+const validationErrorFrom = (status: number, text: string): ProfileValidationError | null => {
+  if (status !== 400) return null;
+  try {
+    const json = JSON.parse(text) as { errors?: RecipeFieldError[] };
+    return Array.isArray(json.errors) && json.errors.length > 0 ? new ProfileValidationError(json.errors) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Fetch a user's public profile. Resolves to null when there is none, or it's private and not the caller's.
+ */
+export async function fetchPublicProfile(userId: string, options: ProfileRequestOptions = {}): Promise<PublicProfile | null> {
+  const res = await fetch(`${baseUrl}/profiles/${encodeURIComponent(userId)}`, {
+    method: 'GET',
+    headers: authorizedHeaders(options.accessToken),
+    signal: options.signal,
+  });
+  if (res.status === 404) {
+    return null;
+  }
+  if (!res.ok) {
+    throw new Error(`Failed to fetch profile: ${res.status}`);
+  }
+  const json: ProfileResponseOf<'GET /server/profiles/:userId'> = await res.json();
+  return json;
+}
+
+/**
+ * Update the signed-in user's bio and/or avatar; fields left out are unchanged.
+ * Throws ProfileValidationError when the server rejects a field.
+ */
+export async function updateProfile(input: ProfileUpdateInput, options: ProfileRequestOptions = {}): Promise<PublicProfile> {
+  const res = await fetch(`${baseUrl}/profile`, {
+    method: 'PUT',
+    headers: authorizedHeaders(options.accessToken),
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw validationErrorFrom(res.status, text) ?? new Error(`Failed to update profile: ${res.status} ${text}`);
+  }
+  const json: ProfileResponseOf<'PUT /server/profile'> = await res.json();
+  return json;
+}
+
+/**
+ * Fetch the signed-in user's account settings, with defaults for any never set.
+ */
+export async function fetchAccountSettings(options: ProfileRequestOptions = {}): Promise<AccountSettings> {
+  const res = await fetch(`${baseUrl}/settings`, {
+    method: 'GET',
+    headers: authorizedHeaders(options.accessToken),
+    signal: options.signal,
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch settings: ${res.status}`);
+  }
+  const json: ProfileResponseOf<'GET /server/settings'> = await res.json();
+  return json;
+}
+
+/**
+ * Change some of the signed-in user's account settings. Resolves to all of them after the change.
+ */
+export async function updateAccountSettings(
+  changes: SettingsUpdateInput,
+  options: ProfileRequestOptions = {}
+): Promise<AccountSettings> {
+  const res = await fetch(`${baseUrl}/settings`, {
+    method: 'PUT',
+    headers: authorizedHeaders(options.accessToken),
+    body: JSON.stringify(changes),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw validationErrorFrom(res.status, text) ?? new Error(`Failed to update settings: ${res.status} ${text}`);
+  }
+  const json: ProfileResponseOf<'PUT /server/settings'> = await res.json();
+  return json;
+}
+
+/**
+ * Ask whether a nickname could be claimed right now. The signed-in user's own nickname counts as available.
+ */
+export async function checkNicknameAvailability(
+  nickname: string,
+  options: ProfileRequestOptions = {}
+): Promise<NicknameAvailability> {
+  const res = await fetch(`${baseUrl}/nickname/availability?nickname=${encodeURIComponent(nickname)}`, {
+    method: 'GET',
+    headers: authorizedHeaders(options.accessToken),
+    signal: options.signal,
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to check nickname: ${res.status}`);
+  }
+  const json: ProfileResponseOf<'GET /server/nickname/availability'> = await res.json();
+  return json;
+}
+
+/**
+ * Claim a nickname for the signed-in user, releasing the one they held.
+ * Throws NicknameUnavailableError when it's invalid, reserved or taken.
+ */
+export async function claimNickname(nickname: string, options: ProfileRequestOptions = {}): Promise<string> {
+  const res = await fetch(`${baseUrl}/nickname`, {
+    method: 'PUT',
+    headers: authorizedHeaders(options.accessToken),
+    body: JSON.stringify({ nickname }),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw unavailableErrorFrom(res.status, text) ?? new Error(`Failed to claim nickname: ${res.status} ${text}`);
+  }
+  const json: ProfileResponseOf<'PUT /server/nickname'> = await res.json();
+  return json.nickname;
+}
+
+/**
+ * Give up the signed-in user's nickname.
+ */
+export async function releaseNickname(options: ProfileRequestOptions = {}): Promise<void> {
+  const res = await fetch(`${baseUrl}/nickname`, {
+    method: 'DELETE',
+    headers: authorizedHeaders(options.accessToken),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to release nickname: ${res.status}`);
+  }
+}
@@ -0,0 +1,18 @@
+// Request and response shapes shared with the server edge function (profiles, nicknames, settings, favorites)
+export type {
+  AccountSettings,
+  FavoriteId,
+  FavoritesResponse,
+  NicknameAvailability,
+  NicknameClaimedResponse,
+  NicknameReleasedResponse,
+  NicknameTakenResponse,
+  NicknameUnavailableReason,
+  ProfileApi,
+  ProfileBodyOf,
+  ProfileResponseOf,
+  ProfileRoute,
+  ProfileUpdateInput,
+  PublicProfile,
+  SettingsUpdateInput,
+} from '../../../supabase/functions/_shared/profileContract.ts';
@@ -0,0 +1,10 @@
+// Request and response shapes shared with the recipes edge function
+export type {
+  BodyOf,
+  CommunityRecipe,
+  ConflictResponse,
+  ErrorResponse,
+  RecipesApi,
+  RecipesRoute,
+  ResponseOf,
+} from '../../../supabase/functions/_shared/recipesContract.ts';
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { isReservedNickname, nicknameKey, nicknameProblem } from './nicknameSchema';
+
+describe('nicknameKey', () => {
+  it('should ignore case, width and repeated spaces', () => {
+    expect(nicknameKey('  Blender   Bob ')).toBe('blender bob');
+    expect(nicknameKey('ＢＬＥＮＤＥＲ BOB')).toBe('blender bob');
+  });
+});
+
+describe('isReservedNickname', () => {
+  it('should match reserved names in any case', () => {
+    expect(isReservedNickname('Admin')).toBe(true);
+    expect(isReservedNickname('Smoothie De Jour')).toBe(true);
+  });
+
+  it('should catch blocked words inside longer names', () => {
+    expect(isReservedNickname('the_admin')).toBe(true);
+    expect(isReservedNickname('Smoothie-De-Jour Team')).toBe(true);
+    expect(isReservedNickname('Kale Fan')).toBe(false);
+  });
+});
+
+describe('nicknameProblem', () => {
+  it('should accept letters and digits in any script with simple punctuation', () => {
+    expect(nicknameProblem('Zoë_99')).toBeNull();
+    expect(nicknameProblem("D'Angelo M.")).toBeNull();
+    expect(nicknameProblem('スムージー')).toBeNull();
+  });
+
+  it('should give the first rule broken', () => {
+    expect(nicknameProblem('   ')).toBe('Nickname cannot be empty');
+    expect(nicknameProblem('a')).toBe('Nickname must be at least 2 characters');
+    expect(nicknameProblem('a'.repeat(31))).toBe('Nickname must be 30 characters or less');
+    expect(nicknameProblem('<b>hi</b>')).toBe("Nickname can only use letters, numbers, spaces and . _ ' -");
+    expect(nicknameProblem('--')).toBe('Nickname must include a letter or number');
+    expect(nicknameProblem('Moderator')).toBe('That nickname is reserved');
+  });
+});
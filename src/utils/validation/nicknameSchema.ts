@@ -0,0 +1,9 @@
+// Nickname rules are enforced by the server function; the forms check the same ones as the user types
+export {
+  nicknameSchema,
+  nicknameProblem,
+  nicknameKey,
+  isReservedNickname,
+  NICKNAME_MIN_LENGTH,
+  NICKNAME_MAX_LENGTH,
+} from '../../../supabase/functions/_shared/nicknameSchema.ts';
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { ratingInputSchema, summarizeRatings } from './ratingSchema';
+
+describe('ratingInputSchema', () => {
+  it('should accept 1-5 stars with an optional review', () => {
+    expect(ratingInputSchema.safeParse({ rating: 1 }).success).toBe(true);
+    expect(ratingInputSchema.safeParse({ rating: 5, review: 'Great' }).success).toBe(true);
+  });
+
+  it('should reject ratings outside 1-5 or with fractions', () => {
+    expect(ratingInputSchema.safeParse({ rating: 0 }).success).toBe(false);
+    expect(ratingInputSchema.safeParse({ rating: 6 }).success).toBe(false);
+    expect(ratingInputSchema.safeParse({ rating: 4.5 }).success).toBe(false);
+  });
+
+  it('should reject reviews longer than 500 characters', () => {
+    const result = ratingInputSchema.safeParse({ rating: 4, review: 'a'.repeat(501) });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('summarizeRatings', () => {
+  it('should average to one decimal place', () => {
+    expect(summarizeRatings([{ rating: 5 }, { rating: 4 }, { rating: 4 }])).toEqual({ average: 4.3, count: 3 });
+  });
+
+  it('should report zero for no ratings', () => {
+    expect(summarizeRatings([])).toEqual({ average: 0, count: 0 });
+  });
+});
@@ -0,0 +1,9 @@
+// Rating rules and types live next to the edge functions, like the recipe schema
+export {
+  ratingInputSchema,
+  summarizeRatings,
+  REVIEW_MAX_LENGTH,
+  type RatingInput,
+  type RatingSummary,
+  type RecipeRating,
+} from '../../../supabase/functions/_shared/ratingSchema.ts';
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { recipeSchema } from './recipeSchema';
+import { recipeSchema, recipeInputSchema, toFieldErrors } from './recipeSchema';
 
 describe('recipeSchema', () => {
   const validRecipe = {
@@ -184,3 +184,82 @@ describe('recipeSchema', () => {
   });
 });
 
+describe('recipeInputSchema', () => {
+  const validInput = {
+    name: 'Test Smoothie',
+    emoji: '🥤',
+    color: '#9333EA',
+    ingredients: ['1 banana', '1 cup milk'],
+    instructions: 'Blend everything together until smooth',
+    servings: 2,
+    prepTime: '5 min',
+    containsFat: false,
+    containsNuts: false,
+  };
+
+  it('should accept a valid request body', () => {
+    expect(recipeInputSchema.safeParse(validInput).success).toBe(true);
+  });
+
+  it('should accept a body with only the required fields', () => {
+    const result = recipeInputSchema.safeParse({
+      name: 'Test Smoothie',
+      ingredients: ['1 banana'],
+      instructions: 'Blend everything together until smooth',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should drop a contributor sent by the client', () => {
+    const result = recipeInputSchema.parse({ ...validInput, contributor: 'Someone Famous' });
+    expect(result).not.toHaveProperty('contributor');
+  });
+
+  it('should drop blank ingredients', () => {
+    const result = recipeInputSchema.parse({ ...validInput, ingredients: ['1 banana', '  ', ''] });
+    expect(result.ingredients).toEqual(['1 banana']);
+  });
+
+  it('should reject 0 servings', () => {
+    const result = recipeInputSchema.safeParse({ ...validInput, servings: 0 });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject servings sent as text', () => {
+    const result = recipeInputSchema.safeParse({ ...validInput, servings: '2' });
+    expect(result.success).toBe(false);
+  });
+
+  it('should report missing required fields with form messages', () => {
+    const result = recipeInputSchema.safeParse({});
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(toFieldErrors(result.error)).toEqual([
+        { field: 'name', message: 'Recipe name is required' },
+        { field: 'ingredients', message: 'At least one ingredient is required' },
+        { field: 'instructions', message: 'Instructions are required' },
+      ]);
+    }
+  });
+});
+
+describe('toFieldErrors', () => {
+  it('should return one message per field', () => {
+    const result = recipeInputSchema.safeParse({
+      name: 'a'.repeat(101),
+      color: 'purple',
+      ingredients: ['1 banana'],
+      instructions: 'x'.repeat(5000),
+      servings: 0,
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(toFieldErrors(result.error)).toEqual([
+        { field: 'name', message: 'Recipe name must be 100 characters or less' },
+        { field: 'instructions', message: 'Instructions must be 2000 characters or less' },
+        { field: 'color', message: 'Please select a valid color' },
+        { field: 'servings', message: 'Servings must be a number between 1 and 100' },
+      ]);
+    }
+  });
+});
@@ -0,0 +1,42 @@
+// Usage: npm run assign:authors -- <authors.json>
+// Records who wrote recipes from before authors were recorded. The file maps recipe ids to user ids,
+// e.g. { "recipe:1700000000000:abc": "<user id>" }, and is sent in batches to the deployed recipes function
+// (POST /recipes/admin/authors). Recipes that already have an author, or were imported from a fixture set,
+// are left alone. Uses SUPABASE_URL and SERVICE_ROLE_KEY, like `npm run seed`.
+import { readFile } from 'node:fs/promises';
+
+const url = process.env.SUPABASE_URL?.replace(/\/$/, '');
+const serviceRoleKey = process.env.SERVICE_ROLE_KEY;
+const file = process.argv[2];
+
+if (!url || !serviceRoleKey || !file) {
+  console.error('Usage: SUPABASE_URL=... SERVICE_ROLE_KEY=... npm run assign:authors -- <authors.json>');
+  process.exit(1);
+}
+
+// RECIPE_AUTHORS_BATCH_SIZE in supabase/functions/_shared/recipeSchema.ts
+const BATCH_SIZE = 100;
+
+const authors = Object.entries(JSON.parse(await readFile(file, 'utf8'))).map(([recipeId, authorId]) => ({ recipeId, authorId }));
+
+let attributed = 0;
+const skipped = [];
+for (let i = 0; i < authors.length; i += BATCH_SIZE) {
+  const res = await fetch(`${url}/functions/v1/recipes/admin/authors`, {
+    method: 'POST',
+    headers: { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ authors: authors.slice(i, i + BATCH_SIZE) }),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    console.error(`Assigning authors failed: ${res.status} ${body.error ?? ''}`);
+    process.exit(1);
+  }
+  attributed += body.attributed;
+  skipped.push(...body.skipped);
+}
+
+console.log(`Recorded the author of ${attributed} of ${authors.length} recipes`);
+for (const { recipeId, reason } of skipped) {
+  console.log(`  ${recipeId} skipped (${reason})`);
+}
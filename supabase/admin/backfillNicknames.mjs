@@ -0,0 +1,57 @@
+// Usage: npm run backfill:nicknames
+// Registers the nicknames users chose before the nickname registry existed. Reads every account's sign-up
+// nickname from the auth admin API and sends them, oldest account first, to the deployed server function
+// (POST /server/admin/nicknames). Uses SUPABASE_URL and SERVICE_ROLE_KEY, like `npm run seed`.
+const url = process.env.SUPABASE_URL?.replace(/\/$/, '');
+const serviceRoleKey = process.env.SERVICE_ROLE_KEY;
+
+if (!url || !serviceRoleKey) {
+  console.error('Set SUPABASE_URL and SERVICE_ROLE_KEY to the project to backfill');
+  process.exit(1);
+}
+
+const headers = { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}` };
+const PER_PAGE = 1000;
+// NICKNAME_BACKFILL_BATCH_SIZE in supabase/functions/_shared/nicknameSchema.ts
+const BATCH_SIZE = 100;
+
+const users = [];
+for (let page = 1; ; page++) {
+  const res = await fetch(`${url}/auth/v1/admin/users?page=${page}&per_page=${PER_PAGE}`, { headers });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    console.error(`Listing users failed: ${res.status} ${body.msg ?? body.error ?? ''}`);
+    process.exit(1);
+  }
+  users.push(...body.users);
+  if (body.users.length < PER_PAGE) break;
+}
+
+const claims = users
+  .filter((user) => typeof user.user_metadata?.nickname === 'string' && user.user_metadata.nickname.trim())
+  .sort((a, b) => a.created_at.localeCompare(b.created_at))
+  .map((user) => ({ userId: user.id, nickname: user.user_metadata.nickname }));
+
+let claimed = 0;
+let unchanged = 0;
+const refused = [];
+for (let i = 0; i < claims.length; i += BATCH_SIZE) {
+  const res = await fetch(`${url}/functions/v1/server/admin/nicknames`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ claims: claims.slice(i, i + BATCH_SIZE) }),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    console.error(`Backfill failed: ${res.status} ${body.error ?? ''}`);
+    process.exit(1);
+  }
+  claimed += body.claimed;
+  unchanged += body.unchanged;
+  refused.push(...body.refused);
+}
+
+console.log(`Registered ${claimed} nicknames of ${users.length} users; ${unchanged} already had one`);
+for (const { userId, nickname, reason } of refused) {
+  console.log(`  ${userId} can't have "${nickname}" (${reason}); they'll be asked for another when they sign in`);
+}
@@ -0,0 +1,28 @@
+// Usage: npm run migrate:recipes [-- --dry-run]
+// Asks the deployed recipes function to upgrade every stored recipe to the current schema (POST /recipes/admin/migrate).
+// Uses SUPABASE_URL and SERVICE_ROLE_KEY, like `npm run seed`.
+const url = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SERVICE_ROLE_KEY;
+const dryRun = process.argv.includes('--dry-run');
+
+if (!url || !serviceRoleKey) {
+  console.error('Set SUPABASE_URL and SERVICE_ROLE_KEY to the project to migrate');
+  process.exit(1);
+}
+
+const res = await fetch(`${url.replace(/\/$/, '')}/functions/v1/recipes/admin/migrate${dryRun ? '?dryRun=true' : ''}`, {
+  method: 'POST',
+  headers: { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}` },
+});
+const body = await res.json().catch(() => ({}));
+
+if (!res.ok) {
+  console.error(`Migration failed: ${res.status} ${body.error ?? ''}`);
+  process.exit(1);
+}
+
+console.log(
+  dryRun
+    ? `${body.migrated} of ${body.scanned} recipes would be upgraded to schema version ${body.schemaVersion}`
+    : `Upgraded ${body.migrated} of ${body.scanned} recipes to schema version ${body.schemaVersion}`
+);
@@ -0,0 +1,24 @@
+// Usage: npm run purge:trash
+// Asks the deployed recipes function to remove recipes that have been in the trash longer than
+// TRASH_RETENTION_DAYS (POST /recipes/admin/purge). Uses SUPABASE_URL and SERVICE_ROLE_KEY, like `npm run seed`.
+// .github/workflows/purge-trash.yml runs it every day.
+const url = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SERVICE_ROLE_KEY;
+
+if (!url || !serviceRoleKey) {
+  console.error('Set SUPABASE_URL and SERVICE_ROLE_KEY to the project to purge');
+  process.exit(1);
+}
+
+const res = await fetch(`${url.replace(/\/$/, '')}/functions/v1/recipes/admin/purge`, {
+  method: 'POST',
+  headers: { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}` },
+});
+const body = await res.json().catch(() => ({}));
+
+if (!res.ok) {
+  console.error(`Purge failed: ${res.status} ${body.error ?? ''}`);
+  process.exit(1);
+}
+
+console.log(`Removed ${body.purged} recipes from the trash for good`);
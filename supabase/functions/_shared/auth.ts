@@ -0,0 +1,48 @@
+// Session checks shared by the edge functions.
+import { verify } from 'hono/jwt';
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+/**
+ * Resolve the signed-in Supabase user from an `Authorization: Bearer <jwt>` header.
+ * Returns null for missing or invalid tokens, and for the anon key (it has no `sub`).
+ */
+export async function getAuthUser(authorization: string | undefined, jwtSecret: string | undefined): Promise<AuthUser | null> {
+  if (!authorization?.startsWith('Bearer ') || !jwtSecret) {
+    return null;
+  }
+
+  try {
+    const payload = await verify(authorization.slice('Bearer '.length), jwtSecret, 'HS256');
+    if (payload.role !== 'authenticated' || typeof payload.sub !== 'string') {
+      return null;
+    }
+    // user_metadata is left out: users can write anything there. Their nickname is in the registry (profiles.ts).
+    return {
+      id: payload.sub,
+      email: typeof payload.email === 'string' ? payload.email : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the request carries the project's service role key, for admin-only routes.
+ * The key is a JWT signed with the same secret as user sessions, with role `service_role`.
+ */
+export async function isServiceRole(authorization: string | undefined, jwtSecret: string | undefined): Promise<boolean> {
+  if (!authorization?.startsWith('Bearer ') || !jwtSecret) {
+    return false;
+  }
+
+  try {
+    const payload = await verify(authorization.slice('Bearer '.length), jwtSecret, 'HS256');
+    return payload.role === 'service_role';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,41 @@
+// Favorites shared by the server edge function and the app's favorites sync.
+import { z } from 'zod';
+
+/** Most favorites one merge may send */
+export const FAVORITES_MERGE_LIMIT = 1000;
+
+/**
+ * A favorited recipe id: a number for the built-in recipes, `recipe:...` for community recipes and
+ * `user-...` for recipes not synced yet.
+ */
+export type FavoriteId = number | string;
+
+const favoriteIdSchema = z.union([
+  z.number('Recipe id must be a number or a string').int().positive(),
+  z.string('Recipe id must be a number or a string').trim().min(1, 'Recipe id is required').max(200, 'Recipe id is too long'),
+]);
+
+/** Body of POST /server/favorites */
+export const favoritesMergeSchema = z.object({
+  recipeIds: z
+    .array(favoriteIdSchema, 'recipeIds must be a list of recipe ids')
+    .max(FAVORITES_MERGE_LIMIT, `At most ${FAVORITES_MERGE_LIMIT} favorites can be merged at once`),
+});
+
+export type FavoritesMergeInput = z.infer<typeof favoritesMergeSchema>;
+
+/** One favorite (stored at `favorite:<userId>:<recipeId>`) */
+export interface StoredFavorite {
+  userId: string;
+  recipeId: FavoriteId;
+  createdAt: string;
+}
+
+export const favoritePrefix = (userId: string): string => `favorite:${userId}:`;
+
+export const favoriteKey = (userId: string, recipeId: FavoriteId): string => `${favoritePrefix(userId)}${recipeId}`;
+
+/**
+ * A recipe id from a URL path. Only the built-in recipes have all-digit ids, and those are numbers.
+ */
+export const favoriteIdFromPath = (param: string): FavoriteId => (/^\d+$/.test(param) ? Number(param) : param);
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { createMemoryStorage, kvBackendFromEnv } from './kvStorage';
+
+describe('createMemoryStorage', () => {
+  it('should get, set and delete single keys', async () => {
+    const kv = createMemoryStorage();
+
+    await kv.set('recipe:1', { name: 'Mango Tango' });
+    expect(await kv.get('recipe:1')).toEqual({ name: 'Mango Tango' });
+
+    await kv.del('recipe:1');
+    expect(await kv.get('recipe:1')).toBeUndefined();
+  });
+
+  it('should skip missing keys in mget', async () => {
+    const kv = createMemoryStorage();
+    await kv.mset(['a', 'b'], [1, 2]);
+
+    expect(await kv.mget(['a', 'missing', 'b'])).toEqual([1, 2]);
+
+    await kv.mdel(['a', 'b']);
+    expect(await kv.mget(['a', 'b'])).toEqual([]);
+  });
+
+  it('should not share references with callers', async () => {
+    const kv = createMemoryStorage();
+    const recipe = { ingredients: ['1 banana'] };
+    await kv.set('recipe:1', recipe);
+
+    recipe.ingredients.push('1 cup milk');
+    const stored = await kv.get('recipe:1');
+    stored.ingredients.push('ice');
+
+    expect(await kv.get('recipe:1')).toEqual({ ingredients: ['1 banana'] });
+  });
+
+  it('should return values for a prefix', async () => {
+    const kv = createMemoryStorage([
+      { key: 'recipe:2', value: 'two' },
+      { key: 'rating:recipe:1:user', value: 'rating' },
+      { key: 'recipe:1', value: 'one' },
+    ]);
+
+    expect(await kv.getByPrefix('recipe:')).toEqual(['one', 'two']);
+  });
+
+  it('should scan in key order with a cursor and limit', async () => {
+    const kv = createMemoryStorage(['recipe:a', 'recipe:b', 'recipe:c', 'recipe:d'].map((key) => ({ key, value: key })));
+
+    const firstPage = await kv.scan({ prefix: 'recipe:', limit: 2 });
+    expect(firstPage.map((entry) => entry.key)).toEqual(['recipe:a', 'recipe:b']);
+
+    const secondPage = await kv.scan({ prefix: 'recipe:', after: 'recipe:b', limit: 2 });
+    expect(secondPage.map((entry) => entry.key)).toEqual(['recipe:c', 'recipe:d']);
+  });
+
+  it('should scan backwards when reversed', async () => {
+    const kv = createMemoryStorage(['k1', 'k2', 'k3'].map((key) => ({ key, value: key })));
+
+    expect((await kv.scan({ reverse: true })).map((entry) => entry.key)).toEqual(['k3', 'k2', 'k1']);
+    expect((await kv.scan({ reverse: true, after: 'k3', limit: 1 })).map((entry) => entry.key)).toEqual(['k2']);
+  });
+
+  it('should only set keys that are absent', async () => {
+    const kv = createMemoryStorage([{ key: 'nickname:bob', value: { userId: 'a' } }]);
+
+    expect(await kv.setIfAbsent('nickname:bob', { userId: 'b' })).toBe(false);
+    expect(await kv.setIfAbsent('nickname:ann', { userId: 'b' })).toBe(true);
+    expect(await kv.get('nickname:bob')).toEqual({ userId: 'a' });
+    expect(await kv.get('nickname:ann')).toEqual({ userId: 'b' });
+  });
+
+  it('should only delete values that match', async () => {
+    const kv = createMemoryStorage([{ key: 'nickname:bob', value: { userId: 'a', nickname: 'Bob' } }]);
+
+    expect(await kv.delIfMatch('nickname:bob', { userId: 'b' })).toBe(false);
+    expect(await kv.delIfMatch('nickname:missing', { userId: 'a' })).toBe(false);
+    expect(await kv.get('nickname:bob')).toBeDefined();
+
+    expect(await kv.delIfMatch('nickname:bob', { userId: 'a' })).toBe(true);
+    expect(await kv.get('nickname:bob')).toBeUndefined();
+  });
+});
+
+describe('kvBackendFromEnv', () => {
+  it('should only pick memory when asked for explicitly', () => {
+    expect(kvBackendFromEnv('memory')).toBe('memory');
+    expect(kvBackendFromEnv(undefined)).toBe('supabase');
+    expect(kvBackendFromEnv('memroy')).toBe('supabase');
+  });
+});
@@ -0,0 +1,96 @@
+// Key-value storage used by the edge functions. The Supabase table backs deployed functions;
+// the in-memory store lets the Hono apps run offline for local development and tests.
+
+export interface KvEntry<T = unknown> {
+  key: string;
+  value: T;
+}
+
+export interface ScanOptions {
+  /** Only keys starting with this */
+  prefix?: string;
+  /** Resume after this key (exclusive), e.g. the last key of the previous page */
+  after?: string;
+  limit?: number;
+  /** Descending key order instead of ascending */
+  reverse?: boolean;
+}
+
+// Values are whatever JSON was stored; the type parameters only say what the caller expects to find there
+export interface KvStorage {
+  /** The value, or undefined if the key doesn't exist */
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  del(key: string): Promise<void>;
+  /** Values of the keys that exist; missing keys are skipped */
+  mget<T = unknown>(keys: string[]): Promise<T[]>;
+  mset(keys: string[], values: unknown[]): Promise<void>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix<T = unknown>(prefix: string): Promise<T[]>;
+  /** Entries in key order */
+  scan<T = unknown>(options?: ScanOptions): Promise<KvEntry<T>[]>;
+  /** Store the value only if the key doesn't exist yet, as one atomic step. Resolves false if it did. */
+  setIfAbsent(key: string, value: unknown): Promise<boolean>;
+  /** Delete the key only if its value contains `match` (top-level fields), as one atomic step. Resolves whether it did. */
+  delIfMatch(key: string, match: Record<string, unknown>): Promise<boolean>;
+}
+
+export type KvBackend = 'supabase' | 'memory';
+
+/**
+ * Backend named by the KV_BACKEND env var. Anything unset or unknown means the Supabase table,
+ * so a typo can't silently point a deployed function at throwaway memory.
+ */
+export function kvBackendFromEnv(value: string | undefined): KvBackend {
+  return value === 'memory' ? 'memory' : 'supabase';
+}
+
+// Stored values round-trip through JSON like the JSONB column does, so callers can't share references
+const copy = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Storage kept in a Map, optionally seeded with entries. Data lives as long as the process.
+ */
+export function createMemoryStorage(seed: KvEntry[] = []): KvStorage {
+  const entries = new Map<string, unknown>(seed.map(({ key, value }) => [key, copy(value)]));
+
+  const scan = async <T>({ prefix = '', after, limit, reverse = false }: ScanOptions = {}): Promise<KvEntry<T>[]> => {
+    const keys = [...entries.keys()]
+      .filter((key) => key.startsWith(prefix))
+      .filter((key) => after === undefined || (reverse ? key < after : key > after))
+      .sort();
+    if (reverse) keys.reverse();
+    return keys.slice(0, limit).map((key) => ({ key, value: copy(entries.get(key)) as T }));
+  };
+
+  return {
+    get: async <T>(key: string) => copy(entries.get(key)) as T | undefined,
+    set: async (key, value) => {
+      entries.set(key, copy(value));
+    },
+    del: async (key) => {
+      entries.delete(key);
+    },
+    mget: async <T>(keys: string[]) => keys.filter((key) => entries.has(key)).map((key) => copy(entries.get(key)) as T),
+    mset: async (keys, values) => {
+      keys.forEach((key, i) => entries.set(key, copy(values[i])));
+    },
+    mdel: async (keys) => {
+      keys.forEach((key) => entries.delete(key));
+    },
+    getByPrefix: async <T>(prefix: string) => (await scan<T>({ prefix })).map((entry) => entry.value),
+    scan,
+    // No await between the check and the write, so nothing can interleave
+    setIfAbsent: async (key, value) => {
+      if (entries.has(key)) return false;
+      entries.set(key, copy(value));
+      return true;
+    },
+    delIfMatch: async (key, match) => {
+      const value = entries.get(key) as Record<string, unknown> | undefined;
+      if (!value || !Object.entries(match).every(([field, expected]) => value[field] === expected)) return false;
+      entries.delete(key);
+      return true;
+    },
+  };
+}
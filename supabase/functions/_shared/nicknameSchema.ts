@@ -0,0 +1,89 @@
+// Nickname rules shared by the server edge function, the sign-up form and the nickname editor.
+import { z } from 'zod';
+
+export const NICKNAME_MIN_LENGTH = 2;
+export const NICKNAME_MAX_LENGTH = 30;
+
+// Letters and digits in any script, plus spaces and . _ ' -
+const ALLOWED_CHARACTERS = /^[\p{L}\p{N} ._'-]+$/u;
+
+/** Names nobody can take, compared by nicknameKey */
+export const RESERVED_NICKNAMES = [
+  'admin',
+  'administrator',
+  'anonymous',
+  'guest',
+  'help',
+  'me',
+  'mod',
+  'moderator',
+  'null',
+  'official',
+  'root',
+  'smoothie de jour',
+  'smoothiedejour',
+  'staff',
+  'support',
+  'system',
+  'team',
+  'undefined',
+];
+
+// Nicknames containing these would pass for the site speaking
+const BLOCKED_WORDS = ['admin', 'moderator', 'smoothiedejour'];
+
+/**
+ * The form a nickname is unique in: case, width and repeated spaces don't make a new name,
+ * so "Blender Bob", "blender  bob" and "ＢＬＥＮＤＥＲ BOB" are one nickname.
+ */
+export const nicknameKey = (nickname: string): string =>
+  nickname.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const isReservedNickname = (nickname: string): boolean => {
+  const key = nicknameKey(nickname);
+  const compact = key.replace(/[ ._'-]/g, '');
+  return RESERVED_NICKNAMES.includes(key) || BLOCKED_WORDS.some((word) => compact.includes(word));
+};
+
+export const nicknameSchema = z
+  .string('Nickname cannot be empty')
+  .trim()
+  .min(1, 'Nickname cannot be empty')
+  .min(NICKNAME_MIN_LENGTH, `Nickname must be at least ${NICKNAME_MIN_LENGTH} characters`)
+  .max(NICKNAME_MAX_LENGTH, `Nickname must be ${NICKNAME_MAX_LENGTH} characters or less`)
+  .regex(ALLOWED_CHARACTERS, "Nickname can only use letters, numbers, spaces and . _ ' -")
+  .refine((nickname) => /[\p{L}\p{N}]/u.test(nickname), 'Nickname must include a letter or number')
+  .refine((nickname) => !isReservedNickname(nickname), 'That nickname is reserved');
+
+/**
+ * The first rule a nickname breaks, or null if it's acceptable. Whether it's taken is up to the registry.
+ */
+export function nicknameProblem(nickname: string): string | null {
+  const parsed = nicknameSchema.safeParse(nickname);
+  return parsed.success ? null : parsed.error.issues[0].message;
+}
+
+/** A claimed nickname (stored at `nickname:<nicknameKey>`) */
+export interface NicknameClaim {
+  userId: string;
+  /** As the user typed it */
+  nickname: string;
+  claimedAt: string;
+}
+
+export const nicknameClaimKey = (nickname: string): string => `nickname:${nicknameKey(nickname)}`;
+
+/** How many users one POST /server/admin/nicknames may register */
+export const NICKNAME_BACKFILL_BATCH_SIZE = 100;
+
+/**
+ * Body of POST /server/admin/nicknames: nicknames users chose before the registry existed, oldest account
+ * first. Each is checked against the rules on its own, so one bad name doesn't hold up the rest.
+ */
+export const nicknameBackfillSchema = z.object({
+  claims: z
+    .array(z.object({ userId: z.string().min(1), nickname: z.string() }))
+    .max(NICKNAME_BACKFILL_BATCH_SIZE, `At most ${NICKNAME_BACKFILL_BATCH_SIZE} claims at a time`),
+});
+
+export type NicknameBackfillInput = z.infer<typeof nicknameBackfillSchema>;
@@ -0,0 +1,104 @@
+// Request and response shapes of the server edge function (profiles, nicknames, settings and favorites),
+// shared by the Hono routes and the clients (profile.ts, favorites.ts). Paths are as the function sees them; clients call them under /functions/v1.
+import type { ErrorResponse } from './recipesContract.ts';
+import type { AccountSettings, ProfileUpdateInput, SettingsUpdateInput } from './profileSchema.ts';
+import type { FavoriteId, FavoritesMergeInput } from './favoriteSchema.ts';
+import type { NicknameBackfillInput } from './nicknameSchema.ts';
+
+export type {
+  AccountSettings,
+  ErrorResponse,
+  FavoriteId,
+  FavoritesMergeInput,
+  NicknameBackfillInput,
+  ProfileUpdateInput,
+  SettingsUpdateInput,
+};
+
+/** What anyone can see about a user */
+export interface PublicProfile {
+  userId: string;
+  /** The user's registered nickname, or null if they haven't claimed one */
+  nickname: string | null;
+  bio: string;
+  /** https URL of their picture, or null for the default */
+  avatarUrl: string | null;
+  /** When the profile was created (first sign-in after profiles shipped, for older accounts) */
+  joinedAt: string;
+  /** Recipes they wrote that aren't in the trash */
+  recipeCount: number;
+}
+
+/** Why a nickname can't be claimed */
+export type NicknameUnavailableReason = 'invalid' | 'reserved' | 'taken';
+
+export interface NicknameAvailability {
+  /** The nickname as checked, trimmed */
+  nickname: string;
+  available: boolean;
+  reason?: NicknameUnavailableReason;
+  /** What to tell the user when it's unavailable */
+  message?: string;
+}
+
+export interface NicknameClaimedResponse {
+  success: true;
+  nickname: string;
+}
+
+export interface NicknameReleasedResponse {
+  success: true;
+}
+
+/** 409 from PUT /server/nickname */
+export interface NicknameTakenResponse extends ErrorResponse {
+  reason: 'taken';
+}
+
+/** A nickname POST /server/admin/nicknames couldn't register for its user */
+export interface NicknameBackfillRefusal {
+  userId: string;
+  nickname: string;
+  reason: NicknameUnavailableReason;
+}
+
+export interface NicknameBackfillReport {
+  /** Users now holding the nickname they asked for */
+  claimed: number;
+  /** Users who already held a nickname, which is kept */
+  unchanged: number;
+  refused: NicknameBackfillRefusal[];
+}
+
+export interface FavoritesResponse {
+  /** Oldest favorite first */
+  recipeIds: FavoriteId[];
+}
+
+export interface FavoriteSavedResponse {
+  success: true;
+}
+
+/**
+ * Every route with its request body and successful response.
+ */
+export interface ProfileApi {
+  'GET /server/profiles/:userId': { body: never; response: PublicProfile };
+  'PUT /server/profile': { body: ProfileUpdateInput; response: PublicProfile };
+  'GET /server/settings': { body: never; response: AccountSettings };
+  'PUT /server/settings': { body: SettingsUpdateInput; response: AccountSettings };
+  'GET /server/nickname/availability': { body: never; response: NicknameAvailability };
+  'PUT /server/nickname': { body: { nickname: string }; response: NicknameClaimedResponse };
+  'DELETE /server/nickname': { body: never; response: NicknameReleasedResponse };
+  'POST /server/admin/nicknames': { body: NicknameBackfillInput; response: NicknameBackfillReport };
+  'GET /server/favorites': { body: never; response: FavoritesResponse };
+  'POST /server/favorites': { body: FavoritesMergeInput; response: FavoritesResponse };
+  'PUT /server/favorites/:recipeId': { body: never; response: FavoriteSavedResponse };
+  'DELETE /server/favorites/:recipeId': { body: never; response: FavoriteSavedResponse };
+}
+
+export type ProfileRoute = keyof ProfileApi;
+
+export type ProfileResponseOf<R extends ProfileRoute> = ProfileApi[R]['response'];
+
+export type ProfileBodyOf<R extends ProfileRoute> = ProfileApi[R]['body'];
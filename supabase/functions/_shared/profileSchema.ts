@@ -0,0 +1,46 @@
+// Profile and account-settings validation shared by the server edge function and profile.ts.
+import { z } from 'zod';
+
+export const BIO_MAX_LENGTH = 280;
+
+/** Body of PUT /server/profile; fields left out keep their stored value */
+export const profileUpdateSchema = z.object({
+  bio: z
+    .string()
+    .trim()
+    .max(BIO_MAX_LENGTH, `Bio must be ${BIO_MAX_LENGTH} characters or less`)
+    .optional(),
+
+  // An empty string clears the avatar
+  avatarUrl: z
+    .union([
+      z.literal('').transform(() => null),
+      z.url({ protocol: /^https$/, message: 'Avatar must be an https:// image URL' }).max(500, 'Avatar URL is too long'),
+    ])
+    .nullable()
+    .optional(),
+});
+
+export type ProfileUpdateInput = z.infer<typeof profileUpdateSchema>;
+
+export const accountSettingsSchema = z.object({
+  /** Whether other people can look the profile up */
+  publicProfile: z.boolean('publicProfile must be true or false'),
+  /** Start the recipe deck with the "no fat" filter on */
+  noFatByDefault: z.boolean('noFatByDefault must be true or false'),
+  /** Start the recipe deck with the "no nuts" filter on */
+  noNutsByDefault: z.boolean('noNutsByDefault must be true or false'),
+});
+
+export type AccountSettings = z.infer<typeof accountSettingsSchema>;
+
+/** Body of PUT /server/settings: any subset of the settings */
+export const settingsUpdateSchema = accountSettingsSchema.partial();
+
+export type SettingsUpdateInput = z.infer<typeof settingsUpdateSchema>;
+
+export const DEFAULT_SETTINGS: AccountSettings = {
+  publicProfile: true,
+  noFatByDefault: false,
+  noNutsByDefault: false,
+};
@@ -0,0 +1,25 @@
+// The profile record each user has at `profile:<userId>`, written by the server function. Its nickname is the
+// one the user holds in the nickname registry, so it's the name every function shows for them; the nickname
+// in a session's user_metadata is whatever the user last wrote there and proves nothing.
+import type { KvStorage } from './kvStorage.ts';
+
+/** A user's profile as stored at `profile:<userId>` */
+export interface StoredProfile {
+  userId: string;
+  /** The nickname they hold in the registry */
+  nickname: string | null;
+  bio: string;
+  avatarUrl: string | null;
+  joinedAt: string;
+  updatedAt: string;
+}
+
+export const profileKey = (userId: string): string => `profile:${userId}`;
+
+/**
+ * The nickname `userId` holds in the registry, or null if they haven't claimed one.
+ */
+export async function registeredNickname(kv: KvStorage, userId: string): Promise<string | null> {
+  const profile: StoredProfile | undefined = await kv.get(profileKey(userId));
+  return profile?.nickname ?? null;
+}
@@ -0,0 +1,56 @@
+// Recipe ratings shared by the recipes edge function and the ratings section of the recipe card.
+import { z } from 'zod';
+
+export const REVIEW_MAX_LENGTH = 500;
+
+export const ratingInputSchema = z.object({
+  rating: z
+    .number('Rating must be between 1 and 5 stars')
+    .int('Rating must be between 1 and 5 stars')
+    .min(1, 'Rating must be between 1 and 5 stars')
+    .max(5, 'Rating must be between 1 and 5 stars'),
+  review: z
+    .string()
+    .trim()
+    .max(REVIEW_MAX_LENGTH, `Review must be ${REVIEW_MAX_LENGTH} characters or less`)
+    .optional(),
+});
+
+export type RatingInput = z.infer<typeof ratingInputSchema>;
+
+/** One user's rating of a recipe (stored at `rating:<recipeId>:<userId>`) */
+export interface RecipeRating {
+  recipeId: string;
+  userId: string;
+  /** Display name of the rater when the rating was saved */
+  author: string;
+  rating: number;
+  review?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Aggregate kept at `ratingSummary:<recipeId>` and merged into the recipe when it's read, so lists don't
+ * need to load every rating and rating never rewrites the recipe
+ */
+export interface RatingSummary {
+  average: number;
+  count: number;
+}
+
+export const ratingKey = (recipeId: string, userId: string): string => `rating:${recipeId}:${userId}`;
+
+export const ratingPrefix = (recipeId: string): string => `rating:${recipeId}:`;
+
+export const RATING_SUMMARY_PREFIX = 'ratingSummary:';
+
+export const ratingSummaryKey = (recipeId: string): string => `${RATING_SUMMARY_PREFIX}${recipeId}`;
+
+export function summarizeRatings(ratings: Pick<RecipeRating, 'rating'>[]): RatingSummary {
+  if (ratings.length === 0) {
+    return { average: 0, count: 0 };
+  }
+  const total = ratings.reduce((sum, r) => sum + r.rating, 0);
+  return { average: Math.round((total / ratings.length) * 10) / 10, count: ratings.length };
+}
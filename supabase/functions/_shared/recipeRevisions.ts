@@ -0,0 +1,76 @@
+// Recipe revision history shared by the recipes edge function and the history panel.
+
+/** Fields captured in each revision; everything else (id, owner, ratings) belongs to the recipe itself */
+export const REVISION_FIELDS = [
+  'name',
+  'contributor',
+  'emoji',
+  'color',
+  'ingredients',
+  'instructions',
+  'servings',
+  'prepTime',
+  'containsFat',
+  'containsNuts',
+] as const;
+
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+export interface RevisableRecipe {
+  name: string;
+  contributor: string;
+  emoji: string;
+  color: string;
+  ingredients: string[];
+  instructions: string;
+  servings: number;
+  prepTime: string;
+  containsFat: boolean;
+  containsNuts: boolean;
+}
+
+export interface RecipeEditor {
+  id: string | null;
+  name: string;
+}
+
+/** A past version of a recipe (stored at `revision:<recipeId>:<n>`, n counting up from 1) */
+export interface RecipeRevision {
+  recipeId: string;
+  revision: number;
+  recipe: RevisableRecipe;
+  /** Who saved this version, and when */
+  editor: RecipeEditor;
+  editedAt: string;
+}
+
+export interface FieldChange {
+  field: RevisionField;
+  before: RevisableRecipe[RevisionField];
+  after: RevisableRecipe[RevisionField];
+}
+
+export const revisionKey = (recipeId: string, revision: number): string => `revision:${recipeId}:${revision}`;
+
+export const revisionPrefix = (recipeId: string): string => `revision:${recipeId}:`;
+
+export function pickRevisionFields(recipe: RevisableRecipe): RevisableRecipe {
+  const fields = {} as Record<RevisionField, unknown>;
+  for (const field of REVISION_FIELDS) {
+    fields[field] = recipe[field];
+  }
+  return fields as unknown as RevisableRecipe;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-by-field differences between two versions of a recipe, in form order.
+ */
+export function diffRecipes(before: RevisableRecipe, after: RevisableRecipe): FieldChange[] {
+  return REVISION_FIELDS.filter((field) => !sameValue(before[field], after[field])).map((field) => ({
+    field,
+    before: before[field],
+    after: after[field],
+  }));
+}
@@ -0,0 +1,133 @@
+// Recipe validation shared by the recipes edge function and the contribute form.
+// Deno resolves `zod` through the function's deno.json import map; Vite resolves it from node_modules.
+import { z } from 'zod';
+
+export interface RecipeFieldError {
+  field: string;
+  message: string;
+}
+
+const fields = {
+  name: z
+    .string('Recipe name is required')
+    .min(1, 'Recipe name is required')
+    .max(100, 'Recipe name must be 100 characters or less')
+    .trim(),
+
+  contributor: z
+    .string('Contributor name is required')
+    .min(1, 'Contributor name is required')
+    .max(50, 'Contributor name must be 50 characters or less')
+    .trim(),
+
+  emoji: z
+    .string()
+    .min(1, 'Please select an emoji'),
+
+  color: z
+    .string()
+    .regex(/^#[0-9A-Fa-f]{6}$/, 'Please select a valid color'),
+
+  ingredients: z
+    .array(z.string().trim(), 'At least one ingredient is required')
+    .refine(
+      (ingredients) => {
+        // Filter out empty/whitespace-only ingredients and check if at least one remains
+        const nonEmptyIngredients = ingredients.filter(ing => ing.trim().length > 0);
+        return nonEmptyIngredients.length > 0;
+      },
+      { message: 'At least one ingredient is required' }
+    ),
+
+  instructions: z
+    .string('Instructions are required')
+    .min(1, 'Instructions are required')
+    .refine((val) => val.trim().length >= 10, {
+      message: 'Instructions must be at least 10 characters',
+    })
+    .max(2000, 'Instructions must be 2000 characters or less')
+    .trim(),
+
+  prepTime: z
+    .string()
+    .min(1, 'Prep time is required')
+    .max(50, 'Prep time must be 50 characters or less')
+    .trim(),
+};
+
+const SERVINGS_MESSAGE = 'Servings must be a number between 1 and 100';
+
+/**
+ * Contribute form schema. Servings is a string because it comes straight from a number input.
+ */
+export const recipeFormSchema = z.object({
+  ...fields,
+
+  servings: z
+    .string()
+    .refine(
+      (val) => {
+        const num = parseInt(val, 10);
+        return !isNaN(num) && num >= 1 && num <= 100;
+      },
+      { message: SERVINGS_MESSAGE }
+    ),
+
+  containsFat: z.boolean(),
+  containsNuts: z.boolean(),
+});
+
+export type RecipeFormData = z.infer<typeof recipeFormSchema>;
+
+/**
+ * Request body schema for POST/PUT /recipes. Presentation fields are optional
+ * because the function fills in defaults (or keeps the stored value on update).
+ * There's no contributor: the function credits the signed-in author.
+ */
+export const recipeInputSchema = z.object({
+  name: fields.name,
+  ingredients: fields.ingredients.transform((ingredients) => ingredients.filter(ing => ing.length > 0)),
+  instructions: fields.instructions,
+  emoji: fields.emoji.optional(),
+  color: fields.color.optional(),
+  servings: z
+    .number(SERVINGS_MESSAGE)
+    .int(SERVINGS_MESSAGE)
+    .min(1, SERVINGS_MESSAGE)
+    .max(100, SERVINGS_MESSAGE)
+    .optional(),
+  prepTime: fields.prepTime.optional(),
+  containsFat: z.boolean().optional(),
+  containsNuts: z.boolean().optional(),
+});
+
+export type RecipeInput = z.infer<typeof recipeInputSchema>;
+
+/** How many recipes one POST /recipes/admin/authors may attribute */
+export const RECIPE_AUTHORS_BATCH_SIZE = 100;
+
+/**
+ * Body of POST /recipes/admin/authors: which user wrote each recipe from before authors were recorded,
+ * as worked out by whoever runs `npm run assign:authors`.
+ */
+export const recipeAuthorsSchema = z.object({
+  authors: z
+    .array(z.object({ recipeId: z.string().min(1), authorId: z.string().min(1) }))
+    .max(RECIPE_AUTHORS_BATCH_SIZE, `At most ${RECIPE_AUTHORS_BATCH_SIZE} recipes at a time`),
+});
+
+export type RecipeAuthorsInput = z.infer<typeof recipeAuthorsSchema>;
+
+/**
+ * Flatten zod issues into one message per top-level field, in the order they were reported.
+ */
+export function toFieldErrors(error: z.ZodError): RecipeFieldError[] {
+  const errors: RecipeFieldError[] = [];
+  for (const issue of error.issues) {
+    const field = issue.path.length > 0 ? String(issue.path[0]) : 'recipe';
+    if (!errors.some((e) => e.field === field)) {
+      errors.push({ field, message: issue.message });
+    }
+  }
+  return errors;
+}
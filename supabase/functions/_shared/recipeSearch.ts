@@ -0,0 +1,97 @@
+// Recipe search shared by GET /recipes/search and the app's offline fallback.
+import { z } from 'zod';
+
+export const MAX_SEARCH_RESULTS = 50;
+
+export const searchQuerySchema = z.object({
+  q: z
+    .string('q is required')
+    .trim()
+    .min(1, 'q is required')
+    .max(200, 'q must be 200 characters or less'),
+  limit: z.coerce
+    .number('limit must be a number')
+    .int('limit must be a whole number')
+    .min(1, `limit must be between 1 and ${MAX_SEARCH_RESULTS}`)
+    .max(MAX_SEARCH_RESULTS, `limit must be between 1 and ${MAX_SEARCH_RESULTS}`)
+    .default(20),
+});
+
+export interface SearchableRecipe {
+  id: string | number;
+  name: string;
+  contributor: string;
+  ingredients: string[];
+  instructions: string;
+}
+
+// A match in the name counts for more than one buried in the instructions
+const FIELD_WEIGHTS = {
+  name: 8,
+  contributor: 4,
+  ingredients: 3,
+  instructions: 1,
+} as const;
+
+/**
+ * Lowercase and strip accents, so "Açaí" and "acai" compare equal.
+ */
+export const foldText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  foldText(text).split(/[^\p{L}\p{N}]+/u).filter((token) => token.length > 0);
+
+// Whole-word matches score double; prefixes make results show up while the user is still typing
+const tokenScore = (queryToken: string, fieldTokens: string[]): number => {
+  let best = 0;
+  for (const token of fieldTokens) {
+    if (token === queryToken) return 2;
+    if (token.startsWith(queryToken)) best = 1;
+  }
+  return best;
+};
+
+/**
+ * Relevance of a recipe for the given query tokens. Every token has to match some field,
+ * otherwise the score is 0.
+ */
+export function scoreRecipe(recipe: SearchableRecipe, queryTokens: string[]): number {
+  const fields = {
+    name: tokenize(recipe.name ?? ''),
+    contributor: tokenize(recipe.contributor ?? ''),
+    ingredients: tokenize((recipe.ingredients ?? []).join(' ')),
+    instructions: tokenize(recipe.instructions ?? ''),
+  };
+
+  let score = 0;
+  for (const queryToken of queryTokens) {
+    let tokenTotal = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]) {
+      tokenTotal += FIELD_WEIGHTS[field] * tokenScore(queryToken, fields[field]);
+    }
+    if (tokenTotal === 0) return 0;
+    score += tokenTotal;
+  }
+
+  // Bonus when the name contains the query as typed, e.g. "green goddess"
+  if (queryTokens.length > 1 && foldText(recipe.name ?? '').includes(queryTokens.join(' '))) {
+    score += FIELD_WEIGHTS.name * queryTokens.length;
+  }
+  return score;
+}
+
+/**
+ * Recipes matching every word of the query, most relevant first (ties broken by name).
+ */
+export function searchRecipes<T extends SearchableRecipe>(recipes: T[], query: string, limit = MAX_SEARCH_RESULTS): T[] {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+
+  return recipes
+    .map((recipe) => ({ recipe, score: scoreRecipe(recipe, queryTokens) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.recipe.name.localeCompare(b.recipe.name))
+    .slice(0, limit)
+    .map(({ recipe }) => recipe);
+}
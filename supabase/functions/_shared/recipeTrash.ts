@@ -0,0 +1,21 @@
+// Soft-delete rules shared by the recipes edge function and the "Recently deleted" list.
+
+/** Deleted recipes stay restorable this long, then they're purged for good */
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TrashableRecipe {
+  deletedAt?: string | null;
+}
+
+export const isInTrash = (recipe: TrashableRecipe): boolean => !!recipe.deletedAt;
+
+export const isPastRetention = (recipe: TrashableRecipe, now = Date.now()): boolean =>
+  !!recipe.deletedAt && now - Date.parse(recipe.deletedAt) >= TRASH_RETENTION_DAYS * DAY_MS;
+
+/**
+ * Days left before a deleted recipe is purged, rounded up.
+ */
+export const daysUntilPurge = (deletedAt: string, now = Date.now()): number =>
+  Math.max(0, Math.ceil((Date.parse(deletedAt) + TRASH_RETENTION_DAYS * DAY_MS - now) / DAY_MS));
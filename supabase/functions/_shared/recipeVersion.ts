@@ -0,0 +1,20 @@
+// Optimistic concurrency for recipe updates, shared by the recipes edge function and the edit form.
+
+interface VersionedRecipe {
+  version?: number;
+}
+
+/** Every saved change bumps the version; recipes stored before versioning count as version 1 */
+export const recipeVersion = (recipe: VersionedRecipe): number => recipe.version ?? 1;
+
+/** Entity tag for a version, as sent in `ETag` and expected back in `If-Match` */
+export const toETag = (version: number): string => `"${version}"`;
+
+/**
+ * Version named by an `If-Match` header, or null if the header is missing or not one of our tags.
+ * Weak tags (`W/"3"`) are accepted since the version is all we compare.
+ */
+export function parseIfMatch(header: string | undefined | null): number | null {
+  const match = header?.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? Number(match[1]) : null;
+}
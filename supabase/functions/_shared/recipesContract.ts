@@ -0,0 +1,149 @@
+// Request and response shapes of the recipes edge function, shared by the Hono routes and community.ts.
+// Paths are as the function sees them; clients call them under /functions/v1.
+import type { RecipeAuthorsInput, RecipeFieldError, RecipeInput } from './recipeSchema.ts';
+import type { RatingInput, RatingSummary, RecipeRating } from './ratingSchema.ts';
+import type { RecipeEditor, RecipeRevision } from './recipeRevisions.ts';
+
+/** A recipe as stored and returned by the function */
+export interface CommunityRecipe {
+  id: string;
+  name: string;
+  /** The author's display name, copied onto the recipe; POST /recipes/author/rename keeps it current */
+  contributor: string;
+  emoji: string;
+  color: string;
+  ingredients: string[];
+  instructions: string;
+  servings: number;
+  prepTime: string;
+  containsFat: boolean;
+  containsNuts: boolean;
+  /** User id of the author; null for recipes from before authors were recorded */
+  authorId?: string | null;
+  createdAt?: string;
+  /** Average star rating and number of ratings; missing until someone rates the recipe */
+  ratingSummary?: RatingSummary | null;
+  /** Bumped on every save; updates must name the version they were based on */
+  version?: number;
+  updatedAt?: string;
+  /** Who saved the current version; missing if the recipe was never edited */
+  updatedBy?: RecipeEditor;
+  /** Set while the recipe is in the trash */
+  deletedAt?: string | null;
+  /** Shape of the stored record; the function upgrades older records (see recipes/migrations.ts) */
+  schemaVersion?: number;
+  /** Set on recipes loaded from a fixture set by `npm run seed`; they have no author and never get one */
+  imported?: boolean;
+}
+
+/** Body of every error answer; `errors` lists per-field problems on 400s */
+export interface ErrorResponse {
+  error: string;
+  errors?: RecipeFieldError[];
+}
+
+/** 409 from PUT /recipes/:id: the copy the edit has to be reconciled with */
+export interface ConflictResponse extends ErrorResponse {
+  recipe: CommunityRecipe;
+}
+
+export interface RecipeListResponse {
+  recipes: CommunityRecipe[];
+  /** Cursor for the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+export interface RecipesResponse {
+  recipes: CommunityRecipe[];
+}
+
+export interface RecipeResponse {
+  recipe: CommunityRecipe;
+}
+
+export interface RecipeSavedResponse {
+  success: true;
+  recipe: CommunityRecipe;
+}
+
+export interface DeletedResponse {
+  success: true;
+}
+
+export interface RatingsResponse {
+  ratings: RecipeRating[];
+  summary: RatingSummary;
+}
+
+export interface RatingSavedResponse {
+  success: true;
+  rating: RecipeRating;
+  summary: RatingSummary;
+}
+
+export interface RevisionsResponse {
+  revisions: RecipeRevision[];
+}
+
+export interface AuthorRenamedResponse {
+  success: true;
+  /** Recipes whose display name was changed */
+  updated: number;
+}
+
+export interface MigrationReport {
+  /** Version every record is on afterwards */
+  schemaVersion: number;
+  scanned: number;
+  /** Records that were on an older version (and, unless dryRun, were rewritten) */
+  migrated: number;
+  dryRun: boolean;
+}
+
+/** Why POST /recipes/admin/authors left a recipe alone */
+export type RecipeAuthorSkipReason = 'missing' | 'has-author' | 'imported';
+
+export interface RecipeAuthorSkip {
+  recipeId: string;
+  authorId: string;
+  reason: RecipeAuthorSkipReason;
+}
+
+export interface RecipeAuthorsReport {
+  /** Recipes that now have the author they were mapped to */
+  attributed: number;
+  skipped: RecipeAuthorSkip[];
+}
+
+export interface TrashPurgeReport {
+  /** Recipes removed for good, with their ratings and revisions */
+  purged: number;
+}
+
+/**
+ * Every route with its request body and successful response.
+ */
+export interface RecipesApi {
+  'GET /recipes': { body: never; response: RecipeListResponse };
+  'GET /recipes/search': { body: never; response: RecipesResponse };
+  'GET /recipes/trash': { body: never; response: RecipesResponse };
+  'GET /recipes/:id': { body: never; response: RecipeResponse };
+  'POST /recipes': { body: RecipeInput; response: RecipeSavedResponse };
+  'PUT /recipes/:id': { body: RecipeInput; response: RecipeSavedResponse };
+  'DELETE /recipes/:id': { body: never; response: DeletedResponse };
+  'POST /recipes/:id/restore': { body: never; response: RecipeSavedResponse };
+  'GET /recipes/:id/revisions': { body: never; response: RevisionsResponse };
+  'POST /recipes/:id/revert': { body: { revision: number }; response: RecipeSavedResponse };
+  'GET /recipes/:id/ratings': { body: never; response: RatingsResponse };
+  'PUT /recipes/:id/ratings': { body: RatingInput; response: RatingSavedResponse };
+  'POST /recipes/author/rename': { body: never; response: AuthorRenamedResponse };
+  'POST /recipes/admin/migrate': { body: never; response: MigrationReport };
+  'POST /recipes/admin/authors': { body: RecipeAuthorsInput; response: RecipeAuthorsReport };
+  'POST /recipes/admin/purge': { body: never; response: TrashPurgeReport };
+}
+
+export type RecipesRoute = keyof RecipesApi;
+
+export type ResponseOf<R extends RecipesRoute> = RecipesApi[R]['response'];
+
+export type BodyOf<R extends RecipesRoute> = RecipesApi[R]['body'];
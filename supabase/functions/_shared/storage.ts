@@ -0,0 +1,63 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2.49.8';
+// Generated into the recipes function and left where the generator writes it; both functions use it through here
+import * as kv from '../recipes/kv_store.ts';
+import { createMemoryStorage, kvBackendFromEnv, type KvStorage } from './kvStorage.ts';
+
+// Same table as kv_store.ts, which only covers the basic operations
+const KV_TABLE = 'kv_store_9f7fc7bb';
+// Postgres error code for a duplicate primary key
+const UNIQUE_VIOLATION = '23505';
+
+const supabaseStorage: KvStorage = {
+  get: kv.get,
+  set: kv.set,
+  del: kv.del,
+  mget: kv.mget,
+  mset: kv.mset,
+  mdel: kv.mdel,
+  getByPrefix: kv.getByPrefix,
+  scan: async ({ prefix, after, limit, reverse = false } = {}) => {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL'), Deno.env.get('SERVICE_ROLE_KEY'));
+    let query = supabase.from(KV_TABLE).select('key, value').order('key', { ascending: !reverse });
+    if (prefix) query = query.like('key', `${prefix}%`);
+    if (after !== undefined) query = reverse ? query.lt('key', after) : query.gt('key', after);
+    if (limit !== undefined) query = query.limit(limit);
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data ?? [];
+  },
+  // The primary key makes a second insert fail, so only one caller can win
+  setIfAbsent: async (key, value) => {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL'), Deno.env.get('SERVICE_ROLE_KEY'));
+    const { error } = await supabase.from(KV_TABLE).insert({ key, value });
+    if (error?.code === UNIQUE_VIOLATION) {
+      return false;
+    }
+    if (error) {
+      throw new Error(error.message);
+    }
+    return true;
+  },
+  delIfMatch: async (key, match) => {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL'), Deno.env.get('SERVICE_ROLE_KEY'));
+    const { data, error } = await supabase.from(KV_TABLE).delete().eq('key', key).contains('value', match).select('key');
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data ?? []).length > 0;
+  },
+};
+
+/**
+ * Storage picked by KV_BACKEND: `memory` runs without a Supabase project (data is lost on restart),
+ * anything else uses the kv_store table.
+ */
+export function createStorage(backend = kvBackendFromEnv(Deno.env.get('KV_BACKEND'))): KvStorage {
+  if (backend === 'memory') {
+    console.log('Using in-memory KV storage; data will not persist');
+    return createMemoryStorage();
+  }
+  return supabaseStorage;
+}
@@ -0,0 +1,40 @@
+// Sessions and request bodies for the tests of the edge functions and their clients. Nothing deployed imports this.
+import { sign } from 'hono/jwt';
+
+/** Pass as `jwtSecret` to the app under test so tokenFor's sessions verify */
+export const TEST_JWT_SECRET = 'test-jwt-secret';
+
+/**
+ * A signed-in session for `userId`, with `<userId>@example.com` as the email and `nickname`, if given,
+ * in the user metadata.
+ */
+export const tokenFor = (userId: string, nickname?: string): Promise<string> =>
+  sign(
+    {
+      sub: userId,
+      role: 'authenticated',
+      email: `${userId}@example.com`,
+      user_metadata: nickname ? { nickname } : {},
+      exp: Math.floor(Date.now() / 1000) + 60 * 60,
+    },
+    TEST_JWT_SECRET,
+    'HS256'
+  );
+
+/** The project's service role key, for admin routes */
+export const serviceToken = (): Promise<string> =>
+  sign({ role: 'service_role', exp: Math.floor(Date.now() / 1000) + 60 }, TEST_JWT_SECRET, 'HS256');
+
+/** A valid recipe as the app sends it */
+export const recipeInput = {
+  name: 'Mango Tango',
+  contributor: 'TestUser',
+  emoji: '🥭',
+  color: '#FFA500',
+  ingredients: ['1 cup mango', '1 cup orange juice'],
+  instructions: 'Blend until smooth and creamy',
+  servings: 2,
+  prepTime: '5 min',
+  containsFat: false,
+  containsNuts: false,
+};
@@ -0,0 +1,644 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createApp } from './app';
+import { createMemoryStorage, type KvStorage } from '../_shared/kvStorage';
+import { TRASH_RETENTION_DAYS } from '../_shared/recipeTrash';
+import { ratingSummaryKey } from '../_shared/ratingSchema';
+import type { CommunityRecipe } from '../_shared/recipesContract';
+import { buildRecipe } from '../../seed/recipeFactory';
+import { CURRENT_SCHEMA_VERSION, type StoredRecipe } from './migrations';
+import { nicknameClaimKey } from '../_shared/nicknameSchema';
+import { profileKey } from '../_shared/profiles';
+import { TEST_JWT_SECRET, recipeInput, serviceToken, tokenFor } from '../_shared/testing';
+
+const storedRecipe = (id: string, overrides: Partial<CommunityRecipe> = {}) =>
+  buildRecipe({ ...recipeInput, id, authorId: 'owner', createdAt: '2024-01-01T00:00:00.000Z', ...overrides });
+
+describe('recipes app', () => {
+  let kv: KvStorage;
+  let app: ReturnType<typeof createApp>;
+  let ownerToken: string;
+  let otherToken: string;
+
+  const request = async (
+    method: string,
+    path: string,
+    { token, body, headers = {} }: { token?: string; body?: unknown; headers?: Record<string, string> } = {}
+  ) => {
+    const res = await app.request(path, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, headers: res.headers, json: await res.json() };
+  };
+
+  const path = (id: string, suffix = '') => `/recipes/${encodeURIComponent(id)}${suffix}`;
+
+  // What the server function's nickname registry leaves behind for a user who claimed `nickname`
+  const registerNickname = (userId: string, nickname: string) =>
+    kv.set(profileKey(userId), { userId, nickname, bio: '', avatarUrl: null, joinedAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' });
+
+  beforeEach(async () => {
+    // Routes log every request and failure; keep test output readable
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    kv = createMemoryStorage();
+    app = createApp({ kv, jwtSecret: TEST_JWT_SECRET });
+    ownerToken = await tokenFor('owner', 'TestUser');
+    otherToken = await tokenFor('someone-else', 'Other');
+  });
+
+  describe('GET /recipes', () => {
+    it('should list recipes oldest first with a cursor for the next page', async () => {
+      await kv.set('recipe:2:b', storedRecipe('recipe:2:b', { createdAt: '2024-01-02T00:00:00.000Z' }));
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a'));
+      await kv.set('recipe:3:c', storedRecipe('recipe:3:c', { createdAt: '2024-01-03T00:00:00.000Z' }));
+
+      const first = await request('GET', '/recipes?limit=2');
+      expect(first.status).toBe(200);
+      expect(first.json.recipes.map((r: { id: string }) => r.id)).toEqual(['recipe:1:a', 'recipe:2:b']);
+
+      const second = await request('GET', `/recipes?limit=2&cursor=${encodeURIComponent(first.json.nextCursor)}`);
+      expect(second.json.recipes.map((r: { id: string }) => r.id)).toEqual(['recipe:3:c']);
+      expect(second.json.nextCursor).toBeNull();
+    });
+
+    it('should apply filters', async () => {
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a', { containsNuts: true }));
+      await kv.set('recipe:2:b', storedRecipe('recipe:2:b', { contributor: 'Berry Fan' }));
+
+      const { json } = await request('GET', '/recipes?noNuts=true&contributor=Berry%20Fan');
+
+      expect(json.recipes.map((r: { id: string }) => r.id)).toEqual(['recipe:2:b']);
+    });
+
+    it('should filter by author id', async () => {
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a'));
+      await kv.set('recipe:2:b', storedRecipe('recipe:2:b', { authorId: 'someone-else' }));
+
+      const { json } = await request('GET', '/recipes?author=someone-else');
+
+      expect(json.recipes.map((r: { id: string }) => r.id)).toEqual(['recipe:2:b']);
+    });
+
+    it('should reject invalid query parameters', async () => {
+      const { status, json } = await request('GET', '/recipes?limit=0');
+
+      expect(status).toBe(400);
+      expect(json.errors).toEqual([{ field: 'limit', message: 'limit must be between 1 and 100' }]);
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      const { status, json } = await request('GET', '/recipes?cursor=not-a-cursor');
+
+      expect(status).toBe(400);
+      expect(json.errors[0].field).toBe('cursor');
+    });
+
+    it('should hide trashed recipes without deleting anything', async () => {
+      const longAgo = new Date(Date.now() - (TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000).toISOString();
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a'));
+      await kv.set('recipe:2:b', storedRecipe('recipe:2:b', { deletedAt: new Date().toISOString() }));
+      await kv.set('recipe:3:c', storedRecipe('recipe:3:c', { deletedAt: longAgo }));
+
+      const { json } = await request('GET', '/recipes');
+
+      expect(json.recipes.map((r: { id: string }) => r.id)).toEqual(['recipe:1:a']);
+      expect(await kv.get('recipe:2:b')).toBeDefined();
+      expect(await kv.get('recipe:3:c')).toBeDefined();
+    });
+  });
+
+  describe('GET /recipes/search', () => {
+    it('should rank matching recipes', async () => {
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a'));
+      await kv.set('recipe:2:b', storedRecipe('recipe:2:b', { name: 'Berry Blast', ingredients: ['1 cup berries'] }));
+
+      const { status, json } = await request('GET', '/recipes/search?q=mango');
+
+      expect(status).toBe(200);
+      expect(json.recipes.map((r: { id: string }) => r.id)).toEqual(['recipe:1:a']);
+    });
+
+    it('should require a query', async () => {
+      const { status, json } = await request('GET', '/recipes/search');
+
+      expect(status).toBe(400);
+      expect(json.errors[0].field).toBe('q');
+    });
+  });
+
+  describe('GET /recipes/:id', () => {
+    it('should decode ids with colons', async () => {
+      await kv.set('recipe:1762405222159:19kx5', storedRecipe('recipe:1762405222159:19kx5', { version: 3 }));
+
+      const { status, headers, json } = await request('GET', path('recipe:1762405222159:19kx5'));
+
+      expect(status).toBe(200);
+      expect(json.recipe.id).toBe('recipe:1762405222159:19kx5');
+      expect(headers.get('ETag')).toBe('"3"');
+    });
+
+    it('should 404 for missing recipes and keys that are not recipes', async () => {
+      await kv.set('rating:recipe:1:a:owner', { rating: 5 });
+
+      expect((await request('GET', path('recipe:1:missing'))).status).toBe(404);
+      expect((await request('GET', path('rating:recipe:1:a:owner'))).status).toBe(404);
+    });
+
+    it('should answer 410 for recipes in the trash', async () => {
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a', { deletedAt: new Date().toISOString() }));
+
+      expect((await request('GET', path('recipe:1:a'))).status).toBe(410);
+    });
+  });
+
+  describe('POST /recipes', () => {
+    it('should require a signed-in user', async () => {
+      const { status } = await request('POST', '/recipes', { body: recipeInput });
+
+      expect(status).toBe(401);
+    });
+
+    it('should report validation errors per field', async () => {
+      const { status, json } = await request('POST', '/recipes', {
+        token: ownerToken,
+        body: { ...recipeInput, name: '', instructions: 'short' },
+      });
+
+      expect(status).toBe(400);
+      expect(json.errors).toEqual([
+        { field: 'name', message: 'Recipe name is required' },
+        { field: 'instructions', message: 'Instructions must be at least 10 characters' },
+      ]);
+    });
+
+    it('should create a recipe owned by the caller', async () => {
+      await registerNickname('owner', 'TestUser');
+      const { status, json } = await request('POST', '/recipes', { token: ownerToken, body: recipeInput });
+
+      expect(status).toBe(200);
+      expect(json.recipe.id).toMatch(/^recipe:\d+:\w+$/);
+      expect(json.recipe).toMatchObject({ ...recipeInput, authorId: 'owner', version: 1 });
+      expect(await kv.get(json.recipe.id)).toEqual(json.recipe);
+    });
+
+    it('should credit the caller by email until they claim a nickname, whatever the body says', async () => {
+      const { json } = await request('POST', '/recipes', { token: ownerToken, body: { ...recipeInput, contributor: 'Someone Famous' } });
+
+      expect(json.recipe.contributor).toBe('owner@example.com');
+    });
+
+    it('should return the first recipe when retried with the same Idempotency-Key', async () => {
+      const headers = { 'Idempotency-Key': 'local-recipe-1' };
+      const first = await request('POST', '/recipes', { token: ownerToken, body: recipeInput, headers });
+      const retry = await request('POST', '/recipes', { token: ownerToken, body: recipeInput, headers });
+
+      expect(retry.json.recipe.id).toBe(first.json.recipe.id);
+      expect(await kv.getByPrefix('recipe:')).toHaveLength(1);
+    });
+
+    it('should create one recipe when retries with the same Idempotency-Key arrive together', async () => {
+      const headers = { 'Idempotency-Key': 'local-recipe-1' };
+      // Slow writes, so every attempt is in flight before the first recipe is saved
+      const set: KvStorage['set'] = async (key, value) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        await kv.set(key, value);
+      };
+      app = createApp({ kv: { ...kv, set }, jwtSecret: TEST_JWT_SECRET });
+      const attempts = await Promise.all(
+        [1, 2, 3].map(() => request('POST', '/recipes', { token: ownerToken, body: recipeInput, headers }))
+      );
+
+      const stored = await kv.getByPrefix<StoredRecipe>('recipe:');
+      expect(stored).toHaveLength(1);
+      // Each attempt gets the recipe, or is told to try again while it's being saved
+      for (const { status, json } of attempts) {
+        expect(status === 409 || json.recipe.id === stored[0].id).toBe(true);
+      }
+      expect(attempts.filter((attempt) => attempt.status === 200).length).toBeGreaterThan(0);
+      const retry = await request('POST', '/recipes', { token: ownerToken, body: recipeInput, headers });
+      expect(retry.json.recipe.id).toBe(stored[0].id);
+    });
+
+    it('should take over an Idempotency-Key whose first attempt never saved its recipe', async () => {
+      const headers = { 'Idempotency-Key': 'local-recipe-1' };
+      await kv.set('idempotency:owner:local-recipe-1', { recipeId: 'recipe:1:lost', createdAt: new Date().toISOString() });
+
+      expect((await request('POST', '/recipes', { token: ownerToken, body: recipeInput, headers })).status).toBe(409);
+
+      await kv.set('idempotency:owner:local-recipe-1', { recipeId: 'recipe:1:lost', createdAt: '2024-01-01T00:00:00.000Z' });
+      const { status, json } = await request('POST', '/recipes', { token: ownerToken, body: recipeInput, headers });
+      expect(status).toBe(200);
+      expect(await kv.get('idempotency:owner:local-recipe-1')).toMatchObject({ recipeId: json.recipe.id });
+    });
+
+    it('should keep Idempotency-Keys separate per user', async () => {
+      const headers = { 'Idempotency-Key': 'same-key' };
+      const mine = await request('POST', '/recipes', { token: ownerToken, body: recipeInput, headers });
+      const theirs = await request('POST', '/recipes', { token: otherToken, body: recipeInput, headers });
+
+      expect(theirs.json.recipe.id).not.toBe(mine.json.recipe.id);
+    });
+  });
+
+  describe('PUT /recipes/:id', () => {
+    const recipeId = 'recipe:1762405222159:19kx5';
+
+    beforeEach(async () => {
+      await kv.set(recipeId, storedRecipe(recipeId));
+    });
+
+    const update = (body: unknown, { token = ownerToken, version = '"1"' }: { token?: string; version?: string | null } = {}) =>
+      request('PUT', path(recipeId), { token, body, headers: version === null ? {} : { 'If-Match': version } });
+
+    it('should update the recipe, keeping createdAt and bumping the version', async () => {
+      await registerNickname('owner', 'TestUser');
+      const { status, headers, json } = await update({ ...recipeInput, name: 'Mango Tango Deluxe', contributor: 'Someone Famous' });
+
+      expect(status).toBe(200);
+      expect(json.recipe).toMatchObject({
+        id: recipeId,
+        name: 'Mango Tango Deluxe',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        contributor: 'TestUser',
+        version: 2,
+        updatedBy: { id: 'owner', name: 'TestUser' },
+      });
+      expect(headers.get('ETag')).toBe('"2"');
+      expect((await kv.get<StoredRecipe>(recipeId))?.name).toBe('Mango Tango Deluxe');
+    });
+
+    it('should archive the previous version', async () => {
+      await update({ ...recipeInput, name: 'Mango Tango Deluxe' });
+
+      const { json } = await request('GET', path(recipeId, '/revisions'));
+      expect(json.revisions).toHaveLength(1);
+      expect(json.revisions[0]).toMatchObject({ revision: 1, recipe: { name: 'Mango Tango' } });
+    });
+
+    it('should require If-Match', async () => {
+      expect((await update(recipeInput, { version: null })).status).toBe(428);
+    });
+
+    it('should answer 409 with the current copy when the version is stale', async () => {
+      await update({ ...recipeInput, name: 'Saved Elsewhere' });
+
+      const { status, json } = await update({ ...recipeInput, name: 'Mine' });
+
+      expect(status).toBe(409);
+      expect(json.recipe).toMatchObject({ name: 'Saved Elsewhere', version: 2 });
+    });
+
+    it('should report validation errors', async () => {
+      const { status, json } = await update({ ...recipeInput, servings: 0 });
+
+      expect(status).toBe(400);
+      expect(json.errors[0].field).toBe('servings');
+    });
+
+    it('should 404 for missing recipes and 403 for other users', async () => {
+      expect((await request('PUT', path('recipe:1:missing'), { token: ownerToken, body: recipeInput, headers: { 'If-Match': '"1"' } })).status).toBe(404);
+      expect((await update(recipeInput, { token: otherToken })).status).toBe(403);
+    });
+
+    it('should not let anyone edit a recipe without an author, whatever their nickname', async () => {
+      await kv.set(recipeId, storedRecipe(recipeId, { authorId: null }));
+
+      expect((await update(recipeInput)).status).toBe(403);
+      expect((await kv.get<StoredRecipe>(recipeId))?.authorId).toBeNull();
+    });
+  });
+
+  describe('revisions', () => {
+    const recipeId = 'recipe:1:a';
+
+    beforeEach(async () => {
+      await kv.set(recipeId, storedRecipe(recipeId));
+      await request('PUT', path(recipeId), {
+        token: ownerToken,
+        body: { ...recipeInput, name: 'Second Name' },
+        headers: { 'If-Match': '"1"' },
+      });
+    });
+
+    it('should restore a past version', async () => {
+      const { status, json } = await request('POST', path(recipeId, '/revert'), { token: ownerToken, body: { revision: 1 } });
+
+      expect(status).toBe(200);
+      expect(json.recipe).toMatchObject({ name: 'Mango Tango', version: 3 });
+    });
+
+    it('should credit the revert to the user reverting, by email until they claim a nickname', async () => {
+      const { json } = await request('POST', path(recipeId, '/revert'), { token: ownerToken, body: { revision: 1 } });
+
+      expect(json.recipe.updatedBy).toEqual({ id: 'owner', name: 'owner@example.com' });
+    });
+
+    it('should keep the current display name when restoring', async () => {
+      await registerNickname('owner', 'Renamed');
+      await request('POST', '/recipes/author/rename', { token: ownerToken });
+
+      const { json } = await request('POST', path(recipeId, '/revert'), { token: ownerToken, body: { revision: 1 } });
+
+      expect(json.recipe).toMatchObject({ name: 'Mango Tango', contributor: 'Renamed' });
+    });
+
+    it('should validate the revision number', async () => {
+      const { status } = await request('POST', path(recipeId, '/revert'), { token: ownerToken, body: { revision: 'one' } });
+
+      expect(status).toBe(400);
+    });
+
+    it('should 404 for unknown revisions', async () => {
+      const { status } = await request('POST', path(recipeId, '/revert'), { token: ownerToken, body: { revision: 9 } });
+
+      expect(status).toBe(404);
+    });
+  });
+
+  describe('ratings', () => {
+    const recipeId = 'recipe:1:a';
+
+    beforeEach(async () => {
+      await kv.set(recipeId, storedRecipe(recipeId));
+    });
+
+    it('should save a rating and keep the summary next to the recipe', async () => {
+      await request('PUT', path(recipeId, '/ratings'), { token: ownerToken, body: { rating: 5, review: 'Great' } });
+      const { status, json } = await request('PUT', path(recipeId, '/ratings'), { token: otherToken, body: { rating: 4 } });
+
+      expect(status).toBe(200);
+      expect(json.summary).toEqual({ average: 4.5, count: 2 });
+      expect(await kv.get(ratingSummaryKey(recipeId))).toEqual({ average: 4.5, count: 2 });
+      expect((await request('GET', path(recipeId))).json.recipe).toMatchObject({ version: 1, ratingSummary: { average: 4.5, count: 2 } });
+      expect(await kv.get(recipeId)).toEqual(storedRecipe(recipeId));
+
+      const listed = await request('GET', path(recipeId, '/ratings'));
+      expect(listed.json.ratings).toHaveLength(2);
+    });
+
+    it('should keep the summary out of the stored recipe when it is edited, deleted or restored', async () => {
+      await request('PUT', path(recipeId, '/ratings'), { token: ownerToken, body: { rating: 5 } });
+
+      await request('PUT', path(recipeId), { token: ownerToken, body: { ...recipeInput, name: 'Edited' }, headers: { 'If-Match': '"1"' } });
+      expect(await kv.get(recipeId)).not.toHaveProperty('ratingSummary');
+      await request('DELETE', path(recipeId), { token: ownerToken });
+      await request('POST', path(recipeId, '/restore'), { token: ownerToken });
+      expect(await kv.get(recipeId)).not.toHaveProperty('ratingSummary');
+
+      await request('PUT', path(recipeId, '/ratings'), { token: otherToken, body: { rating: 3 } });
+      expect((await request('GET', path(recipeId))).json.recipe.ratingSummary).toEqual({ average: 4, count: 2 });
+    });
+
+    it('should move a summary stored in the recipe to its own key when the recipe is saved', async () => {
+      await kv.set(recipeId, { ...storedRecipe(recipeId), ratingSummary: { average: 5, count: 1 } });
+
+      await request('PUT', path(recipeId), { token: ownerToken, body: recipeInput, headers: { 'If-Match': '"1"' } });
+
+      expect(await kv.get(recipeId)).not.toHaveProperty('ratingSummary');
+      expect(await kv.get(ratingSummaryKey(recipeId))).toEqual({ average: 5, count: 1 });
+    });
+
+    it("should credit ratings to the rater's registered nickname, not the one in their session", async () => {
+      await registerNickname('owner', 'Blender Boss');
+      await request('PUT', path(recipeId, '/ratings'), { token: ownerToken, body: { rating: 5 } });
+      await request('PUT', path(recipeId, '/ratings'), { token: otherToken, body: { rating: 4 } });
+
+      const { json } = await request('GET', path(recipeId, '/ratings'));
+
+      expect(json.ratings.map((rating: { author: string }) => rating.author).sort()).toEqual(['Anonymous', 'Blender Boss']);
+    });
+
+    it('should list recipes with their summary and filter on it', async () => {
+      await kv.set('recipe:2:b', storedRecipe('recipe:2:b'));
+      await request('PUT', path(recipeId, '/ratings'), { token: ownerToken, body: { rating: 4 } });
+
+      const { json } = await request('GET', '/recipes?minRating=3');
+
+      expect(json.recipes).toEqual([expect.objectContaining({ id: recipeId, ratingSummary: { average: 4, count: 1 } })]);
+    });
+
+    it('should reject ratings outside 1-5', async () => {
+      const { status, json } = await request('PUT', path(recipeId, '/ratings'), { token: ownerToken, body: { rating: 6 } });
+
+      expect(status).toBe(400);
+      expect(json.errors[0].field).toBe('rating');
+    });
+
+    it('should 404 for missing recipes', async () => {
+      expect((await request('GET', path('recipe:1:missing', '/ratings'))).status).toBe(404);
+    });
+  });
+
+  describe('DELETE /recipes/:id and the trash', () => {
+    const recipeId = 'recipe:1:a';
+
+    beforeEach(async () => {
+      await kv.set(recipeId, storedRecipe(recipeId));
+    });
+
+    it('should move the recipe to the trash and restore it', async () => {
+      expect((await request('DELETE', path(recipeId), { token: ownerToken })).status).toBe(200);
+      expect((await request('GET', path(recipeId))).status).toBe(410);
+
+      const trash = await request('GET', '/recipes/trash', { token: ownerToken });
+      expect(trash.json.recipes.map((r: { id: string }) => r.id)).toEqual([recipeId]);
+
+      const restored = await request('POST', path(recipeId, '/restore'), { token: ownerToken });
+      expect(restored.status).toBe(200);
+      expect(restored.json.recipe.deletedAt).toBeUndefined();
+      expect((await request('GET', path(recipeId))).status).toBe(200);
+    });
+
+    it('should only let the owner delete', async () => {
+      expect((await request('DELETE', path(recipeId))).status).toBe(401);
+      expect((await request('DELETE', path(recipeId), { token: otherToken })).status).toBe(403);
+    });
+
+    it('should 404 when restoring a recipe that is not in the trash', async () => {
+      expect((await request('POST', path(recipeId, '/restore'), { token: ownerToken })).status).toBe(404);
+    });
+  });
+
+  describe('POST /recipes/author/rename', () => {
+    it('should put the registered nickname on every recipe the caller wrote, including ones in the trash', async () => {
+      await registerNickname('owner', 'Blender Boss');
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a'));
+      await kv.set('recipe:2:b', storedRecipe('recipe:2:b', { deletedAt: new Date().toISOString() }));
+      await kv.set('recipe:3:c', storedRecipe('recipe:3:c', { authorId: 'someone-else', contributor: 'TestUser' }));
+
+      // A name in the body is ignored; only the registry says what the caller is called
+      const { status, json } = await request('POST', '/recipes/author/rename', { token: ownerToken, body: { contributor: 'Someone Famous' } });
+
+      expect(status).toBe(200);
+      expect(json).toEqual({ success: true, updated: 2 });
+      expect(await kv.get('recipe:1:a')).toMatchObject({ contributor: 'Blender Boss', version: 1 });
+      expect((await kv.get<StoredRecipe>('recipe:2:b'))?.contributor).toBe('Blender Boss');
+      expect((await kv.get<StoredRecipe>('recipe:3:c'))?.contributor).toBe('TestUser');
+    });
+
+    it('should leave recipes without an author alone, whatever name they carry', async () => {
+      await registerNickname('owner', 'Blender Boss');
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a', { authorId: null }));
+
+      const { json } = await request('POST', '/recipes/author/rename', { token: ownerToken });
+
+      expect(json.updated).toBe(0);
+      expect(await kv.get('recipe:1:a')).toMatchObject({ authorId: null, contributor: 'TestUser' });
+    });
+
+    it('should require a signed-in user with a registered nickname', async () => {
+      expect((await request('POST', '/recipes/author/rename')).status).toBe(401);
+      expect((await request('POST', '/recipes/author/rename', { token: ownerToken })).status).toBe(409);
+    });
+  });
+
+  describe('POST /recipes/admin/purge', () => {
+    it('should remove recipes past their time in the trash, for the service role only', async () => {
+      const longAgo = new Date(Date.now() - (TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000).toISOString();
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a', { deletedAt: new Date().toISOString() }));
+      await kv.set('recipe:2:b', storedRecipe('recipe:2:b', { deletedAt: longAgo }));
+      await kv.set(ratingSummaryKey('recipe:2:b'), { average: 5, count: 1 });
+
+      expect((await request('POST', '/recipes/admin/purge', { token: ownerToken })).status).toBe(403);
+      expect((await request('POST', path('recipe:2:b', '/restore'), { token: ownerToken })).status).toBe(404);
+
+      const { json } = await request('POST', '/recipes/admin/purge', { token: await serviceToken() });
+
+      expect(json).toEqual({ purged: 1 });
+      expect(await kv.get('recipe:1:a')).toBeDefined();
+      expect(await kv.get('recipe:2:b')).toBeUndefined();
+      expect(await kv.get(ratingSummaryKey('recipe:2:b'))).toBeUndefined();
+    });
+  });
+
+  describe('malformed bodies', () => {
+    const send = (method: string, url: string, headers: Record<string, string> = {}) =>
+      app.request(url, {
+        method,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ownerToken}`, ...headers },
+        body: '{"name": "Mango',
+      });
+
+    it('should answer 400 instead of failing on JSON that does not parse', async () => {
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a'));
+
+      expect((await send('POST', '/recipes')).status).toBe(400);
+      expect((await send('PUT', path('recipe:1:a'), { 'If-Match': '"1"' })).status).toBe(400);
+      expect((await send('PUT', path('recipe:1:a', '/ratings'))).status).toBe(400);
+    });
+  });
+
+  describe('schema migrations', () => {
+    // Stored before schemaVersion, emoji/color/servings defaults or authors existed
+    const oldRecord = {
+      id: 'recipe:1:old',
+      name: 'Old Smoothie',
+      contributor: 'TestUser',
+      ingredients: ['1 banana'],
+      instructions: 'Blend it all together',
+      createdAt: '2023-01-01T00:00:00.000Z',
+    };
+
+    it('should upgrade old records when they are read', async () => {
+      await kv.set(oldRecord.id, oldRecord);
+
+      const { json } = await request('GET', path(oldRecord.id));
+      const list = await request('GET', '/recipes');
+
+      expect(json.recipe).toMatchObject({ emoji: '🥤', servings: 1, version: 1, schemaVersion: CURRENT_SCHEMA_VERSION });
+      expect(list.json.recipes[0].schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it('should store the upgraded record on the next write', async () => {
+      await kv.set(oldRecord.id, { ...oldRecord, authorId: 'owner' });
+      const { emoji: _emoji, ...withoutEmoji } = recipeInput;
+
+      await request('PUT', path(oldRecord.id), { token: ownerToken, body: withoutEmoji, headers: { 'If-Match': '"1"' } });
+
+      expect(await kv.get(oldRecord.id)).toMatchObject({ emoji: '🥤', version: 2, schemaVersion: CURRENT_SCHEMA_VERSION });
+    });
+
+    it('should stamp new recipes with the current schema version', async () => {
+      const { json } = await request('POST', '/recipes', { token: ownerToken, body: recipeInput });
+
+      expect(json.recipe.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it('should rewrite outdated records in a batch for the service role only', async () => {
+      await kv.set(oldRecord.id, oldRecord);
+      await kv.set('recipe:2:current', storedRecipe('recipe:2:current'));
+
+      expect((await request('POST', '/recipes/admin/migrate', { token: ownerToken })).status).toBe(403);
+
+      const dryRun = await request('POST', '/recipes/admin/migrate?dryRun=true', { token: await serviceToken() });
+      expect(dryRun.json).toEqual({ schemaVersion: CURRENT_SCHEMA_VERSION, scanned: 2, migrated: 1, dryRun: true });
+      expect((await kv.get<StoredRecipe>(oldRecord.id))?.schemaVersion).toBeUndefined();
+
+      const run = await request('POST', '/recipes/admin/migrate', { token: await serviceToken() });
+      expect(run.json).toMatchObject({ scanned: 2, migrated: 1, dryRun: false });
+      expect(await kv.get(oldRecord.id)).toMatchObject({ emoji: '🥤', authorId: null, schemaVersion: CURRENT_SCHEMA_VERSION });
+    });
+
+    it('should not give recipes without an author to the holder of their contributor nickname', async () => {
+      await kv.set(oldRecord.id, oldRecord);
+      await kv.set(nicknameClaimKey('TestUser'), { userId: 'owner', nickname: 'TestUser', claimedAt: '2024-01-01T00:00:00.000Z' });
+
+      await request('POST', '/recipes/admin/migrate', { token: await serviceToken() });
+
+      expect((await kv.get<StoredRecipe>(oldRecord.id))?.authorId).toBeNull();
+    });
+  });
+
+  describe('POST /recipes/admin/authors', () => {
+    const assign = async (authors: { recipeId: string; authorId: string }[], token?: string) =>
+      request('POST', '/recipes/admin/authors', { token: token ?? (await serviceToken()), body: { authors } });
+
+    it('should record the author of recipes that have none, for the service role only', async () => {
+      await kv.set('recipe:1:old', { ...storedRecipe('recipe:1:old', { authorId: null }), schemaVersion: undefined });
+
+      expect((await assign([{ recipeId: 'recipe:1:old', authorId: 'owner' }], ownerToken)).status).toBe(403);
+
+      const { status, json } = await assign([{ recipeId: 'recipe:1:old', authorId: 'owner' }]);
+      expect(status).toBe(200);
+      expect(json).toEqual({ attributed: 1, skipped: [] });
+      expect(await kv.get('recipe:1:old')).toMatchObject({ authorId: 'owner', schemaVersion: CURRENT_SCHEMA_VERSION });
+    });
+
+    it('should leave recipes that have an author, imported recipes and missing ones alone', async () => {
+      await kv.set('recipe:1:a', storedRecipe('recipe:1:a'));
+      await kv.set('recipe:2:legacy', storedRecipe('recipe:2:legacy', { authorId: null, imported: true }));
+
+      const { json } = await assign([
+        { recipeId: 'recipe:1:a', authorId: 'someone-else' },
+        { recipeId: 'recipe:2:legacy', authorId: 'someone-else' },
+        { recipeId: 'recipe:3:missing', authorId: 'someone-else' },
+        { recipeId: 'profile:owner', authorId: 'someone-else' },
+      ]);
+
+      expect(json).toEqual({
+        attributed: 0,
+        skipped: [
+          { recipeId: 'recipe:1:a', authorId: 'someone-else', reason: 'has-author' },
+          { recipeId: 'recipe:2:legacy', authorId: 'someone-else', reason: 'imported' },
+          { recipeId: 'recipe:3:missing', authorId: 'someone-else', reason: 'missing' },
+          { recipeId: 'profile:owner', authorId: 'someone-else', reason: 'missing' },
+        ],
+      });
+      expect((await kv.get<StoredRecipe>('recipe:1:a'))?.authorId).toBe('owner');
+      expect((await kv.get<StoredRecipe>('recipe:2:legacy'))?.authorId).toBeNull();
+    });
+
+    it('should reject malformed mappings', async () => {
+      const { status, json } = await assign([{ recipeId: 'recipe:1:a', authorId: '' }]);
+
+      expect(status).toBe(400);
+      expect(json.errors[0].field).toBe('authors');
+    });
+  });
+});
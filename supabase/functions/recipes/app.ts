@@ -0,0 +1,671 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { logger } from 'hono/logger';
+import type { KvEntry, KvStorage } from '../_shared/kvStorage.ts';
+import { getAuthUser, isRecipeOwner, isServiceRole, type AuthUser } from './auth.ts';
+import { recipeAuthorsSchema, recipeInputSchema, toFieldErrors } from '../_shared/recipeSchema.ts';
+import { searchQuerySchema, searchRecipes } from '../_shared/recipeSearch.ts';
+import {
+  RATING_SUMMARY_PREFIX,
+  ratingInputSchema,
+  ratingKey,
+  ratingPrefix,
+  ratingSummaryKey,
+  summarizeRatings,
+  type RatingSummary,
+  type RecipeRating,
+} from '../_shared/ratingSchema.ts';
+import { pickRevisionFields, revisionKey, revisionPrefix, type RecipeRevision } from '../_shared/recipeRevisions.ts';
+import { isInTrash, isPastRetention } from '../_shared/recipeTrash.ts';
+import { parseIfMatch, recipeVersion, toETag } from '../_shared/recipeVersion.ts';
+import type { ConflictResponse, RecipeAuthorSkipReason, RecipeAuthorsReport, ResponseOf } from '../_shared/recipesContract.ts';
+import { registeredNickname } from '../_shared/profiles.ts';
+import { decodeCursor, listQuerySchema, listRecipes } from './listing.ts';
+import { CURRENT_SCHEMA_VERSION, RECIPE_DEFAULTS, migrateRecipe, needsMigration, type StoredRecipe } from './migrations.ts';
+
+export interface AppOptions {
+  kv: KvStorage;
+  /** Secret used to verify Supabase session JWTs (Project Settings → API → JWT Secret) */
+  jwtSecret: string | undefined;
+}
+
+/** Stored at `idempotency:<userId>:<key>` for the recipe a POST created */
+interface IdempotencyRecord {
+  recipeId: string;
+  createdAt: string;
+}
+
+/**
+ * The recipes API. index.ts serves it on Deno; tests call `app.request()` against an in-memory store.
+ */
+export function createApp({ kv, jwtSecret }: AppOptions): Hono {
+  const app = new Hono();
+
+  // Store the version about to be replaced as the next `revision:<recipeId>:<n>`
+  const archiveRevision = async (recipeId: string, recipe: StoredRecipe): Promise<void> => {
+    const revisions: RecipeRevision[] = (await kv.getByPrefix(revisionPrefix(recipeId))) || [];
+    const next = revisions.reduce((max, r) => Math.max(max, r.revision), 0) + 1;
+    const revision: RecipeRevision = {
+      recipeId,
+      revision: next,
+      recipe: pickRevisionFields(recipe),
+      // Versions saved before edits were tracked are credited to the recipe's creator
+      editor: recipe.updatedBy ?? { id: recipe.authorId ?? null, name: recipe.contributor },
+      editedAt: recipe.updatedAt ?? recipe.createdAt ?? new Date().toISOString(),
+    };
+    await kv.set(revisionKey(recipeId, next), revision);
+  };
+
+  // Clients retrying a POST send the same Idempotency-Key; it maps to the recipe the first attempt created
+  const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+  // How long a key stays reserved for an attempt that never saved its recipe
+  const IDEMPOTENCY_RESERVATION_MS = 60_000;
+  const idempotencyKeyFor = (userId: string, key: string): string => `idempotency:${userId}:${key}`;
+
+  // Recipes rated before summaries had their own key still carry one
+  const withRatingSummary = (recipe: StoredRecipe, summary: RatingSummary | undefined): StoredRecipe =>
+    summary ? { ...recipe, ratingSummary: summary } : recipe;
+
+  // Recipes are always read through these, so handlers only see the current schema (see migrations.ts).
+  // Only recipe rows are readable, not arbitrary keys of the shared KV table.
+  const getRecipe = async (recipeId: string): Promise<StoredRecipe | null> => {
+    const recipe = recipeId.startsWith('recipe:') ? await kv.get<StoredRecipe>(recipeId) : null;
+    return recipe ? withRatingSummary(migrateRecipe(recipe), await kv.get(ratingSummaryKey(recipeId))) : null;
+  };
+
+  // Recipes are stored without the summary reads add, so a rating never has to rewrite the recipe and a save
+  // can't put back a stale one. A summary from before they had their own key moves there unless one exists.
+  const saveRecipes = async (recipes: StoredRecipe[]): Promise<void> => {
+    for (const { id, ratingSummary } of recipes) {
+      if (ratingSummary) await kv.setIfAbsent(ratingSummaryKey(id), ratingSummary);
+    }
+    await kv.mset(
+      recipes.map((recipe) => recipe.id),
+      recipes.map(({ ratingSummary: _ratingSummary, ...recipe }) => recipe)
+    );
+  };
+
+  const saveRecipe = (recipe: StoredRecipe): Promise<void> => saveRecipes([recipe]);
+
+  const getAllRecipes = async (): Promise<StoredRecipe[]> => {
+    const [recipes, summaries] = await Promise.all([
+      kv.getByPrefix<StoredRecipe>('recipe:'),
+      kv.scan<RatingSummary>({ prefix: RATING_SUMMARY_PREFIX }),
+    ]);
+    const summaryByKey = new Map(summaries.map((entry) => [entry.key, entry.value]));
+    return (recipes || []).map((recipe) => withRatingSummary(migrateRecipe(recipe), summaryByKey.get(ratingSummaryKey(recipe.id))));
+  };
+
+  // Recipes that are readable and editable: recipe rows that aren't in the trash
+  const getLiveRecipe = async (recipeId: string): Promise<StoredRecipe | null> => {
+    const recipe = await getRecipe(recipeId);
+    return recipe && !isInTrash(recipe) ? recipe : null;
+  };
+
+  // Recipes are credited to the nickname the author holds in the registry, or their email until they claim one
+  const displayNameOf = async (user: AuthUser): Promise<string> =>
+    (await registeredNickname(kv, user.id)) ?? user.email ?? 'Anonymous';
+
+  const MIGRATION_BATCH_SIZE = 100;
+
+  // Permanently remove a recipe together with its ratings and revisions
+  const purgeRecipe = async (recipeId: string): Promise<void> => {
+    const ratings: RecipeRating[] = (await kv.getByPrefix(ratingPrefix(recipeId))) || [];
+    const revisions: RecipeRevision[] = (await kv.getByPrefix(revisionPrefix(recipeId))) || [];
+    await kv.mdel([
+      recipeId,
+      ratingSummaryKey(recipeId),
+      ...ratings.map((r) => ratingKey(recipeId, r.userId)),
+      ...revisions.map((r) => revisionKey(recipeId, r.revision)),
+    ]);
+  };
+
+  app.use('*', cors());
+  app.use('*', logger(console.log));
+
+  // Health check
+  app.get('/recipes/health', (c) => c.json({ ok: true }));
+
+  // Rewrite every recipe stored on an older schema at /recipes/admin/migrate (service role key only).
+  // Reads already upgrade records on the fly; this saves redoing it on every request. ?dryRun=true only counts.
+  app.post('/recipes/admin/migrate', async (c) => {
+    try {
+      if (!(await isServiceRole(c.req.header('Authorization'), jwtSecret))) {
+        return c.json({ error: 'Service role key required' }, 403);
+      }
+
+      const dryRun = c.req.query('dryRun') === 'true';
+      let scanned = 0;
+      let migrated = 0;
+      let after: string | undefined;
+      for (;;) {
+        const page = await kv.scan<StoredRecipe>({ prefix: 'recipe:', after, limit: MIGRATION_BATCH_SIZE });
+        if (page.length === 0) break;
+
+        const changed: KvEntry<StoredRecipe>[] = page
+          .map((entry) => ({ key: entry.key, value: migrateRecipe(entry.value) }))
+          .filter((entry, i) => entry.value !== page[i].value);
+        migrated += changed.length;
+        if (!dryRun && changed.length > 0) {
+          await saveRecipes(changed.map((entry) => entry.value));
+        }
+        scanned += page.length;
+        after = page[page.length - 1].key;
+      }
+
+      console.log(`Recipe migration${dryRun ? ' (dry run)' : ''}: ${migrated} of ${scanned} records upgraded`);
+      return c.json({ schemaVersion: CURRENT_SCHEMA_VERSION, scanned, migrated, dryRun } satisfies ResponseOf<'POST /recipes/admin/migrate'>);
+    } catch (error) {
+      console.error('Error migrating recipes:', error);
+      return c.json({ error: 'Failed to migrate recipes' }, 500);
+    }
+  });
+
+  // Record who wrote recipes from before authors were recorded at /recipes/admin/authors (service role key only),
+  // with body { authors: [{ recipeId, authorId }] }. A recipe that already has an author keeps it, so running the
+  // same mapping twice changes nothing, and recipes imported from fixture sets are never given one.
+  app.post('/recipes/admin/authors', async (c) => {
+    try {
+      if (!(await isServiceRole(c.req.header('Authorization'), jwtSecret))) {
+        return c.json({ error: 'Service role key required' }, 403);
+      }
+
+      const parsed = recipeAuthorsSchema.safeParse(await c.req.json().catch(() => ({})));
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid authors', errors: toFieldErrors(parsed.error) }, 400);
+      }
+
+      const report: RecipeAuthorsReport = { attributed: 0, skipped: [] };
+      for (const { recipeId, authorId } of parsed.data.authors) {
+        const stored = recipeId.startsWith('recipe:') ? await kv.get<StoredRecipe>(recipeId) : null;
+        const recipe = stored && migrateRecipe(stored);
+        if (!recipe || recipe.imported || recipe.authorId) {
+          const reason: RecipeAuthorSkipReason = !recipe ? 'missing' : recipe.imported ? 'imported' : 'has-author';
+          report.skipped.push({ recipeId, authorId, reason });
+          continue;
+        }
+        await saveRecipe({ ...recipe, authorId });
+        report.attributed++;
+      }
+
+      console.log(`Recipe authors: ${report.attributed} attributed, ${report.skipped.length} skipped`);
+      return c.json(report satisfies ResponseOf<'POST /recipes/admin/authors'>);
+    } catch (error) {
+      console.error('Error recording recipe authors:', error);
+      return c.json({ error: 'Failed to record recipe authors' }, 500);
+    }
+  });
+
+  // Permanently remove recipes whose time in the trash is up at /recipes/admin/purge (service role key only).
+  // Run daily by .github/workflows/purge-trash.yml; until then they're hidden everywhere but not gone.
+  app.post('/recipes/admin/purge', async (c) => {
+    try {
+      if (!(await isServiceRole(c.req.header('Authorization'), jwtSecret))) {
+        return c.json({ error: 'Service role key required' }, 403);
+      }
+
+      const expired = (await getAllRecipes()).filter((recipe) => isPastRetention(recipe));
+      for (const recipe of expired) {
+        await purgeRecipe(recipe.id);
+      }
+
+      console.log(`Trash purge: ${expired.length} recipes removed`);
+      return c.json({ purged: expired.length } satisfies ResponseOf<'POST /recipes/admin/purge'>);
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      return c.json({ error: 'Failed to purge trash' }, 500);
+    }
+  });
+
+  // Put the signed-in user's registered nickname on the recipes they wrote at /recipes/author/rename (MUST come before /recipes/:id).
+  // Recipes carry a copy of their author's name, so the app calls this after a nickname change.
+  app.post('/recipes/author/rename', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const contributor = await registeredNickname(kv, user.id);
+      if (!contributor) {
+        return c.json({ error: 'Claim a nickname first' }, 409);
+      }
+
+      // Display names aren't content, so this doesn't bump versions or archive revisions
+      const renamed = (await getAllRecipes())
+        .filter((recipe) => recipe.authorId === user.id && recipe.contributor !== contributor)
+        .map((recipe) => ({ ...recipe, contributor }));
+      if (renamed.length > 0) {
+        await saveRecipes(renamed);
+      }
+      return c.json({ success: true, updated: renamed.length } satisfies ResponseOf<'POST /recipes/author/rename'>);
+    } catch (error) {
+      console.error('Error renaming author:', error);
+      return c.json({ error: 'Failed to rename author' }, 500);
+    }
+  });
+
+  // Update an existing recipe at /recipes/:id (MUST come before /recipes to match correctly)
+  // Frontend calls: PUT /functions/v1/recipes/{id}
+  // Supabase strips '/functions/v1' but keeps '/recipes', so function receives '/recipes/{id}'
+  // This matches '/recipes/:id' pattern, consistent with GET/POST using '/recipes'
+  // Requires `If-Match: "<version>"` of the copy being edited; a stale version gets 409 with the current copy
+  app.put('/recipes/:id', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const expectedVersion = parseIfMatch(c.req.header('If-Match'));
+      if (expectedVersion === null) {
+        return c.json({ error: 'If-Match header with the recipe version is required' }, 428);
+      }
+
+      const recipeId = decodeURIComponent(c.req.param('id'));
+      const parsed = recipeInputSchema.safeParse(await c.req.json().catch(() => ({})));
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid recipe', errors: toFieldErrors(parsed.error) }, 400);
+      }
+      const recipe = parsed.data;
+
+      // Check if recipe exists (recipes in the trash have to be restored before editing)
+      const existingRecipe = await getLiveRecipe(recipeId);
+      if (!existingRecipe) {
+        return c.json({ error: 'Recipe not found' }, 404);
+      }
+
+      if (!isRecipeOwner(existingRecipe, user)) {
+        return c.json({ error: 'You can only edit your own recipes' }, 403);
+      }
+
+      // Someone saved since this copy was loaded; send theirs back so the editor can resolve it
+      if (recipeVersion(existingRecipe) !== expectedVersion) {
+        c.header('ETag', toETag(recipeVersion(existingRecipe)));
+        return c.json({ error: 'Recipe was changed since you loaded it', recipe: existingRecipe } satisfies ConflictResponse, 409);
+      }
+
+      // Preserve original createdAt, update other fields
+      const contributor = await displayNameOf(user);
+      const updatedRecipe = {
+        ...existingRecipe,
+        name: recipe.name,
+        contributor,
+        emoji: recipe.emoji ?? existingRecipe.emoji,
+        color: recipe.color ?? existingRecipe.color,
+        ingredients: recipe.ingredients,
+        instructions: recipe.instructions,
+        servings: recipe.servings ?? existingRecipe.servings,
+        prepTime: recipe.prepTime ?? existingRecipe.prepTime,
+        containsFat: recipe.containsFat ?? existingRecipe.containsFat,
+        containsNuts: recipe.containsNuts ?? existingRecipe.containsNuts,
+        version: recipeVersion(existingRecipe) + 1,
+        updatedAt: new Date().toISOString(),
+        updatedBy: { id: user.id, name: contributor },
+      };
+
+      await archiveRevision(recipeId, existingRecipe);
+      await saveRecipe(updatedRecipe);
+      c.header('ETag', toETag(updatedRecipe.version));
+      return c.json({ success: true, recipe: updatedRecipe } satisfies ResponseOf<'PUT /recipes/:id'>);
+    } catch (error) {
+      console.error('Error updating recipe:', error);
+      return c.json({ error: 'Failed to update recipe' }, 500);
+    }
+  });
+
+  // List community recipes at /recipes
+  // Optional query: limit, cursor (from a previous page's nextCursor), noFat, noNuts, contributor, author, createdAfter
+  app.get('/recipes', async (c) => {
+    try {
+      const parsed = listQuerySchema.safeParse(c.req.query());
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid query', errors: toFieldErrors(parsed.error) }, 400);
+      }
+      const query = parsed.data;
+
+      const after = query.cursor ? decodeCursor(query.cursor) : null;
+      if (query.cursor && !after) {
+        return c.json({ error: 'Invalid query', errors: [{ field: 'cursor', message: 'cursor is not valid' }] }, 400);
+      }
+
+      const live = (await getAllRecipes()).filter((recipe) => !isInTrash(recipe));
+      return c.json(listRecipes(live, query, after) satisfies ResponseOf<'GET /recipes'>);
+    } catch (error) {
+      console.error('Error fetching recipes:', error);
+      return c.json({ error: 'Failed to fetch recipes' }, 500);
+    }
+  });
+
+  // Search recipes at /recipes/search?q=...&limit=... (MUST come before /recipes/:id)
+  // Matches every word of q against name, ingredients, instructions and contributor, ignoring case and accents
+  app.get('/recipes/search', async (c) => {
+    try {
+      const parsed = searchQuerySchema.safeParse(c.req.query());
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid query', errors: toFieldErrors(parsed.error) }, 400);
+      }
+      const { q, limit } = parsed.data;
+
+      const recipes = (await getAllRecipes()).filter((recipe) => !isInTrash(recipe));
+      return c.json({ recipes: searchRecipes(recipes, q, limit) } satisfies ResponseOf<'GET /recipes/search'>);
+    } catch (error) {
+      console.error('Error searching recipes:', error);
+      return c.json({ error: 'Failed to search recipes' }, 500);
+    }
+  });
+
+  // The signed-in user's recently deleted recipes at /recipes/trash, most recently deleted first (MUST come before /recipes/:id)
+  app.get('/recipes/trash', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const recipes = (await getAllRecipes()).filter(
+        (recipe) => isInTrash(recipe) && !isPastRetention(recipe) && isRecipeOwner(recipe, user)
+      );
+      recipes.sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+      return c.json({ recipes } satisfies ResponseOf<'GET /recipes/trash'>);
+    } catch (error) {
+      console.error('Error fetching deleted recipes:', error);
+      return c.json({ error: 'Failed to fetch deleted recipes' }, 500);
+    }
+  });
+
+  // Get a single recipe at /recipes/:id, so shared links don't need the whole catalog
+  app.get('/recipes/:id', async (c) => {
+    try {
+      const recipeId = decodeURIComponent(c.req.param('id'));
+      const recipe = await getRecipe(recipeId);
+      if (!recipe) {
+        return c.json({ error: 'Recipe not found' }, 404);
+      }
+      if (isInTrash(recipe)) {
+        return c.json({ error: 'Recipe was deleted' }, 410);
+      }
+      c.header('ETag', toETag(recipeVersion(recipe)));
+      return c.json({ recipe } satisfies ResponseOf<'GET /recipes/:id'>);
+    } catch (error) {
+      console.error('Error fetching recipe:', error);
+      return c.json({ error: 'Failed to fetch recipe' }, 500);
+    }
+  });
+
+  // List a recipe's past versions at /recipes/:id/revisions, newest first
+  app.get('/recipes/:id/revisions', async (c) => {
+    try {
+      const recipeId = decodeURIComponent(c.req.param('id'));
+      const recipe = await getLiveRecipe(recipeId);
+      if (!recipe) {
+        return c.json({ error: 'Recipe not found' }, 404);
+      }
+
+      const revisions: RecipeRevision[] = (await kv.getByPrefix(revisionPrefix(recipeId))) || [];
+      revisions.sort((a, b) => b.revision - a.revision);
+      return c.json({ revisions } satisfies ResponseOf<'GET /recipes/:id/revisions'>);
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+      return c.json({ error: 'Failed to fetch revisions' }, 500);
+    }
+  });
+
+  // Restore a past version at /recipes/:id/revert with body { revision: n }
+  // The version being replaced is archived first, so a revert can itself be reverted
+  app.post('/recipes/:id/revert', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const recipeId = decodeURIComponent(c.req.param('id'));
+      const body = await c.req.json().catch(() => ({}));
+      const revisionNumber = Number(body?.revision);
+      if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+        return c.json({ error: 'Invalid revert', errors: [{ field: 'revision', message: 'revision must be a positive whole number' }] }, 400);
+      }
+
+      const existingRecipe = await getLiveRecipe(recipeId);
+      if (!existingRecipe) {
+        return c.json({ error: 'Recipe not found' }, 404);
+      }
+
+      if (!isRecipeOwner(existingRecipe, user)) {
+        return c.json({ error: 'You can only edit your own recipes' }, 403);
+      }
+
+      const revision: RecipeRevision | undefined = await kv.get(revisionKey(recipeId, revisionNumber));
+      if (!revision) {
+        return c.json({ error: 'Revision not found' }, 404);
+      }
+
+      const revertedRecipe = {
+        ...existingRecipe,
+        // Revisions are snapshots of the record at the time, so they may predate fields added since
+        ...pickRevisionFields(migrateRecipe(revision.recipe)),
+        // The contributor is the author's display name, not part of the content, so it stays current
+        contributor: existingRecipe.contributor,
+        version: recipeVersion(existingRecipe) + 1,
+        updatedAt: new Date().toISOString(),
+        updatedBy: { id: user.id, name: await displayNameOf(user) },
+      };
+
+      await archiveRevision(recipeId, existingRecipe);
+      await saveRecipe(revertedRecipe);
+      return c.json({ success: true, recipe: revertedRecipe } satisfies ResponseOf<'POST /recipes/:id/revert'>);
+    } catch (error) {
+      console.error('Error reverting recipe:', error);
+      return c.json({ error: 'Failed to revert recipe' }, 500);
+    }
+  });
+
+  // List a recipe's ratings and reviews at /recipes/:id/ratings, newest first
+  app.get('/recipes/:id/ratings', async (c) => {
+    try {
+      const recipeId = decodeURIComponent(c.req.param('id'));
+      const recipe = await getLiveRecipe(recipeId);
+      if (!recipe) {
+        return c.json({ error: 'Recipe not found' }, 404);
+      }
+
+      const ratings: RecipeRating[] = (await kv.getByPrefix(ratingPrefix(recipeId))) || [];
+      ratings.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      return c.json({ ratings, summary: summarizeRatings(ratings) } satisfies ResponseOf<'GET /recipes/:id/ratings'>);
+    } catch (error) {
+      console.error('Error fetching ratings:', error);
+      return c.json({ error: 'Failed to fetch ratings' }, 500);
+    }
+  });
+
+  // Rate a recipe at /recipes/:id/ratings; each user has one rating per recipe, and rating again replaces it
+  app.put('/recipes/:id/ratings', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const recipeId = decodeURIComponent(c.req.param('id'));
+      const parsed = ratingInputSchema.safeParse(await c.req.json().catch(() => ({})));
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid rating', errors: toFieldErrors(parsed.error) }, 400);
+      }
+
+      const recipe = await getLiveRecipe(recipeId);
+      if (!recipe) {
+        return c.json({ error: 'Recipe not found' }, 404);
+      }
+
+      const key = ratingKey(recipeId, user.id);
+      const existingRating: RecipeRating | undefined = await kv.get(key);
+      const now = new Date().toISOString();
+      const rating: RecipeRating = {
+        recipeId,
+        userId: user.id,
+        author: (await registeredNickname(kv, user.id)) ?? 'Anonymous',
+        rating: parsed.data.rating,
+        review: parsed.data.review || undefined,
+        createdAt: existingRating?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await kv.set(key, rating);
+
+      // Recompute the aggregate from the stored ratings so it can't drift
+      const summary = summarizeRatings((await kv.getByPrefix(ratingPrefix(recipeId))) || []);
+      await kv.set(ratingSummaryKey(recipeId), summary);
+
+      return c.json({ success: true, rating, summary } satisfies ResponseOf<'PUT /recipes/:id/ratings'>);
+    } catch (error) {
+      console.error('Error rating recipe:', error);
+      return c.json({ error: 'Failed to rate recipe' }, 500);
+    }
+  });
+
+  // Create a new recipe at /recipes (send an Idempotency-Key header to make retries safe)
+  app.post('/recipes', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const idempotencyKey = c.req.header('Idempotency-Key');
+      if (idempotencyKey !== undefined && (idempotencyKey.length === 0 || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
+        return c.json(
+          { error: 'Invalid Idempotency-Key', errors: [{ field: 'Idempotency-Key', message: `Idempotency-Key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` }] },
+          400
+        );
+      }
+
+      const body = await c.req.json().catch(() => ({}));
+
+      // Validate with the same schema as the contribute form, reporting one message per field
+      const parsed = recipeInputSchema.safeParse(body);
+      if (!parsed.success) {
+        const errors = toFieldErrors(parsed.error);
+        console.error('Invalid recipe:', errors);
+        console.error('Received fields:', Object.keys(body ?? {}));
+        return c.json({ error: 'Invalid recipe', errors }, 400);
+      }
+      const recipe = parsed.data;
+
+      const recipeId = `recipe:${Date.now()}:${Math.random().toString(36).substring(7)}`;
+      const newRecipe = {
+        id: recipeId,
+        name: recipe.name,
+        contributor: await displayNameOf(user),
+        emoji: recipe.emoji ?? RECIPE_DEFAULTS.emoji,
+        color: recipe.color ?? RECIPE_DEFAULTS.color,
+        ingredients: recipe.ingredients,
+        instructions: recipe.instructions,
+        servings: recipe.servings ?? RECIPE_DEFAULTS.servings,
+        prepTime: recipe.prepTime ?? RECIPE_DEFAULTS.prepTime,
+        containsFat: recipe.containsFat ?? RECIPE_DEFAULTS.containsFat,
+        containsNuts: recipe.containsNuts ?? RECIPE_DEFAULTS.containsNuts,
+        authorId: user.id,
+        version: 1,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        createdAt: new Date().toISOString(),
+      };
+
+      // A retry of a submission that already went through gets the recipe it created, not a duplicate. The key is
+      // reserved before the recipe is written, so of two retries arriving together only one creates it.
+      if (idempotencyKey) {
+        const key = idempotencyKeyFor(user.id, idempotencyKey);
+        const reservation: IdempotencyRecord = { recipeId, createdAt: newRecipe.createdAt };
+        if (!(await kv.setIfAbsent(key, reservation))) {
+          const previous = await kv.get<IdempotencyRecord>(key);
+          const existingRecipe = previous ? await getRecipe(previous.recipeId) : null;
+          if (existingRecipe) {
+            return c.json({ success: true, recipe: existingRecipe } satisfies ResponseOf<'POST /recipes'>);
+          }
+          // No recipe yet: the first attempt is still saving it, or it failed (or the recipe was purged) and the
+          // key can be taken over once the reservation has expired
+          const released =
+            !previous ||
+            (Date.now() - Date.parse(previous.createdAt) > IDEMPOTENCY_RESERVATION_MS &&
+              (await kv.delIfMatch(key, { recipeId: previous.recipeId })));
+          if (!released || !(await kv.setIfAbsent(key, reservation))) {
+            return c.json({ error: 'This recipe is still being saved, try again shortly' }, 409);
+          }
+        }
+      }
+
+      await saveRecipe(newRecipe);
+      return c.json({ success: true, recipe: newRecipe } satisfies ResponseOf<'POST /recipes'>);
+    } catch (error) {
+      console.error('Error creating recipe:', error);
+      return c.json({ error: 'Failed to create recipe' }, 500);
+    }
+  });
+
+  // Restore a recipe from the trash at /recipes/:id/restore
+  app.post('/recipes/:id/restore', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const recipeId = decodeURIComponent(c.req.param('id'));
+      const existingRecipe = await getRecipe(recipeId);
+      if (!existingRecipe || !isInTrash(existingRecipe) || isPastRetention(existingRecipe)) {
+        return c.json({ error: 'Recipe not found in trash' }, 404);
+      }
+
+      if (!isRecipeOwner(existingRecipe, user)) {
+        return c.json({ error: 'You can only restore your own recipes' }, 403);
+      }
+
+      const { deletedAt: _deletedAt, deletedBy: _deletedBy, ...restoredRecipe } = existingRecipe;
+      await saveRecipe(restoredRecipe);
+      return c.json({ success: true, recipe: restoredRecipe } satisfies ResponseOf<'POST /recipes/:id/restore'>);
+    } catch (error) {
+      console.error('Error restoring recipe:', error);
+      return c.json({ error: 'Failed to restore recipe' }, 500);
+    }
+  });
+
+  // Delete a recipe at /recipes/:id
+  // Deleting moves the recipe to the trash; /recipes/admin/purge removes it after TRASH_RETENTION_DAYS (see _shared/recipeTrash.ts)
+  app.delete('/recipes/:id', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const recipeId = decodeURIComponent(c.req.param('id'));
+      console.log('Delete request for recipeId:', recipeId);
+
+      // Check if recipe exists
+      const existingRecipe = await getLiveRecipe(recipeId);
+      if (!existingRecipe) {
+        console.log('Recipe not found:', recipeId);
+        return c.json({ error: 'Recipe not found' }, 404);
+      }
+
+      if (!isRecipeOwner(existingRecipe, user)) {
+        console.log('Rejected delete from non-owner:', user.id);
+        return c.json({ error: 'You can only delete your own recipes' }, 403);
+      }
+
+      console.log('Moving recipe to trash:', recipeId);
+      await saveRecipe({ ...existingRecipe, deletedAt: new Date().toISOString(), deletedBy: user.id });
+      console.log('Successfully deleted recipe:', recipeId);
+      return c.json({ success: true } satisfies ResponseOf<'DELETE /recipes/:id'>);
+    } catch (error) {
+      console.error('Error deleting recipe:', error);
+      console.error('Error details:', error instanceof Error ? error.message : String(error));
+      console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
+      return c.json({ 
+        error: 'Failed to delete recipe',
+        details: error instanceof Error ? error.message : String(error)
+      }, 500);
+    }
+  });
+
+  return app;
+}
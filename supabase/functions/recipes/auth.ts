@@ -0,0 +1,11 @@
+import type { AuthUser } from '../_shared/auth.ts';
+
+export { getAuthUser, isServiceRole, type AuthUser } from '../_shared/auth.ts';
+
+/**
+ * Check whether a user may modify a stored recipe. Recipes created before authors were recorded have no
+ * authorId and nobody can change them until POST /recipes/admin/authors records who wrote them.
+ */
+export function isRecipeOwner(recipe: { authorId?: string | null }, user: AuthUser): boolean {
+  return !!recipe.authorId && recipe.authorId === user.id;
+}
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+
+export const MAX_PAGE_SIZE = 100;
+
+interface ListableRecipe {
+  id: string;
+  contributor: string;
+  authorId?: string | null;
+  containsFat?: boolean;
+  containsNuts?: boolean;
+  createdAt?: string;
+  ratingSummary?: { average: number; count: number } | null;
+}
+
+// Query params arrive as strings; boolean filters only apply when explicitly "true"
+const flag = z.enum(['true', 'false']).optional().transform((value) => value === 'true');
+
+export const listQuerySchema = z.object({
+  limit: z.coerce
+    .number('limit must be a number')
+    .int('limit must be a whole number')
+    .min(1, `limit must be between 1 and ${MAX_PAGE_SIZE}`)
+    .max(MAX_PAGE_SIZE, `limit must be between 1 and ${MAX_PAGE_SIZE}`)
+    .optional(),
+  cursor: z.string().min(1).optional(),
+  noFat: flag,
+  noNuts: flag,
+  contributor: z.string().trim().min(1).optional(),
+  /** User id of the author */
+  author: z.string().trim().min(1).optional(),
+  createdAfter: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), 'createdAfter must be an ISO date')
+    .optional(),
+  minRating: z.coerce
+    .number('minRating must be a number')
+    .min(0, 'minRating must be between 0 and 5')
+    .max(5, 'minRating must be between 0 and 5')
+    .optional(),
+});
+
+export type ListQuery = z.infer<typeof listQuerySchema>;
+
+interface CursorPosition {
+  createdAt: string;
+  id: string;
+}
+
+// Cursors are opaque to clients: base64 of the last returned recipe's sort key
+export const encodeCursor = (position: CursorPosition): string => btoa(JSON.stringify(position));
+
+export const decodeCursor = (cursor: string): CursorPosition | null => {
+  try {
+    const position = JSON.parse(atob(cursor));
+    return typeof position?.createdAt === 'string' && typeof position?.id === 'string' ? position : null;
+  } catch {
+    return null;
+  }
+};
+
+// Oldest first; the id breaks ties so pages never overlap or skip recipes created in the same millisecond
+export const compareRecipes = (a: Pick<ListableRecipe, 'id' | 'createdAt'>, b: Pick<ListableRecipe, 'id' | 'createdAt'>): number => {
+  const byCreatedAt = (a.createdAt ?? '').localeCompare(b.createdAt ?? '');
+  return byCreatedAt !== 0 ? byCreatedAt : a.id.localeCompare(b.id);
+};
+
+export const matchesFilters = (recipe: ListableRecipe, query: ListQuery): boolean => {
+  if (query.noFat && recipe.containsFat) return false;
+  if (query.noNuts && recipe.containsNuts) return false;
+  if (query.contributor && recipe.contributor !== query.contributor) return false;
+  if (query.author && recipe.authorId !== query.author) return false;
+  // Unrated recipes only pass when no minimum is set
+  if (query.minRating && (recipe.ratingSummary?.average ?? 0) < query.minRating) return false;
+  if (query.createdAfter) {
+    if (!recipe.createdAt || Date.parse(recipe.createdAt) <= Date.parse(query.createdAfter)) return false;
+  }
+  return true;
+};
+
+/**
+ * Filter, order and slice recipes for GET /recipes.
+ * Without a limit every matching recipe is returned, which keeps older clients working.
+ */
+export function listRecipes<T extends ListableRecipe>(
+  recipes: T[],
+  query: ListQuery,
+  after: CursorPosition | null = null
+): { recipes: T[]; nextCursor: string | null } {
+  const ordered = recipes
+    .filter((recipe) => matchesFilters(recipe, query))
+    .sort(compareRecipes)
+    .filter((recipe) => !after || compareRecipes(recipe, after) > 0);
+
+  if (!query.limit || ordered.length <= query.limit) {
+    return { recipes: ordered, nextCursor: null };
+  }
+
+  const page = ordered.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return { recipes: page, nextCursor: encodeCursor({ createdAt: last.createdAt ?? '', id: last.id }) };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateRecipe, needsMigration, recipeMigrations, schemaVersionOf, type RecipeMigration } from './migrations';
+
+const unversioned = {
+  id: 'recipe:1:a',
+  name: 'Old Smoothie',
+  contributor: 'Sarah M.',
+  ingredients: ['1 banana'],
+  instructions: 'Blend it all together',
+  createdAt: '2023-01-01T00:00:00.000Z',
+};
+
+describe('recipe migrations', () => {
+  it('should number migrations consecutively from 1', () => {
+    expect(recipeMigrations.map((m) => m.version)).toEqual(recipeMigrations.map((_, i) => i + 1));
+    expect(CURRENT_SCHEMA_VERSION).toBe(recipeMigrations.length);
+  });
+
+  it('should treat records without a schemaVersion as version 0', () => {
+    expect(schemaVersionOf(unversioned)).toBe(0);
+    expect(needsMigration(unversioned)).toBe(true);
+  });
+
+  it('should upgrade an unversioned record to the current shape', () => {
+    expect(migrateRecipe(unversioned)).toEqual({
+      ...unversioned,
+      emoji: '🥤',
+      color: '#9333EA',
+      servings: 1,
+      prepTime: '5 min',
+      containsFat: false,
+      containsNuts: false,
+      authorId: null,
+      version: 1,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+    });
+  });
+
+  it('should keep values the record already has', () => {
+    const migrated = migrateRecipe({ ...unversioned, emoji: '🥭', servings: 3, authorId: 'user-1', version: 4 });
+
+    expect(migrated).toMatchObject({ emoji: '🥭', servings: 3, authorId: 'user-1', version: 4 });
+  });
+
+  it('should only run the migrations a record has not had', () => {
+    const migrations: RecipeMigration[] = [
+      { version: 1, description: 'first', up: (r) => ({ ...r, steps: [...((r.steps as number[]) ?? []), 1] }) },
+      { version: 2, description: 'second', up: (r) => ({ ...r, steps: [...((r.steps as number[]) ?? []), 2] }) },
+    ];
+
+    expect(migrateRecipe({ ...unversioned, schemaVersion: 1 }, migrations)).toMatchObject({ steps: [2], schemaVersion: 2 });
+  });
+
+  it('should return current and newer records unchanged', () => {
+    const current = { ...unversioned, schemaVersion: CURRENT_SCHEMA_VERSION };
+    const newer = { ...unversioned, schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+
+    expect(migrateRecipe(current)).toBe(current);
+    expect(migrateRecipe(newer)).toBe(newer);
+    expect(needsMigration(newer)).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+// Upgrades stored recipe records to the current shape. Each record carries the `schemaVersion` it was
+// written with; records from before versioning count as 0. Reads upgrade in memory, writes store the
+// upgraded record, and POST /recipes/admin/migrate rewrites everything still on an old version.
+//
+// To change the stored shape, append a migration with the next version. Never edit one that has shipped.
+import type { CommunityRecipe } from '../_shared/recipesContract.ts';
+
+/** Defaults for presentation fields the request body may leave out */
+export const RECIPE_DEFAULTS = {
+  emoji: '🥤',
+  color: '#9333EA',
+  servings: 1,
+  prepTime: '5 min',
+  containsFat: false,
+  containsNuts: false,
+};
+
+/** A recipe record at `recipe:<id>` on the current schema, as migrateRecipe leaves it */
+export interface StoredRecipe extends CommunityRecipe {
+  authorId: string | null;
+  version: number;
+  schemaVersion: number;
+  /** User id of whoever moved it to the trash */
+  deletedBy?: string;
+}
+
+export interface RecipeMigration {
+  /** The schemaVersion a record has after this migration */
+  version: number;
+  description: string;
+  up: (record: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export const recipeMigrations: RecipeMigration[] = [
+  {
+    version: 1,
+    description: 'Fill in presentation fields early records were saved without',
+    up: (record) => ({
+      ...record,
+      emoji: record.emoji || RECIPE_DEFAULTS.emoji,
+      color: record.color || RECIPE_DEFAULTS.color,
+      servings: record.servings || RECIPE_DEFAULTS.servings,
+      prepTime: record.prepTime || RECIPE_DEFAULTS.prepTime,
+      containsFat: record.containsFat ?? RECIPE_DEFAULTS.containsFat,
+      containsNuts: record.containsNuts ?? RECIPE_DEFAULTS.containsNuts,
+      ingredients: Array.isArray(record.ingredients) ? record.ingredients : [],
+    }),
+  },
+  {
+    version: 2,
+    description: 'Store authorId and version explicitly instead of relying on read-time fallbacks',
+    up: (record) => ({
+      ...record,
+      authorId: record.authorId ?? null,
+      version: record.version ?? 1,
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = recipeMigrations[recipeMigrations.length - 1].version;
+
+export const schemaVersionOf = (record: { schemaVersion?: number }): number => record.schemaVersion ?? 0;
+
+/** Records written by newer code are left alone rather than downgraded */
+export const needsMigration = (record: { schemaVersion?: number }): boolean =>
+  schemaVersionOf(record) < CURRENT_SCHEMA_VERSION;
+
+/**
+ * Run the migrations a record hasn't had yet, in order. Returns the record itself if it's current.
+ */
+export function migrateRecipe<T extends object>(record: T, migrations = recipeMigrations): T {
+  const target = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  if (schemaVersionOf(record) >= target) {
+    return record;
+  }
+  let migrated = record as Record<string, unknown>;
+  for (const migration of migrations) {
+    if (schemaVersionOf(migrated) < migration.version) {
+      migrated = { ...migration.up(migrated), schemaVersion: migration.version };
+    }
+  }
+  return migrated as T;
+}
@@ -0,0 +1,301 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createApp } from './app';
+import { createMemoryStorage, type KvStorage } from '../_shared/kvStorage';
+import { TEST_JWT_SECRET, serviceToken, tokenFor } from '../_shared/testing';
+import { buildRecipe } from '../../seed/recipeFactory';
+
+describe('server app', () => {
+  let kv: KvStorage;
+  let app: ReturnType<typeof createApp>;
+  let aliceToken: string;
+  let bobToken: string;
+
+  const request = async (method: string, path: string, { token, body }: { token?: string; body?: unknown } = {}) => {
+    const res = await app.request(path, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, json: await res.json() };
+  };
+
+  const availability = (nickname: string, token?: string) =>
+    request('GET', `/server/nickname/availability?nickname=${encodeURIComponent(nickname)}`, { token });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    kv = createMemoryStorage();
+    app = createApp({ kv, jwtSecret: TEST_JWT_SECRET });
+    aliceToken = await tokenFor('alice');
+    bobToken = await tokenFor('bob');
+  });
+
+  describe('GET /server/profiles/:userId', () => {
+    it('should show the profile with a count of recipes not in the trash', async () => {
+      await request('PUT', '/server/nickname', { token: aliceToken, body: { nickname: 'Blender Bob' } });
+      await request('PUT', '/server/profile', { token: aliceToken, body: { bio: 'Green smoothies only' } });
+      await kv.set('recipe:1:a', buildRecipe({ id: 'recipe:1:a', authorId: 'alice' }));
+      await kv.set('recipe:2:b', buildRecipe({ id: 'recipe:2:b', authorId: 'alice', deletedAt: new Date().toISOString() }));
+      await kv.set('recipe:3:c', buildRecipe({ id: 'recipe:3:c', authorId: 'bob' }));
+
+      const res = await request('GET', '/server/profiles/alice');
+
+      expect(res.status).toBe(200);
+      expect(res.json).toEqual({
+        userId: 'alice',
+        nickname: 'Blender Bob',
+        bio: 'Green smoothies only',
+        avatarUrl: null,
+        joinedAt: expect.any(String),
+        recipeCount: 1,
+      });
+    });
+
+    it('should 404 for unknown users and hide private profiles from others', async () => {
+      expect((await request('GET', '/server/profiles/nobody')).status).toBe(404);
+
+      await request('PUT', '/server/settings', { token: aliceToken, body: { publicProfile: false } });
+
+      expect((await request('GET', '/server/profiles/alice', { token: bobToken })).status).toBe(404);
+      expect((await request('GET', '/server/profiles/alice', { token: aliceToken })).status).toBe(200);
+    });
+  });
+
+  describe('PUT /server/profile', () => {
+    it('should require a session', async () => {
+      expect((await request('PUT', '/server/profile', { body: { bio: 'Hi' } })).status).toBe(401);
+    });
+
+    it('should change only the fields sent', async () => {
+      await request('PUT', '/server/profile', { token: aliceToken, body: { bio: 'Hi', avatarUrl: 'https://example.com/a.png' } });
+
+      const res = await request('PUT', '/server/profile', { token: aliceToken, body: { bio: '  Kale fan  ' } });
+
+      expect(res.json).toMatchObject({ bio: 'Kale fan', avatarUrl: 'https://example.com/a.png' });
+
+      const cleared = await request('PUT', '/server/profile', { token: aliceToken, body: { avatarUrl: '' } });
+      expect(cleared.json).toMatchObject({ bio: 'Kale fan', avatarUrl: null });
+    });
+
+    it('should reject long bios and non-https avatars', async () => {
+      const res = await request('PUT', '/server/profile', {
+        token: aliceToken,
+        body: { bio: 'a'.repeat(281), avatarUrl: 'javascript:alert(1)' },
+      });
+
+      expect(res.status).toBe(400);
+      expect(res.json.errors.map((e: { field: string }) => e.field).sort()).toEqual(['avatarUrl', 'bio']);
+    });
+  });
+
+  describe('/server/settings', () => {
+    it('should start from the defaults and merge updates', async () => {
+      expect((await request('GET', '/server/settings', { token: aliceToken })).json).toEqual({
+        publicProfile: true,
+        noFatByDefault: false,
+        noNutsByDefault: false,
+      });
+
+      await request('PUT', '/server/settings', { token: aliceToken, body: { noNutsByDefault: true } });
+      await request('PUT', '/server/settings', { token: aliceToken, body: { publicProfile: false } });
+
+      expect((await request('GET', '/server/settings', { token: aliceToken })).json).toEqual({
+        publicProfile: false,
+        noFatByDefault: false,
+        noNutsByDefault: true,
+      });
+      expect((await request('GET', '/server/settings', { token: bobToken })).json.noNutsByDefault).toBe(false);
+    });
+
+    it('should require a session and boolean values', async () => {
+      expect((await request('GET', '/server/settings')).status).toBe(401);
+      const res = await request('PUT', '/server/settings', { token: aliceToken, body: { publicProfile: 'yes' } });
+      expect(res.status).toBe(400);
+      expect(res.json.errors[0]).toEqual({ field: 'publicProfile', message: 'publicProfile must be true or false' });
+    });
+  });
+
+  describe('/server/favorites', () => {
+    const favorites = async (token: string) => (await request('GET', '/server/favorites', { token })).json.recipeIds;
+
+    // Favorites are listed by when they were added, which requests in the same millisecond would tie on
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should require a session', async () => {
+      expect((await request('GET', '/server/favorites')).status).toBe(401);
+      expect((await request('PUT', '/server/favorites/recipe%3A1%3Aa')).status).toBe(401);
+    });
+
+    it('should add and remove favorites per user, keeping numeric ids numbers', async () => {
+      await request('PUT', '/server/favorites/recipe%3A1%3Aa', { token: aliceToken });
+      vi.advanceTimersByTime(1000);
+      await request('PUT', '/server/favorites/3', { token: aliceToken });
+      vi.advanceTimersByTime(1000);
+      await request('PUT', '/server/favorites/recipe%3A1%3Aa', { token: aliceToken });
+
+      expect(await favorites(aliceToken)).toEqual(['recipe:1:a', 3]);
+      expect(await favorites(bobToken)).toEqual([]);
+
+      await request('DELETE', '/server/favorites/3', { token: aliceToken });
+      await request('DELETE', '/server/favorites/never-favorited', { token: aliceToken });
+
+      expect(await favorites(aliceToken)).toEqual(['recipe:1:a']);
+    });
+
+    it('should merge a device\'s favorites into the stored ones', async () => {
+      await request('PUT', '/server/favorites/recipe%3A1%3Aa', { token: aliceToken });
+      vi.advanceTimersByTime(1000);
+
+      const res = await request('POST', '/server/favorites', {
+        token: aliceToken,
+        body: { recipeIds: ['recipe:2:b', 'recipe:1:a', 7, 'recipe:2:b'] },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.json.recipeIds).toEqual(['recipe:1:a', 'recipe:2:b', 7]);
+      expect(await favorites(aliceToken)).toEqual(['recipe:1:a', 'recipe:2:b', 7]);
+    });
+
+    it('should reject merges that aren\'t lists of ids', async () => {
+      const res = await request('POST', '/server/favorites', { token: aliceToken, body: { recipeIds: [{}] } });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('GET /server/nickname/availability', () => {
+    it('should report free, taken and own nicknames', async () => {
+      expect((await availability('Blender Bob')).json).toEqual({ nickname: 'Blender Bob', available: true });
+
+      await request('PUT', '/server/nickname', { token: aliceToken, body: { nickname: 'Blender Bob' } });
+
+      expect((await availability('blender  BOB', bobToken)).json).toMatchObject({ available: false, reason: 'taken' });
+      expect((await availability('BLENDER BOB', aliceToken)).json).toMatchObject({ available: true });
+    });
+
+    it('should explain reserved and invalid nicknames', async () => {
+      expect((await availability('Admin')).json).toMatchObject({
+        available: false,
+        reason: 'reserved',
+        message: 'That nickname is reserved',
+      });
+      expect((await availability('x')).json).toMatchObject({
+        available: false,
+        reason: 'invalid',
+        message: 'Nickname must be at least 2 characters',
+      });
+    });
+  });
+
+  describe('PUT /server/nickname', () => {
+    it('should require a session', async () => {
+      const res = await request('PUT', '/server/nickname', { body: { nickname: 'Blender Bob' } });
+      expect(res.status).toBe(401);
+    });
+
+    it('should reject nicknames that break the rules', async () => {
+      const res = await request('PUT', '/server/nickname', { token: aliceToken, body: { nickname: 'Smoothie<script>' } });
+
+      expect(res.status).toBe(400);
+      expect(res.json.errors[0].field).toBe('nickname');
+    });
+
+    it('should refuse a nickname someone else holds, in any case', async () => {
+      await request('PUT', '/server/nickname', { token: aliceToken, body: { nickname: 'Blender Bob' } });
+
+      const res = await request('PUT', '/server/nickname', { token: bobToken, body: { nickname: 'BLENDER BOB' } });
+
+      expect(res.status).toBe(409);
+      expect(res.json).toEqual({ error: 'That nickname is taken', reason: 'taken' });
+    });
+
+    it('should let only one of two simultaneous claims win', async () => {
+      const results = await Promise.all([
+        request('PUT', '/server/nickname', { token: aliceToken, body: { nickname: 'Kale Fan' } }),
+        request('PUT', '/server/nickname', { token: bobToken, body: { nickname: 'kale fan' } }),
+      ]);
+
+      expect(results.map((r) => r.status).sort()).toEqual([200, 409]);
+    });
+
+    it('should release the previous nickname on change', async () => {
+      await request('PUT', '/server/nickname', { token: aliceToken, body: { nickname: 'Blender Bob' } });
+      const res = await request('PUT', '/server/nickname', { token: aliceToken, body: { nickname: 'Kale Fan' } });
+
+      expect(res.json).toEqual({ success: true, nickname: 'Kale Fan' });
+      expect((await availability('Blender Bob', bobToken)).json.available).toBe(true);
+      expect((await availability('Kale Fan', bobToken)).json.available).toBe(false);
+    });
+
+    it('should let a user re-case their own nickname', async () => {
+      await request('PUT', '/server/nickname', { token: aliceToken, body: { nickname: 'blender bob' } });
+      const res = await request('PUT', '/server/nickname', { token: aliceToken, body: { nickname: 'Blender Bob' } });
+
+      expect(res.status).toBe(200);
+      expect(await kv.get('nickname:blender bob')).toMatchObject({ userId: 'alice', nickname: 'Blender Bob' });
+      expect((await request('GET', '/server/profiles/alice')).json.nickname).toBe('Blender Bob');
+    });
+  });
+
+  describe('DELETE /server/nickname', () => {
+    it('should free the user\'s nickname', async () => {
+      await request('PUT', '/server/nickname', { token: aliceToken, body: { nickname: 'Blender Bob' } });
+
+      const res = await request('DELETE', '/server/nickname', { token: aliceToken });
+
+      expect(res.json).toEqual({ success: true });
+      expect((await availability('Blender Bob', bobToken)).json.available).toBe(true);
+    });
+  });
+
+  describe('POST /server/admin/nicknames', () => {
+    const backfill = async (claims: { userId: string; nickname: string }[]) =>
+      request('POST', '/server/admin/nicknames', { token: await serviceToken(), body: { claims } });
+
+    it('should register nicknames from before the registry, first come first served', async () => {
+      await request('PUT', '/server/nickname', { token: bobToken, body: { nickname: 'Kale Fan' } });
+
+      const { status, json } = await backfill([
+        { userId: 'alice', nickname: ' Blender Bob ' },
+        { userId: 'bob', nickname: 'Bob' },
+        { userId: 'carol', nickname: 'blender bob' },
+        { userId: 'dave', nickname: 'Admin' },
+      ]);
+
+      expect(status).toBe(200);
+      expect(json).toEqual({
+        claimed: 1,
+        unchanged: 1,
+        refused: [
+          { userId: 'carol', nickname: 'blender bob', reason: 'taken' },
+          { userId: 'dave', nickname: 'Admin', reason: 'reserved' },
+        ],
+      });
+      expect(await kv.get('nickname:blender bob')).toMatchObject({ userId: 'alice', nickname: 'Blender Bob' });
+      expect((await request('GET', '/server/profiles/alice', { token: aliceToken })).json.nickname).toBe('Blender Bob');
+      expect((await request('GET', '/server/profiles/bob', { token: bobToken })).json.nickname).toBe('Kale Fan');
+    });
+
+    it('should leave users alone when run again', async () => {
+      await backfill([{ userId: 'alice', nickname: 'Blender Bob' }]);
+
+      expect((await backfill([{ userId: 'alice', nickname: 'Blender Bob' }])).json).toEqual({ claimed: 0, unchanged: 1, refused: [] });
+    });
+
+    it('should require the service role key', async () => {
+      const res = await request('POST', '/server/admin/nicknames', { token: aliceToken, body: { claims: [] } });
+
+      expect(res.status).toBe(403);
+      expect(await kv.get('profile:alice')).toBeUndefined();
+    });
+  });
+});
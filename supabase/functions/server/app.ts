@@ -0,0 +1,399 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { logger } from 'hono/logger';
+import { z } from 'zod';
+import type { KvStorage } from '../_shared/kvStorage.ts';
+import { getAuthUser, isServiceRole, type AuthUser } from '../_shared/auth.ts';
+import { toFieldErrors } from '../_shared/recipeSchema.ts';
+import { isInTrash } from '../_shared/recipeTrash.ts';
+import {
+  isReservedNickname,
+  nicknameBackfillSchema,
+  nicknameClaimKey,
+  nicknameProblem,
+  nicknameSchema,
+  type NicknameClaim,
+} from '../_shared/nicknameSchema.ts';
+import { favoriteIdFromPath, favoriteKey, favoritePrefix, favoritesMergeSchema, type StoredFavorite } from '../_shared/favoriteSchema.ts';
+import { DEFAULT_SETTINGS, profileUpdateSchema, settingsUpdateSchema, type AccountSettings } from '../_shared/profileSchema.ts';
+import type {
+  NicknameAvailability,
+  NicknameBackfillReport,
+  NicknameTakenResponse,
+  ProfileResponseOf,
+  PublicProfile,
+} from '../_shared/profileContract.ts';
+import { profileKey, type StoredProfile } from '../_shared/profiles.ts';
+import { migrateRecipe, type StoredRecipe } from '../recipes/migrations.ts';
+
+export interface AppOptions {
+  kv: KvStorage;
+  /** Secret used to verify Supabase session JWTs (Project Settings → API → JWT Secret) */
+  jwtSecret: string | undefined;
+}
+
+const claimInputSchema = z.object({ nickname: nicknameSchema });
+
+/**
+ * The server API: public profiles, the signed-in user's profile, settings and favorites, and the nickname registry.
+ * Each nickname is held by at most one user, compared by nicknameKey; `nickname:<key>` records the holder
+ * and the holder's profile records the nickname. index.ts serves it on Deno; tests call `app.request()`
+ * against an in-memory store.
+ */
+export function createApp({ kv, jwtSecret }: AppOptions): Hono {
+  const app = new Hono();
+
+  const settingsKey = (userId: string): string => `settings:${userId}`;
+
+  const getProfile = async (userId: string): Promise<StoredProfile | null> => (await kv.get(profileKey(userId))) ?? null;
+
+  // The user's profile, created on first use
+  const getOrCreateProfile = async (user: AuthUser): Promise<StoredProfile> => {
+    const existing = await getProfile(user.id);
+    if (existing) return existing;
+    const now = new Date().toISOString();
+    return { userId: user.id, nickname: null, bio: '', avatarUrl: null, joinedAt: now, updatedAt: now };
+  };
+
+  const saveProfile = async (profile: StoredProfile): Promise<StoredProfile> => {
+    const saved = { ...profile, updatedAt: new Date().toISOString() };
+    await kv.set(profileKey(profile.userId), saved);
+    return saved;
+  };
+
+  const getSettings = async (userId: string): Promise<AccountSettings> => ({
+    ...DEFAULT_SETTINGS,
+    ...((await kv.get(settingsKey(userId))) ?? {}),
+  });
+
+  // Recipes are keyed by id, so counting someone's means reading them all, as GET /recipes?author= does
+  const countRecipes = async (userId: string): Promise<number> =>
+    ((await kv.getByPrefix<StoredRecipe>('recipe:')) || [])
+      .map((recipe) => migrateRecipe(recipe))
+      .filter((recipe) => recipe.authorId === userId && !isInTrash(recipe)).length;
+
+  const toPublicProfile = async (profile: StoredProfile): Promise<PublicProfile> => ({
+    userId: profile.userId,
+    nickname: profile.nickname,
+    bio: profile.bio,
+    avatarUrl: profile.avatarUrl,
+    joinedAt: profile.joinedAt,
+    recipeCount: await countRecipes(profile.userId),
+  });
+
+  // Oldest first, so every device lists them in the order they were added
+  const getFavorites = async (userId: string): Promise<StoredFavorite[]> =>
+    ((await kv.getByPrefix<StoredFavorite>(favoritePrefix(userId))) || []).sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+
+  // Whether `userId` (or anyone, when signed out) could claim the nickname right now
+  const availabilityOf = async (nickname: string, userId: string | null): Promise<NicknameAvailability> => {
+    const problem = nicknameProblem(nickname);
+    if (problem) {
+      return { nickname, available: false, reason: isReservedNickname(nickname) ? 'reserved' : 'invalid', message: problem };
+    }
+    const claim: NicknameClaim | undefined = await kv.get(nicknameClaimKey(nickname));
+    if (claim && claim.userId !== userId) {
+      return { nickname, available: false, reason: 'taken', message: 'That nickname is taken' };
+    }
+    return { nickname, available: true };
+  };
+
+  // Record `userId` as the holder of `nickname`, unless someone else is. The claim is a single
+  // insert-if-absent, so two users racing for a name can't both get it.
+  const takeNickname = async (userId: string, nickname: string): Promise<boolean> => {
+    const key = nicknameClaimKey(nickname);
+    const claim: NicknameClaim = { userId, nickname, claimedAt: new Date().toISOString() };
+    if (await kv.setIfAbsent(key, claim)) return true;
+    const existing: NicknameClaim | undefined = await kv.get(key);
+    if (existing?.userId === userId) {
+      // Already theirs, maybe in different case; keep the spelling they chose this time
+      await kv.set(key, { ...claim, claimedAt: existing.claimedAt });
+      return true;
+    }
+    // Released between the two calls
+    return !existing && (await kv.setIfAbsent(key, claim));
+  };
+
+  app.use('*', cors());
+  app.use('*', logger(console.log));
+
+  // Health check
+  app.get('/server/health', (c) => c.json({ ok: true }));
+
+  // Look up anyone's profile at /server/profiles/:userId. Private profiles are only visible to their owner.
+  app.get('/server/profiles/:userId', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      const userId = c.req.param('userId');
+      const isSelf = user?.id === userId;
+
+      const profile = isSelf ? await getOrCreateProfile(user) : await getProfile(userId);
+      if (!profile || (!isSelf && !(await getSettings(userId)).publicProfile)) {
+        return c.json({ error: 'Profile not found' }, 404);
+      }
+      return c.json((await toPublicProfile(profile)) satisfies ProfileResponseOf<'GET /server/profiles/:userId'>);
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+      return c.json({ error: 'Failed to fetch profile' }, 500);
+    }
+  });
+
+  // Update the signed-in user's bio and avatar at /server/profile; the nickname goes through /server/nickname
+  app.put('/server/profile', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const parsed = profileUpdateSchema.safeParse(await c.req.json().catch(() => ({})));
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid profile', errors: toFieldErrors(parsed.error) }, 400);
+      }
+
+      const profile = await getOrCreateProfile(user);
+      const saved = await saveProfile({
+        ...profile,
+        bio: parsed.data.bio ?? profile.bio,
+        avatarUrl: parsed.data.avatarUrl === undefined ? profile.avatarUrl : parsed.data.avatarUrl,
+      });
+      return c.json((await toPublicProfile(saved)) satisfies ProfileResponseOf<'PUT /server/profile'>);
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      return c.json({ error: 'Failed to update profile' }, 500);
+    }
+  });
+
+  // The signed-in user's account settings at /server/settings, with defaults for anything never set
+  app.get('/server/settings', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+      return c.json((await getSettings(user.id)) satisfies ProfileResponseOf<'GET /server/settings'>);
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+      return c.json({ error: 'Failed to fetch settings' }, 500);
+    }
+  });
+
+  // Change some of the signed-in user's settings at /server/settings; the rest keep their values
+  app.put('/server/settings', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const parsed = settingsUpdateSchema.safeParse(await c.req.json().catch(() => ({})));
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid settings', errors: toFieldErrors(parsed.error) }, 400);
+      }
+
+      const settings: AccountSettings = { ...(await getSettings(user.id)), ...parsed.data };
+      await kv.set(settingsKey(user.id), settings);
+      return c.json(settings satisfies ProfileResponseOf<'PUT /server/settings'>);
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      return c.json({ error: 'Failed to update settings' }, 500);
+    }
+  });
+
+  // The signed-in user's favorite recipe ids at /server/favorites
+  app.get('/server/favorites', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+      const favorites = await getFavorites(user.id);
+      return c.json({ recipeIds: favorites.map((f) => f.recipeId) } satisfies ProfileResponseOf<'GET /server/favorites'>);
+    } catch (error) {
+      console.error('Error fetching favorites:', error);
+      return c.json({ error: 'Failed to fetch favorites' }, 500);
+    }
+  });
+
+  // Add a device's favorites at /server/favorites with body { recipeIds } (after signing in there);
+  // answers with everything the user has favorited, on any device
+  app.post('/server/favorites', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const parsed = favoritesMergeSchema.safeParse(await c.req.json().catch(() => ({})));
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid favorites', errors: toFieldErrors(parsed.error) }, 400);
+      }
+
+      const favorites = await getFavorites(user.id);
+      const known = new Set(favorites.map((f) => favoriteKey(user.id, f.recipeId)));
+      const now = Date.now();
+      const added: StoredFavorite[] = [];
+      for (const recipeId of parsed.data.recipeIds) {
+        const key = favoriteKey(user.id, recipeId);
+        if (known.has(key)) continue;
+        known.add(key);
+        // A millisecond apart, so they keep the order the device sent them in
+        added.push({ userId: user.id, recipeId, createdAt: new Date(now + added.length).toISOString() });
+      }
+      if (added.length > 0) {
+        await kv.mset(
+          added.map((f) => favoriteKey(user.id, f.recipeId)),
+          added
+        );
+      }
+
+      const recipeIds = [...favorites, ...added].map((f) => f.recipeId);
+      return c.json({ recipeIds } satisfies ProfileResponseOf<'POST /server/favorites'>);
+    } catch (error) {
+      console.error('Error merging favorites:', error);
+      return c.json({ error: 'Failed to merge favorites' }, 500);
+    }
+  });
+
+  // Favorite a recipe at /server/favorites/:recipeId; favoriting it again keeps its place
+  app.put('/server/favorites/:recipeId', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const recipeId = favoriteIdFromPath(c.req.param('recipeId'));
+      const favorite: StoredFavorite = { userId: user.id, recipeId, createdAt: new Date().toISOString() };
+      await kv.setIfAbsent(favoriteKey(user.id, recipeId), favorite);
+      return c.json({ success: true } satisfies ProfileResponseOf<'PUT /server/favorites/:recipeId'>);
+    } catch (error) {
+      console.error('Error saving favorite:', error);
+      return c.json({ error: 'Failed to save favorite' }, 500);
+    }
+  });
+
+  // Unfavorite a recipe at /server/favorites/:recipeId; unfavoriting one that isn't a favorite succeeds
+  app.delete('/server/favorites/:recipeId', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      await kv.del(favoriteKey(user.id, favoriteIdFromPath(c.req.param('recipeId'))));
+      return c.json({ success: true } satisfies ProfileResponseOf<'DELETE /server/favorites/:recipeId'>);
+    } catch (error) {
+      console.error('Error removing favorite:', error);
+      return c.json({ error: 'Failed to remove favorite' }, 500);
+    }
+  });
+
+  // Check a nickname at /server/nickname/availability?nickname=... while the user types.
+  // Signed-in users see their own nickname as available.
+  app.get('/server/nickname/availability', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      const nickname = (c.req.query('nickname') ?? '').trim();
+      return c.json((await availabilityOf(nickname, user?.id ?? null)) satisfies ProfileResponseOf<'GET /server/nickname/availability'>);
+    } catch (error) {
+      console.error('Error checking nickname:', error);
+      return c.json({ error: 'Failed to check nickname' }, 500);
+    }
+  });
+
+  // Claim a nickname at /server/nickname with body { nickname }, releasing the one the user held before
+  app.put('/server/nickname', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const parsed = claimInputSchema.safeParse(await c.req.json().catch(() => ({})));
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid nickname', errors: toFieldErrors(parsed.error) }, 400);
+      }
+      const { nickname } = parsed.data;
+
+      if (!(await takeNickname(user.id, nickname))) {
+        return c.json({ error: 'That nickname is taken', reason: 'taken' } satisfies NicknameTakenResponse, 409);
+      }
+
+      // Only deletes the old claim if it's still this user's
+      const profile = await getOrCreateProfile(user);
+      if (profile.nickname && nicknameClaimKey(profile.nickname) !== nicknameClaimKey(nickname)) {
+        await kv.delIfMatch(nicknameClaimKey(profile.nickname), { userId: user.id });
+      }
+      await saveProfile({ ...profile, nickname });
+
+      return c.json({ success: true, nickname } satisfies ProfileResponseOf<'PUT /server/nickname'>);
+    } catch (error) {
+      console.error('Error claiming nickname:', error);
+      return c.json({ error: 'Failed to claim nickname' }, 500);
+    }
+  });
+
+  // Give up the signed-in user's nickname at /server/nickname so someone else can take it
+  app.delete('/server/nickname', async (c) => {
+    try {
+      const user = await getAuthUser(c.req.header('Authorization'), jwtSecret);
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      const profile = await getProfile(user.id);
+      if (profile?.nickname) {
+        await kv.delIfMatch(nicknameClaimKey(profile.nickname), { userId: user.id });
+        await saveProfile({ ...profile, nickname: null });
+      }
+      return c.json({ success: true } satisfies ProfileResponseOf<'DELETE /server/nickname'>);
+    } catch (error) {
+      console.error('Error releasing nickname:', error);
+      return c.json({ error: 'Failed to release nickname' }, 500);
+    }
+  });
+
+  // Register the nicknames users chose before the registry existed at /server/admin/nicknames (service role key
+  // only), with body { claims: [{ userId, nickname }] }; `npm run backfill:nicknames` sends every account's.
+  // Users who already hold a nickname keep it, and a name goes to whoever claims it first, so send older accounts first.
+  app.post('/server/admin/nicknames', async (c) => {
+    try {
+      if (!(await isServiceRole(c.req.header('Authorization'), jwtSecret))) {
+        return c.json({ error: 'Service role key required' }, 403);
+      }
+
+      const parsed = nicknameBackfillSchema.safeParse(await c.req.json().catch(() => ({})));
+      if (!parsed.success) {
+        return c.json({ error: 'Invalid claims', errors: toFieldErrors(parsed.error) }, 400);
+      }
+
+      const report: NicknameBackfillReport = { claimed: 0, unchanged: 0, refused: [] };
+      for (const { userId, nickname: requested } of parsed.data.claims) {
+        const nickname = requested.trim();
+        const profile = await getOrCreateProfile({ id: userId });
+        if (profile.nickname) {
+          report.unchanged++;
+          continue;
+        }
+        const availability = await availabilityOf(nickname, userId);
+        if (!availability.available || !(await takeNickname(userId, nickname))) {
+          report.refused.push({ userId, nickname, reason: availability.reason ?? 'taken' });
+          continue;
+        }
+        await saveProfile({ ...profile, nickname });
+        report.claimed++;
+      }
+
+      console.log(`Nickname backfill: ${report.claimed} claimed, ${report.unchanged} unchanged, ${report.refused.length} refused`);
+      return c.json(report satisfies ProfileResponseOf<'POST /server/admin/nicknames'>);
+    } catch (error) {
+      console.error('Error backfilling nicknames:', error);
+      return c.json({ error: 'Failed to backfill nicknames' }, 500);
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,7 @@
+import { createApp } from './app.ts';
+import { createStorage } from '../_shared/storage.ts';
+
+// Supabase table by default; KV_BACKEND=memory for offline development
+const app = createApp({ kv: createStorage(), jwtSecret: Deno.env.get('JWT_SECRET') });
+
+Deno.serve(app.fetch);
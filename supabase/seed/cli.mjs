@@ -0,0 +1,45 @@
+// Usage: npm run seed -- [fixture set]   (default: defaults)
+//        npm run seed -- --list
+// Writes to the project at SUPABASE_URL with SERVICE_ROLE_KEY; for a local stack both are printed by `supabase status`.
+// The seed modules are TypeScript, so they are loaded through Vite's SSR loader.
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const args = process.argv.slice(2);
+
+const server = await createServer({
+  configFile: false,
+  root: fileURLToPath(new URL('../..', import.meta.url)),
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+try {
+  const { fixtureSets, isFixtureSetName } = await server.ssrLoadModule('/supabase/seed/fixtureSets.ts');
+  const { seedFixtureSet, createRestKvWriter } = await server.ssrLoadModule('/supabase/seed/seed.ts');
+
+  if (args.includes('--list')) {
+    for (const name of Object.keys(fixtureSets)) {
+      console.log(`${name} (${fixtureSets[name]().length} recipes)`);
+    }
+  } else {
+    const name = args.find((arg) => !arg.startsWith('--')) ?? 'defaults';
+    if (!isFixtureSetName(name)) {
+      throw new Error(`Unknown fixture set "${name}". Available: ${Object.keys(fixtureSets).join(', ')}`);
+    }
+    const url = process.env.SUPABASE_URL;
+    const serviceRoleKey = process.env.SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) {
+      throw new Error('Set SUPABASE_URL and SERVICE_ROLE_KEY to the project to seed');
+    }
+    const recipes = await seedFixtureSet(createRestKvWriter({ url, serviceRoleKey }), name);
+    console.log(`Seeded ${recipes.length} recipes from "${name}" into ${url}`);
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
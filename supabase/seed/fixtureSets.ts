@@ -0,0 +1,25 @@
+// Named recipe sets for `npm run seed` and the e2e mock backend.
+import type { CommunityRecipe } from '../functions/_shared/recipesContract.ts';
+import { smoothieRecipes } from '../../src/data/recipes.ts';
+import { smoothieRecipes as legacySmoothies } from '../../src/components/smoothie-data.ts';
+import { toLegacyCommunityRecipe } from '../../src/utils/legacy/legacySmoothies.ts';
+import { buildRecipe, buildRecipes, recipeTraits, type RecipeTrait } from './recipeFactory.ts';
+
+export const fixtureSets = {
+  /** The built-in recipes from src/data/recipes.ts as community recipes */
+  defaults: (): CommunityRecipe[] =>
+    smoothieRecipes.map(({ id, ...recipe }) => buildRecipe({ ...recipe, id: `recipe:${Date.UTC(2023, 0, 1) + id}:default${id}` })),
+  /** The original site's recipes (src/components/smoothie-data.ts), credited to their contributors */
+  legacy: (): CommunityRecipe[] => legacySmoothies.map(toLegacyCommunityRecipe),
+  /** One recipe per trait plus a handful of plain ones */
+  variety: (): CommunityRecipe[] => [
+    ...buildRecipes(5),
+    ...(Object.keys(recipeTraits) as RecipeTrait[]).map((trait) => buildRecipe({}, trait)),
+  ],
+  /** Enough recipes to need several pages of GET /recipes */
+  large: (): CommunityRecipe[] => buildRecipes(250),
+} satisfies Record<string, () => CommunityRecipe[]>;
+
+export type FixtureSetName = keyof typeof fixtureSets;
+
+export const isFixtureSetName = (name: string): name is FixtureSetName => Object.hasOwn(fixtureSets, name);
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildRecipe, buildRecipes, recipeTraits, resetRecipeSequence, toRecipeInput, type RecipeTrait } from './recipeFactory';
+import { recipeInputSchema } from '../functions/_shared/recipeSchema';
+
+describe('recipe factory', () => {
+  beforeEach(() => {
+    resetRecipeSequence();
+  });
+
+  it('should build recipes the function would accept', () => {
+    const recipes = [
+      ...buildRecipes(20),
+      ...(Object.keys(recipeTraits) as RecipeTrait[]).map((trait) => buildRecipe({}, trait)),
+    ];
+
+    for (const recipe of recipes) {
+      expect(recipeInputSchema.safeParse(toRecipeInput(recipe)).success, recipe.name).toBe(true);
+    }
+  });
+
+  it('should give each recipe a unique id in creation order', () => {
+    const recipes = buildRecipes(12);
+    const ids = recipes.map((r) => r.id);
+
+    expect(new Set(ids).size).toBe(12);
+    expect([...ids].sort()).toEqual(ids);
+    expect(ids[0]).toMatch(/^recipe:\d+:\w+$/);
+  });
+
+  it('should mix allergens and traits across a list', () => {
+    const recipes = buildRecipes(30);
+
+    expect(recipes.some((r) => r.containsNuts)).toBe(true);
+    expect(recipes.some((r) => !r.containsNuts && !r.containsFat)).toBe(true);
+    expect(recipes.some((r) => r.name === recipeTraits.longName.name)).toBe(true);
+    expect(recipes.some((r) => r.ingredients.length >= 10)).toBe(true);
+  });
+
+  it('should apply traits in order and overrides last', () => {
+    const recipe = buildRecipe({ name: 'Custom' }, 'longName', 'nuts');
+
+    expect(recipe.name).toBe('Custom');
+    expect(recipe.containsNuts).toBe(true);
+    expect(recipe.ingredients).toEqual(recipeTraits.nuts.ingredients);
+  });
+});
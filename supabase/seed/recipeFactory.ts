@@ -0,0 +1,165 @@
+// Builds CommunityRecipes for tests and seed data. Every recipe passes recipeInputSchema, and ids
+// follow the `recipe:<timestamp>:<suffix>` format the function generates, so key order is creation order.
+import type { CommunityRecipe } from '../functions/_shared/recipesContract.ts';
+import { CURRENT_SCHEMA_VERSION } from '../functions/recipes/migrations.ts';
+
+// 2024-01-01T00:00:00Z; fixture n is created n minutes later
+const FIRST_CREATED_AT = Date.UTC(2024, 0, 1);
+const MINUTE = 60 * 1000;
+
+const bases: Omit<CommunityRecipe, 'id' | 'contributor'>[] = [
+  {
+    name: 'Mango Sunrise',
+    emoji: '🥭',
+    color: '#FFA500',
+    ingredients: ['1 cup frozen mango', '1/2 cup orange juice', '1/2 cup Greek yogurt'],
+    instructions: 'Blend until smooth and pour over ice.',
+    servings: 2,
+    prepTime: '5 min',
+    containsFat: true,
+    containsNuts: false,
+  },
+  {
+    name: 'Green Machine',
+    emoji: '🥬',
+    color: '#22C55E',
+    ingredients: ['2 cups spinach', '1 green apple', '1/2 cucumber', '1 cup coconut water'],
+    instructions: 'Blend the greens with the coconut water first, then add the rest.',
+    servings: 1,
+    prepTime: '4 min',
+    containsFat: false,
+    containsNuts: false,
+  },
+  {
+    name: 'Peanut Butter Cup',
+    emoji: '🥜',
+    color: '#92400E',
+    ingredients: ['2 tbsp peanut butter', '1 frozen banana', '1 tbsp cocoa powder', '1 cup whole milk'],
+    instructions: 'Blend everything on high until thick and creamy.',
+    servings: 1,
+    prepTime: '3 min',
+    containsFat: true,
+    containsNuts: true,
+  },
+  {
+    name: 'Berry Blast',
+    emoji: '🫐',
+    color: '#6366F1',
+    ingredients: ['1 cup mixed berries', '1 banana', '1 cup almond milk'],
+    instructions: 'Blend until smooth. Add a splash more milk if it is too thick.',
+    servings: 2,
+    prepTime: '5 min',
+    containsFat: false,
+    containsNuts: true,
+  },
+  {
+    name: 'Watermelon Cooler',
+    emoji: '🍉',
+    color: '#F43F5E',
+    ingredients: ['3 cups watermelon', '1/2 lime, juiced', '6 mint leaves'],
+    instructions: 'Blend briefly so the mint stays bright, then serve right away.',
+    servings: 3,
+    prepTime: '5 min',
+    containsFat: false,
+    containsNuts: false,
+  },
+];
+
+const contributors = ['Sarah M.', 'Mike T.', 'Ana Souza', 'Jordan', 'Priya K.'];
+
+/**
+ * Overrides that give a recipe a property tests and demos keep needing.
+ */
+export const recipeTraits = {
+  nuts: {
+    containsNuts: true,
+    ingredients: ['1/4 cup cashews, soaked', '1 cup oat milk', '1 date'],
+  },
+  fat: {
+    containsFat: true,
+    ingredients: ['1/2 avocado', '1 cup whole milk', '1 tbsp honey'],
+  },
+  allergenFree: {
+    containsFat: false,
+    containsNuts: false,
+    ingredients: ['1 cup pineapple', '1 cup coconut water', '1/2 inch ginger'],
+  },
+  longName: {
+    name: 'The Extra Large Triple Berry Banana Oat Breakfast Smoothie With A Hint Of Vanilla And Cinnamon',
+  },
+  accents: {
+    name: 'Açaí Crème Brûlée Bowl',
+    contributor: 'Zoë Ñúñez',
+    emoji: '🍇',
+  },
+  manyIngredients: {
+    ingredients: [
+      '1 banana',
+      '1/2 cup strawberries',
+      '1/2 cup blueberries',
+      '1/2 cup raspberries',
+      '1/4 cup blackberries',
+      '1 cup spinach',
+      '1/2 cup kale',
+      '1 tbsp chia seeds',
+      '1 tbsp flax seeds',
+      '1 tbsp hemp hearts',
+      '1/2 cup Greek yogurt',
+      '1 cup oat milk',
+      '1 tsp honey',
+      '1/2 tsp vanilla extract',
+      'Pinch of cinnamon',
+      '4 ice cubes',
+    ],
+  },
+  longInstructions: {
+    instructions: 'Add the liquids to the blender first so the blades catch. '.repeat(20).trim(),
+  },
+} satisfies Record<string, Partial<CommunityRecipe>>;
+
+export type RecipeTrait = keyof typeof recipeTraits;
+
+let sequence = 0;
+
+/** Start numbering from the beginning again, for tests that compare ids */
+export function resetRecipeSequence() {
+  sequence = 0;
+}
+
+/**
+ * Build one recipe. Successive calls rotate through different bases and contributors;
+ * traits are applied in order, then `overrides`.
+ */
+export function buildRecipe(overrides: Partial<CommunityRecipe> = {}, ...traits: RecipeTrait[]): CommunityRecipe {
+  const n = sequence++;
+  const createdAt = FIRST_CREATED_AT + n * MINUTE;
+  return {
+    ...bases[n % bases.length],
+    ingredients: [...bases[n % bases.length].ingredients],
+    contributor: contributors[n % contributors.length],
+    id: `recipe:${createdAt}:fx${n}`,
+    authorId: null,
+    version: 1,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date(createdAt).toISOString(),
+    ...Object.assign({}, ...traits.map((trait) => recipeTraits[trait])),
+    ...overrides,
+  };
+}
+
+/**
+ * Build `count` recipes. Every fourth one also gets a trait, so lists mix allergens, long names,
+ * accented text and long ingredient lists.
+ */
+export function buildRecipes(count: number, overrides: Partial<CommunityRecipe> = {}): CommunityRecipe[] {
+  const traitNames = Object.keys(recipeTraits) as RecipeTrait[];
+  return Array.from({ length: count }, (_, i) =>
+    i % 4 === 3 ? buildRecipe(overrides, traitNames[Math.floor(i / 4) % traitNames.length]) : buildRecipe(overrides)
+  );
+}
+
+/** The fields a client sends to create or update a recipe */
+export function toRecipeInput(recipe: CommunityRecipe) {
+  const { name, emoji, color, ingredients, instructions, servings, prepTime, containsFat, containsNuts } = recipe;
+  return { name, emoji, color, ingredients, instructions, servings, prepTime, containsFat, containsNuts };
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRestKvWriter, seedFixtureSet } from './seed';
+import { fixtureSets, isFixtureSetName } from './fixtureSets';
+import { createMemoryStorage } from '../functions/_shared/kvStorage';
+import { createApp } from '../functions/recipes/app';
+
+describe('seedFixtureSet', () => {
+  it('should make the fixture set listable through the recipes app', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const kv = createMemoryStorage();
+
+    const seeded = await seedFixtureSet(kv, 'variety');
+    const res = await createApp({ kv, jwtSecret: 'secret' }).request('/recipes?limit=100');
+
+    expect((await res.json()).recipes.map((r: { id: string }) => r.id)).toEqual(seeded.map((r) => r.id));
+    vi.restoreAllMocks();
+  });
+
+  it('should write large sets in batches', async () => {
+    const mset = vi.fn().mockResolvedValue(undefined);
+
+    const seeded = await seedFixtureSet({ mset }, 'large');
+
+    expect(seeded).toHaveLength(250);
+    expect(mset).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only accept known set names', () => {
+    expect(Object.keys(fixtureSets).every(isFixtureSetName)).toBe(true);
+    expect(isFixtureSetName('toString')).toBe(false);
+  });
+});
+
+describe('createRestKvWriter', () => {
+  it('should upsert entries into the KV table with the service role key', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 201 }));
+    const writer = createRestKvWriter({ url: 'http://127.0.0.1:54321/', serviceRoleKey: 'service-key', fetch: fetchMock });
+
+    await writer.mset(['recipe:1:a'], [{ name: 'A' }]);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://127.0.0.1:54321/rest/v1/kv_store_9f7fc7bb');
+    expect(init.headers).toMatchObject({ apikey: 'service-key', Prefer: 'resolution=merge-duplicates,return=minimal' });
+    expect(JSON.parse(init.body)).toEqual([{ key: 'recipe:1:a', value: { name: 'A' } }]);
+  });
+
+  it('should report failed writes', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('permission denied', { status: 401 }));
+    const writer = createRestKvWriter({ url: 'http://localhost', serviceRoleKey: 'bad', fetch: fetchMock });
+
+    await expect(writer.mset(['k'], [1])).rejects.toThrow('Failed to write 1 entries: 401 permission denied');
+  });
+});
@@ -0,0 +1,58 @@
+// Loads a fixture set into the recipes KV store. Run through `npm run seed`.
+import type { CommunityRecipe } from '../functions/_shared/recipesContract.ts';
+import type { KvEntry, KvStorage } from '../functions/_shared/kvStorage.ts';
+import { fixtureSets, type FixtureSetName } from './fixtureSets.ts';
+
+// Same table as recipes/kv_store.ts
+const KV_TABLE = 'kv_store_9f7fc7bb';
+const BATCH_SIZE = 100;
+
+/** Recipes are stored under their id, marked as imported so POST /recipes/admin/authors never gives them an author */
+export const toSeedEntries = (recipes: CommunityRecipe[]): KvEntry<CommunityRecipe>[] =>
+  recipes.map((recipe) => ({ key: recipe.id, value: { ...recipe, imported: true } }));
+
+/**
+ * Write a fixture set, replacing recipes with the same ids. Returns the recipes written.
+ */
+export async function seedFixtureSet(kv: Pick<KvStorage, 'mset'>, name: FixtureSetName): Promise<CommunityRecipe[]> {
+  const recipes = fixtureSets[name]();
+  const entries = toSeedEntries(recipes);
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    const batch = entries.slice(i, i + BATCH_SIZE);
+    await kv.mset(
+      batch.map((entry) => entry.key),
+      batch.map((entry) => entry.value)
+    );
+  }
+  return recipes;
+}
+
+export interface RestKvOptions {
+  /** Project URL, e.g. http://127.0.0.1:54321 for `supabase start` */
+  url: string;
+  serviceRoleKey: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Upserts into the KV table through the project's REST API, so seeding needs no Supabase client.
+ */
+export function createRestKvWriter({ url, serviceRoleKey, fetch: fetchImpl = fetch }: RestKvOptions): Pick<KvStorage, 'mset'> {
+  return {
+    mset: async (keys, values) => {
+      const res = await fetchImpl(`${url.replace(/\/$/, '')}/rest/v1/${KV_TABLE}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          apikey: serviceRoleKey,
+          Authorization: `Bearer ${serviceRoleKey}`,
+          Prefer: 'resolution=merge-duplicates,return=minimal',
+        },
+        body: JSON.stringify(keys.map((key, i) => ({ key, value: values[i] }))),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to write ${keys.length} entries: ${res.status} ${await res.text()}`);
+      }
+    },
+  };
+}
@@ -2,9 +2,16 @@
   import { defineConfig } from 'vite';
   import react from '@vitejs/plugin-react-swc';
   import path from 'path';
+  import { mockBackend } from './e2e/support/vitePlugin';
+
+  // Names this build's service worker cache (src/serviceWorker/caching.ts), so a deploy starts it over
+  const buildId = process.env.VERCEL_GIT_COMMIT_SHA?.slice(0, 12) || Date.now().toString(36);
 
   export default defineConfig({
-    plugins: [react()],
+    plugins: [react(), mockBackend()],
+    define: {
+      'import.meta.env.VITE_BUILD_ID': JSON.stringify(buildId),
+    },
     test: {
       globals: true,
       environment: 'happy-dom',
@@ -76,6 +83,16 @@
     build: {
       target: 'esnext',
       outDir: 'build',
+      rollupOptions: {
+        input: {
+          main: path.resolve(__dirname, 'index.html'),
+          // The service worker has to be served from the root, under a name that doesn't change
+          sw: path.resolve(__dirname, 'src/serviceWorker/sw.ts'),
+        },
+        output: {
+          entryFileNames: (chunk) => (chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js'),
+        },
+      },
     },
     server: {
       port: 3000,